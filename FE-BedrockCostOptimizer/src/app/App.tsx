@@ -2,13 +2,14 @@ import { useEffect, useState } from "react";
 import { RouterProvider } from "react-router";
 import { router } from "./routes";
 import { fetchPricingData } from "./components/pricing-data";
+import { fetchTemplateData } from "./components/template-data";
 
 export default function App() {
   const [ready, setReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    fetchPricingData()
+    Promise.all([fetchPricingData(), fetchTemplateData()])
       .then(() => setReady(true))
       .catch((e) => setError(e.message));
   }, []);
@@ -17,7 +18,7 @@ export default function App() {
     return (
       <div className="flex items-center justify-center min-h-screen bg-background">
         <div className="text-center space-y-2">
-          <p className="text-destructive font-semibold">Failed to load pricing data</p>
+          <p className="text-destructive font-semibold">Failed to load app data</p>
           <p className="text-muted-foreground text-sm">{error}</p>
         </div>
       </div>
@@ -29,7 +30,7 @@ export default function App() {
       <div className="flex items-center justify-center min-h-screen bg-background">
         <div className="text-center space-y-2">
           <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto" />
-          <p className="text-muted-foreground text-sm">Loading pricing data...</p>
+          <p className="text-muted-foreground text-sm">Loading pricing and template data...</p>
         </div>
       </div>
     );
@@ -0,0 +1,194 @@
+import { useState, useMemo } from "react";
+import {
+  Card, CardHeader, CardTitle, CardDescription, CardContent,
+} from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "./ui/select";
+import {
+  Table, TableHeader, TableBody, TableHead, TableRow, TableCell,
+} from "./ui/table";
+import type { BedrockModel } from "./pricing-data";
+import {
+  formatCost,
+  type ScenarioSettings, type SimulationInput, type Strategy, type StrategyContext, type StrategyGroup, type TemplateMeta,
+} from "./simulator-engine";
+import {
+  SOLVE_VARIABLES, solveStrategies, solveAcrossModels,
+  type BudgetSolution, type SolveVariable,
+} from "./budget-solver";
+
+interface BudgetSolverPanelProps {
+  input: SimulationInput;
+  context: StrategyContext;
+  group: StrategyGroup;
+  strategies: Strategy[];
+  models: BedrockModel[];
+  settings: ScenarioSettings;
+  fieldLabels: TemplateMeta["fieldLabels"];
+}
+
+const DEFAULT_MONTHLY_BUDGET = 500;
+const COLLAPSED_MODEL_ROWS = 8;
+
+// A missing best solution is "Not applicable" when no strategy depends on the variable.
+function formatSolution(solution: BudgetSolution | null, solutions: BudgetSolution[] = []): string {
+  if (solution ? !solution.applicable : solutions.length > 0 && solutions.every((s) => !s.applicable)) return "Not applicable";
+  if (!solution || solution.value === null) return "Over budget";
+  return `${solution.capped ? "≥ " : ""}${solution.value.toLocaleString()}`;
+}
+
+export function BudgetSolverPanel({ input, context, group, strategies, models, settings, fieldLabels }: BudgetSolverPanelProps) {
+  const [monthlyBudget, setMonthlyBudget] = useState(DEFAULT_MONTHLY_BUDGET);
+  const [runsPerMonth, setRunsPerMonth] = useState(1);
+  const [variable, setVariable] = useState<SolveVariable>("students");
+  const [showAllModels, setShowAllModels] = useState(false);
+
+  const budget = monthlyBudget / runsPerMonth;
+
+  const solutions = useMemo(
+    () => solveStrategies(input, strategies, variable, budget),
+    [input, strategies, variable, budget]
+  );
+  const byModel = useMemo(
+    () => solveAcrossModels(input, context, group, models, settings, variable, budget),
+    [input, context, group, models, settings, variable, budget]
+  );
+
+  const best = solutions.reduce<BudgetSolution | null>(
+    (b, s) => s.value !== null && (!b || s.value > b.value!) ? s : b,
+    null
+  );
+  const applicable = solutions.some((s) => s.applicable);
+  const label = fieldLabels[variable].label;
+  const visibleModels = showAllModels ? byModel : byModel.slice(0, COLLAPSED_MODEL_ROWS);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Budget Solver</CardTitle>
+        <CardDescription className="text-sm">
+          Fix a monthly budget and solve for the largest value of one input that still fits, for each strategy and model
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Monthly budget ($)</Label>
+            <Input
+              type="number"
+              min={0}
+              step={50}
+              value={monthlyBudget}
+              onChange={(e) => setMonthlyBudget(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Assignment runs per month</Label>
+            <Input
+              type="number"
+              min={1}
+              value={runsPerMonth}
+              onChange={(e) => setRunsPerMonth(Math.max(1, parseInt(e.target.value) || 1))}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Solve for</Label>
+            <Select value={variable} onValueChange={(v) => setVariable(v as SolveVariable)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SOLVE_VARIABLES.map((key) => (
+                  <SelectItem key={key} value={key} className="text-xs">{fieldLabels[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <p className="text-muted-foreground text-xs">
+          {formatCost(budget)} per run, every other input held at its current value (currently {input[variable].toLocaleString()}).{" "}
+          {best ? (
+            <>
+              On {input.model.name}, <strong>{best.strategy.label}</strong> reaches{" "}
+              <strong>{formatSolution(best)}</strong> {label.toLowerCase()}
+              {variable === "students" && input.students > 0 && best.value !== null && (
+                <> — about {Math.floor(best.value / input.students).toLocaleString()} classes of {input.students}</>
+              )}
+              .
+            </>
+          ) : applicable ? (
+            <>No strategy on {input.model.name} fits the budget even at the smallest value.</>
+          ) : (
+            <>{label} does not change any strategy's cost in this scenario.</>
+          )}
+        </p>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Strategy</TableHead>
+              <TableHead className="text-right">Max {label.toLowerCase()}</TableHead>
+              <TableHead className="text-right">Cost per run</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {solutions.map((s) => (
+              <TableRow key={s.strategy.key}>
+                <TableCell className="font-medium">
+                  {s.strategy.label}
+                  {s === best && <Badge className="ml-2 text-[10px] bg-emerald-500 text-white">Furthest</Badge>}
+                </TableCell>
+                <TableCell className="text-right">{formatSolution(s)}</TableCell>
+                <TableCell className="text-right">{s.value === null && s.applicable ? "—" : formatCost(s.cost)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Across models</p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead>Best strategy</TableHead>
+                <TableHead className="text-right">Max {label.toLowerCase()}</TableHead>
+                <TableHead className="text-right">vs current model</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleModels.map(({ model, solutions: modelSolutions, best: modelBest }) => (
+                <TableRow key={model.id} className={model.id === input.model.id ? "bg-muted/50" : undefined}>
+                  <TableCell className="font-medium">{model.name}</TableCell>
+                  <TableCell>{modelBest?.strategy.label ?? "—"}</TableCell>
+                  <TableCell className="text-right">{formatSolution(modelBest, modelSolutions)}</TableCell>
+                  <TableCell className="text-right">
+                    {modelBest?.value && best?.value ? `${(modelBest.value / best.value).toFixed(2)}×` : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {byModel.length > COLLAPSED_MODEL_ROWS && (
+            <Button variant="ghost" size="sm" className="text-xs" onClick={() => setShowAllModels((v) => !v)}>
+              {showAllModels ? "Show fewer models" : `Show all ${byModel.length} models`}
+            </Button>
+          )}
+        </div>
+
+        <p className="text-muted-foreground text-[11px]">
+          Other models use the same region, inference profile, tier and cache TTL where they offer them, and fall back to
+          their defaults otherwise. Class sizes solved here assume cache entries stay warm between requests.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import type { BedrockModel } from "./pricing-data";
+import {
+  buildModelScenario, computeStrategyCost, getSpeechTranscriptTokens, getStrategies,
+  type ScenarioSettings, type SimulationInput, type Strategy, type StrategyContext, type StrategyGroup,
+} from "./simulator-engine";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SolveVariable = "students" | "reqsPerStudent" | "ctxTokens" | "outputTokens";
+
+export interface BudgetSolution {
+  strategy: Strategy;
+  // Largest value that fits the budget; null when even the smallest is over it.
+  value: number | null;
+  // Cost at `value`, or at the smallest value when nothing fits.
+  cost: number;
+  // The search ceiling itself fits, so the budget allows at least `value`.
+  capped: boolean;
+  // False when the variable does not change this strategy's cost; `value` is then
+  // null and `cost` is the current one.
+  applicable: boolean;
+}
+
+export interface ModelBudgetSolution {
+  model: BedrockModel;
+  solutions: BudgetSolution[];
+  best: BudgetSolution | null;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const SOLVE_VARIABLES: SolveVariable[] = ["students", "reqsPerStudent", "ctxTokens", "outputTokens"];
+
+export const SOLVE_RANGES: Record<SolveVariable, { min: number; max: number }> = {
+  students: { min: 1, max: 1_000_000 },
+  reqsPerStudent: { min: 1, max: 10_000 },
+  ctxTokens: { min: 0, max: 1_000_000 },
+  outputTokens: { min: 1, max: 128_000 },
+};
+
+// ---------------------------------------------------------------------------
+// Solver
+// ---------------------------------------------------------------------------
+
+// A cache expiry simulation was run for the current class, so its write counts
+// do not carry over to another class size; the solver assumes entries stay warm.
+// A spoken session splits its transcript over the turns, as the simulator does.
+function withValue(input: SimulationInput, variable: SolveVariable, value: number): SimulationInput {
+  const resized = variable === "students" || variable === "reqsPerStudent";
+  const next: SimulationInput = { ...input, [variable]: value, cacheWrites: resized ? null : input.cacheWrites };
+  if (variable === "reqsPerStudent" && input.speech) {
+    const transcript = getSpeechTranscriptTokens(input.speech, value);
+    next.subTokens = transcript.student;
+    next.outputTokens = transcript.ai;
+  }
+  return next;
+}
+
+// Cost grows with each free variable except output length under summarization:
+// longer replies fill the history cap sooner and shift when summaries happen,
+// so cost dips in places. A binary search finds the first value over budget;
+// for that case it then walks on while the output charge alone still fits.
+export function solveForBudget(
+  strategy: Strategy,
+  input: SimulationInput,
+  variable: SolveVariable,
+  budget: number
+): BudgetSolution {
+  const { min, max } = SOLVE_RANGES[variable];
+  const breakdownAt = (value: number) => computeStrategyCost(strategy, withValue(input, variable, value));
+  const costAt = (value: number) => breakdownAt(value).total;
+
+  const minCost = costAt(min);
+  const maxCost = costAt(max);
+  // A spoken session fixes per-turn tokens and a speech-to-speech session is
+  // billed by the minute however it is split into turns.
+  const speechFixed = !!input.speech
+    && (variable === "outputTokens" || (variable === "reqsPerStudent" && strategy.kind === "speech"));
+  const applicable = !speechFixed && maxCost !== minCost;
+  if (!applicable) return { strategy, value: null, cost: computeStrategyCost(strategy, input).total, capped: false, applicable };
+  if (minCost > budget) return { strategy, value: null, cost: minCost, capped: false, applicable };
+  if (maxCost <= budget) return { strategy, value: max, cost: maxCost, capped: true, applicable };
+
+  let lo = min;
+  let loCost = minCost;
+  let hi = max;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    const cost = costAt(mid);
+    if (cost <= budget) {
+      lo = mid;
+      loCost = cost;
+    } else {
+      hi = mid;
+    }
+  }
+
+  if (variable === "outputTokens" && strategy.group === "summarization") {
+    for (let value = hi + 1; value < max; value++) {
+      const breakdown = breakdownAt(value);
+      if (breakdown.output > budget) break;
+      if (breakdown.total <= budget) {
+        lo = value;
+        loCost = breakdown.total;
+      }
+    }
+  }
+  return { strategy, value: lo, cost: loCost, capped: false, applicable };
+}
+
+// The strategy that reaches furthest; ties go to the lower tiebreak.
+function pickBest(solutions: BudgetSolution[]): BudgetSolution | null {
+  const fitting = solutions.filter((s) => s.value !== null);
+  if (fitting.length === 0) return null;
+  return fitting.reduce((best, s) =>
+    s.value! > best.value! || (s.value === best.value && s.strategy.tiebreak < best.strategy.tiebreak) ? s : best
+  );
+}
+
+export function solveStrategies(
+  input: SimulationInput,
+  strategies: Strategy[],
+  variable: SolveVariable,
+  budget: number
+): BudgetSolution[] {
+  return strategies.map((strategy) => solveForBudget(strategy, input, variable, budget));
+}
+
+// Solves every model with the strategies it supports, furthest-reaching first.
+export function solveAcrossModels(
+  input: SimulationInput,
+  context: StrategyContext,
+  group: StrategyGroup,
+  models: BedrockModel[],
+  settings: ScenarioSettings,
+  variable: SolveVariable,
+  budget: number
+): ModelBudgetSolution[] {
+  return models
+    .map((model): ModelBudgetSolution => {
+      const scenario = buildModelScenario(input, context, model, settings);
+      const solutions = solveStrategies(scenario.input, getStrategies(group, scenario.context), variable, budget);
+      return { model: scenario.input.model, solutions, best: pickBest(solutions) };
+    })
+    .sort((a, b) => (b.best?.value ?? -1) - (a.best?.value ?? -1));
+}
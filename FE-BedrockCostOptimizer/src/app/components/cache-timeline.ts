@@ -0,0 +1,224 @@
+import type { CacheTTL, CacheWriteCounts } from "./simulator-engine";
+import { createRandom, randomExponential, randomInt, DEFAULT_SEED, type RandomSource } from "./random";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ArrivalPattern = "class-period" | "bursty" | "week";
+
+export interface ArrivalPatternMeta {
+  label: string;
+  description: string;
+}
+
+// Request times in seconds from the start of the simulation, one sorted array per student.
+export type ArrivalTimeline = number[][];
+
+// One meeting of the same assignment; sections share the assignment-level
+// cache entry whenever it is still warm when they start.
+export interface ClassSection {
+  name: string;
+  // Minutes after midnight the section starts working.
+  startMinutes: number;
+  students: number;
+}
+
+export interface SectionCacheReport {
+  section: ClassSection;
+  requests: number;
+  // Writes of the assignment-level prefix paid by this section's requests.
+  writes: number;
+  // The section's first request found the prefix still cached by an earlier one.
+  startsWarm: boolean;
+}
+
+export interface SectionCacheAnalysis {
+  sections: SectionCacheReport[];
+  // Share of requests that read the assignment-level prefix from cache.
+  hitRatio: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const ARRIVAL_PATTERNS: Record<ArrivalPattern, ArrivalPatternMeta> = {
+  "class-period": {
+    label: "Class period",
+    description: "Everyone works during one 50-minute class, requests spread evenly",
+  },
+  bursty: {
+    label: "Bursty",
+    description: "Students arrive in a few waves over an evening and work in quick sessions",
+  },
+  week: {
+    label: "Spread over a week",
+    description: "Each student works in one to three sessions at random times across seven days",
+  },
+};
+
+export const CACHE_TTL_SECONDS: Record<CacheTTL, number> = {
+  "5min": 5 * 60,
+  "1hour": 60 * 60,
+};
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const CLASS_PERIOD_LENGTH = 50 * MINUTE;
+const BURST_COUNT = 3;
+const BURST_SPACING = 90 * MINUTE;
+const BURST_JITTER = 10 * MINUTE;
+const SESSION_GAP_MEAN = 90;
+const WEEK_SESSION_GAP_MEAN = 2 * MINUTE;
+const WEEK_MAX_SESSIONS = 3;
+
+export const DEFAULT_SECTION_COUNT = 3;
+const DEFAULT_FIRST_SECTION_START = 8 * 60;
+const DEFAULT_SECTION_SPACING = 60;
+
+// ---------------------------------------------------------------------------
+// Arrival generation
+// ---------------------------------------------------------------------------
+
+function sessionTimes(rand: RandomSource, start: number, count: number, gapMean: number): number[] {
+  const times: number[] = [];
+  let t = start;
+  for (let i = 0; i < count; i++) {
+    if (i > 0) t += randomExponential(rand, gapMean);
+    times.push(t);
+  }
+  return times;
+}
+
+export function generateArrivals(
+  students: number,
+  reqsPerStudent: number,
+  pattern: ArrivalPattern,
+  seed: number = DEFAULT_SEED
+): ArrivalTimeline {
+  const rand = createRandom(seed);
+
+  return Array.from({ length: students }, () => {
+    switch (pattern) {
+      case "class-period":
+        return Array.from({ length: reqsPerStudent }, () => rand() * CLASS_PERIOD_LENGTH)
+          .sort((a, b) => a - b);
+      case "bursty": {
+        const start = randomInt(rand, BURST_COUNT) * BURST_SPACING + rand() * BURST_JITTER;
+        return sessionTimes(rand, start, reqsPerStudent, SESSION_GAP_MEAN);
+      }
+      case "week": {
+        const sessions = Math.min(reqsPerStudent, 1 + randomInt(rand, WEEK_MAX_SESSIONS));
+        const times: number[] = [];
+        for (let s = 0; s < sessions; s++) {
+          const count = Math.floor(reqsPerStudent / sessions) + (s < reqsPerStudent % sessions ? 1 : 0);
+          times.push(...sessionTimes(rand, rand() * 7 * DAY, count, WEEK_SESSION_GAP_MEAN));
+        }
+        return times.sort((a, b) => a - b);
+      }
+    }
+  });
+}
+
+// 510 → "08:30"
+export function formatClockTime(minutes: number): string {
+  const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+// Splits a class evenly into sections an hour apart, starting at 8:00.
+export function splitIntoSections(students: number, count: number = DEFAULT_SECTION_COUNT): ClassSection[] {
+  return Array.from({ length: count }, (_, i) => ({
+    name: `Section ${i + 1}`,
+    startMinutes: DEFAULT_FIRST_SECTION_START + i * DEFAULT_SECTION_SPACING,
+    students: Math.floor(students / count) + (i < students % count ? 1 : 0),
+  }));
+}
+
+// Sections only stand in for the class while at least one of them has students.
+export function countSectionStudents(sections: ClassSection[]): number {
+  return sections.reduce((sum, s) => sum + s.students, 0);
+}
+
+// Each section follows the arrival pattern from its own start time. Students
+// are listed section by section, in the order given.
+export function generateSectionArrivals(
+  sections: ClassSection[],
+  reqsPerStudent: number,
+  pattern: ArrivalPattern,
+  seed: number = DEFAULT_SEED
+): ArrivalTimeline {
+  return sections.flatMap((section, i) => {
+    const offset = section.startMinutes * MINUTE;
+    return generateArrivals(section.students, reqsPerStudent, pattern, seed + i)
+      .map((times) => times.map((t) => t + offset));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Cache expiry
+// ---------------------------------------------------------------------------
+
+// Replays sorted access times against one cache entry. A read refreshes the
+// entry's TTL; an access after expiry pays for a fresh write.
+export function countCacheWrites(times: number[], ttlSeconds: number): number {
+  let writes = 0;
+  let expiresAt = -Infinity;
+  for (const t of times) {
+    if (t >= expiresAt) writes++;
+    expiresAt = t + ttlSeconds;
+  }
+  return writes;
+}
+
+export function simulateCacheWrites(arrivals: ArrivalTimeline, ttl: CacheTTL): CacheWriteCounts {
+  const ttlSeconds = CACHE_TTL_SECONDS[ttl];
+  const allTimes = arrivals.flat().sort((a, b) => a - b);
+  return {
+    assignment: countCacheWrites(allTimes, ttlSeconds),
+    student: arrivals.reduce((sum, times) => sum + countCacheWrites(times, ttlSeconds), 0),
+  };
+}
+
+export function getCacheHitRatio(writes: number, requests: number): number {
+  return requests > 0 ? 1 - Math.min(writes, requests) / requests : 0;
+}
+
+// Replays every section's requests against the one assignment-level entry and
+// charges each write to the section whose request paid for it.
+export function analyzeSectionCache(
+  sections: ClassSection[],
+  arrivals: ArrivalTimeline,
+  ttl: CacheTTL
+): SectionCacheAnalysis {
+  const ttlSeconds = CACHE_TTL_SECONDS[ttl];
+  const tagged: { time: number; section: number }[] = [];
+  let student = 0;
+  sections.forEach((section, i) => {
+    for (const times of arrivals.slice(student, student + section.students)) {
+      for (const time of times) tagged.push({ time, section: i });
+    }
+    student += section.students;
+  });
+  tagged.sort((a, b) => a.time - b.time);
+
+  const reports: SectionCacheReport[] = sections.map((section) => ({
+    section, requests: 0, writes: 0, startsWarm: false,
+  }));
+  let expiresAt = -Infinity;
+  for (const { time, section } of tagged) {
+    const report = reports[section];
+    const hit = time < expiresAt;
+    if (report.requests === 0) report.startsWarm = hit;
+    if (!hit) report.writes++;
+    report.requests++;
+    expiresAt = time + ttlSeconds;
+  }
+
+  const requests = reports.reduce((sum, r) => sum + r.requests, 0);
+  const writes = reports.reduce((sum, r) => sum + r.writes, 0);
+  return { sections: reports, hitRatio: getCacheHitRatio(writes, requests) };
+}
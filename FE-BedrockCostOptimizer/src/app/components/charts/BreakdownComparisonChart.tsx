@@ -0,0 +1,36 @@
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend,
+  ResponsiveContainer, Tooltip as RechartsTooltip,
+} from "recharts";
+import { formatCost } from "../simulator-engine";
+import { SIDE_COLORS, type BreakdownDelta } from "../scenario-diff";
+
+interface BreakdownComparisonChartProps {
+  deltas: BreakdownDelta[];
+  labelA: string;
+  labelB: string;
+}
+
+export function BreakdownComparisonChart({ deltas, labelA, labelB }: BreakdownComparisonChartProps) {
+  const data = deltas
+    .filter((d) => d.key !== "total")
+    .map((d) => ({ name: d.label, [labelA]: d.a, [labelB]: d.b }));
+  return (
+    <div className="h-[320px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} barGap={2}>
+          <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
+          <XAxis dataKey="name" tick={{ fill: "var(--muted-foreground)", fontSize: 12 }} />
+          <YAxis tickFormatter={(v: number) => `$${v.toFixed(2)}`} tick={{ fill: "var(--muted-foreground)", fontSize: 12 }} />
+          <RechartsTooltip
+            formatter={(value: number) => formatCost(value)}
+            contentStyle={{ backgroundColor: "var(--card)", border: "1px solid var(--border)", borderRadius: "8px", fontSize: "12px" }}
+          />
+          <Legend wrapperStyle={{ fontSize: "12px" }} />
+          <Bar dataKey={labelA} fill={SIDE_COLORS.a} isAnimationActive={false} radius={[4, 4, 0, 0]} />
+          <Bar dataKey={labelB} fill={SIDE_COLORS.b} isAnimationActive={false} radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend,
   ResponsiveContainer, Tooltip as RechartsTooltip,
 } from "recharts";
-import { CHART_COLORS, formatCost } from "../simulator-engine";
+import { CHART_COLORS, formatCost, type CostBreakdown } from "../simulator-engine";
 
 export interface BarChartDatum {
   name: string;
@@ -10,9 +10,26 @@ export interface BarChartDatum {
   "Cache Read": number;
   "Fresh Input": number;
   Output: number;
+  Reasoning: number;
+  Embedding: number;
+  "Speech Audio": number;
   Guardrails: number;
 }
 
+export function toBarChartDatum(name: string, breakdown: CostBreakdown): BarChartDatum {
+  return {
+    name,
+    "Cache Write": breakdown.cacheWrite,
+    "Cache Read": breakdown.cacheRead,
+    "Fresh Input": breakdown.freshInput,
+    Output: breakdown.output,
+    Reasoning: breakdown.reasoning,
+    Embedding: "embedding" in breakdown ? breakdown.embedding as number : 0,
+    "Speech Audio": "speech" in breakdown ? breakdown.speech as number : 0,
+    Guardrails: breakdown.guardrails,
+  };
+}
+
 interface CostComparisonBarChartProps {
   data: BarChartDatum[];
   chartKey?: string;
@@ -35,6 +52,9 @@ export function CostComparisonBarChart({ data, chartKey }: CostComparisonBarChar
           <Bar dataKey="Cache Read" stackId="cost" fill={CHART_COLORS.cacheRead} isAnimationActive={false} />
           <Bar dataKey="Fresh Input" stackId="cost" fill={CHART_COLORS.noCaching} isAnimationActive={false} />
           <Bar dataKey="Output" stackId="cost" fill={CHART_COLORS.batch} isAnimationActive={false} />
+          <Bar dataKey="Reasoning" stackId="cost" fill={CHART_COLORS.reasoning} isAnimationActive={false} />
+          <Bar dataKey="Embedding" stackId="cost" fill={CHART_COLORS.retrieval} isAnimationActive={false} />
+          <Bar dataKey="Speech Audio" stackId="cost" fill={CHART_COLORS.speech} isAnimationActive={false} />
           <Bar dataKey="Guardrails" stackId="cost" fill={CHART_COLORS.guardrails} isAnimationActive={false} radius={[4, 4, 0, 0]} />
         </BarChart>
       </ResponsiveContainer>
@@ -0,0 +1,69 @@
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  ResponsiveContainer, Tooltip as RechartsTooltip, ReferenceLine,
+} from "recharts";
+import { CHART_COLORS, formatCost } from "../simulator-engine";
+import type { HistogramBin } from "../monte-carlo";
+
+interface CostDistributionChartProps {
+  bins: HistogramBin[];
+  p10: number;
+  p50: number;
+  p90: number;
+  color: string;
+  trials: number;
+  compact?: boolean;
+}
+
+export function CostDistributionChart({ bins, p10, p50, p90, color, trials, compact = false }: CostDistributionChartProps) {
+  const data = bins.map((b) => ({ mid: (b.x0 + b.x1) / 2, x0: b.x0, x1: b.x1, count: b.count }));
+  const xDomain: [number, number] = bins.length > 0
+    ? [bins[0].x0, bins[bins.length - 1].x1]
+    : [0, 1];
+
+  return (
+    <div className={compact ? "h-[220px]" : "h-[280px]"}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} barCategoryGap={1} margin={{ top: 16, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
+          <XAxis
+            dataKey="mid"
+            type="number"
+            domain={xDomain}
+            tickCount={6}
+            tickFormatter={(v: number) => formatCost(v)}
+            tick={{ fill: "var(--muted-foreground)", fontSize: 12 }}
+            label={{ value: "Total cost per class", position: "insideBottom", offset: -5, fill: "var(--muted-foreground)", fontSize: 12 }}
+          />
+          <YAxis
+            tickFormatter={(v: number) => `${((v / trials) * 100).toFixed(0)}%`}
+            tick={{ fill: "var(--muted-foreground)", fontSize: 12 }}
+          />
+          <RechartsTooltip
+            content={({ active, payload }) => {
+              if (!active || !payload?.length) return null;
+              const d = payload[0].payload as (typeof data)[number];
+              return (
+                <div style={{ backgroundColor: "var(--card)", border: "1px solid var(--border)", borderRadius: "8px", padding: "8px 10px", fontSize: "12px" }}>
+                  <div style={{ fontWeight: 600 }}>{formatCost(d.x0)} – {formatCost(d.x1)}</div>
+                  <div>{d.count.toLocaleString()} trials ({((d.count / trials) * 100).toFixed(1)}%)</div>
+                </div>
+              );
+            }}
+          />
+          <Bar dataKey="count" fill={color} isAnimationActive={false} />
+          {([["P10", p10], ["P50", p50], ["P90", p90]] as const).map(([label, x]) => (
+            <ReferenceLine
+              key={label}
+              x={x}
+              stroke={CHART_COLORS.crossover}
+              strokeDasharray={label === "P50" ? undefined : "6 4"}
+              strokeWidth={1.5}
+              label={{ value: label, position: "top", fill: CHART_COLORS.crossover, fontSize: 11, fontWeight: 600 }}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
+import { Clock, Timer } from "lucide-react";
 import { Badge } from "../ui/badge";
-import { formatCost, type CostBreakdown } from "../simulator-engine";
+import { formatCost, formatDuration, type CostBreakdown, type StrategyLatency } from "../simulator-engine";
 
 export interface StrategyCardData {
   key: string;
@@ -7,6 +8,8 @@ export interface StrategyCardData {
   description: string;
   breakdown: CostBreakdown;
   isWinner: boolean;
+  note?: string;
+  latency?: StrategyLatency;
 }
 
 interface CostSummaryCardsProps {
@@ -23,6 +26,31 @@ function CostLine({ label, value }: { label: string; value: number }) {
   );
 }
 
+// Per-turn wait and time until the whole class has its responses.
+export function LatencyLines({ latency }: { latency: StrategyLatency }) {
+  const turn = latency.mode === "async"
+    ? "Async"
+    : latency.mode === "realtime"
+      ? "Real time"
+      : formatDuration(latency.turnSeconds ?? 0);
+  const whole = latency.mode === "async" ? `Up to ${formatDuration(latency.classSeconds)}` : formatDuration(latency.classSeconds);
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-center justify-between">
+        <span className="text-muted-foreground text-xs flex items-center gap-1">
+          <Clock className="w-3 h-3" />
+          Per turn
+        </span>
+        <span className="text-xs font-medium">{turn}</span>
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-muted-foreground text-xs">Whole class</span>
+        <span className="text-xs font-medium">{whole}</span>
+      </div>
+    </div>
+  );
+}
+
 export function CostSummaryCards({ strategies, students }: CostSummaryCardsProps) {
   const cardCount = strategies.length;
   const gridCols = cardCount >= 4
@@ -55,13 +83,30 @@ export function CostSummaryCards({ strategies, students }: CostSummaryCardsProps
             {students > 0 ? formatCost(s.breakdown.total / students) : "$0.00"}
             <span className="ml-1 text-xs">per student</span>
           </p>
+          {s.note && (
+            <div className="mt-1 flex items-center gap-1.5 text-amber-600 dark:text-amber-400">
+              <Timer className="w-3.5 h-3.5 shrink-0" />
+              <span className="text-xs font-medium">{s.note}</span>
+            </div>
+          )}
           <div className="mt-2 space-y-0.5">
             {s.breakdown.cacheWrite > 0 && <CostLine label="Cache Write" value={s.breakdown.cacheWrite} />}
             {s.breakdown.cacheRead > 0 && <CostLine label="Cache Read" value={s.breakdown.cacheRead} />}
             <CostLine label="Fresh Input" value={s.breakdown.freshInput} />
             <CostLine label="Output" value={s.breakdown.output} />
+            {s.breakdown.reasoning > 0 && <CostLine label="Reasoning" value={s.breakdown.reasoning} />}
+            {"embedding" in s.breakdown && <CostLine label="Embedding" value={s.breakdown.embedding as number} />}
+            {"speech" in s.breakdown && <CostLine label="Speech Audio" value={s.breakdown.speech as number} />}
+            {"summarizationCalls" in s.breakdown && (
+              <CostLine label="Summarization Calls" value={s.breakdown.summarizationCalls as number} />
+            )}
             {s.breakdown.guardrails > 0 && <CostLine label="Guardrails" value={s.breakdown.guardrails} />}
           </div>
+          {s.latency && (
+            <div className="mt-2 pt-2 border-t border-border">
+              <LatencyLines latency={s.latency} />
+            </div>
+          )}
         </div>
       ))}
     </div>
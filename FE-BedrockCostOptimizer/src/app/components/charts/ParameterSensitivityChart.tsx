@@ -6,37 +6,20 @@ import {
 } from "recharts";
 import {
   CHART_COLORS, formatCost, formatParamLabel,
-  type SensitivityParamKey,
+  type SensitivityParamKey, type SensitivityPoint, type Strategy,
 } from "../simulator-engine";
 
-export interface ParamSensitivityDatum {
-  value: number;
-  label: string;
-  isCurrent: boolean;
-  winner: string;
-  winnerColor: string;
-  [strategy: string]: number | string | boolean;
-}
+export type ParamSensitivityDatum = SensitivityPoint;
 
 interface ParameterSensitivityChartProps {
   data: ParamSensitivityDatum[];
   sensitivityParam: SensitivityParamKey;
   paramLabel: string;
-  strategies: string[];
+  strategies: Strategy[];
   crossoverLabels?: number[];
   compact?: boolean;
 }
 
-const STRATEGY_COLOR_MAP: Record<string, string> = {
-  "No Caching": CHART_COLORS.noCaching,
-  "Per-Assignment Cache": CHART_COLORS.cachePrefix,
-  "Per-Submission Cache": CHART_COLORS.cacheSubmission,
-  "Batch Inference": CHART_COLORS.batch,
-  "Chat Sum. — No Cache": CHART_COLORS.noCaching,
-  "Chat Sum. — Cache Prefix": CHART_COLORS.cachePrefix,
-  "Chat Sum. — Cache in Prefix": CHART_COLORS.batch,
-};
-
 export function ParameterSensitivityChart({
   data,
   sensitivityParam,
@@ -98,6 +81,11 @@ export function ParameterSensitivityChart({
     return () => el.removeEventListener('wheel', handler);
   }, [data]);
 
+  const colorByLabel = useMemo(
+    () => Object.fromEntries(strategies.map((s) => [s.label, s.color])),
+    [strategies]
+  );
+
   const current = data.find((d) => d.isCurrent);
   const xSuffix = sensitivityParam !== "students" && sensitivityParam !== "reqsPerStudent" ? " (tokens)" : "";
 
@@ -136,7 +124,7 @@ export function ParameterSensitivityChart({
                 if (!active || !payload?.length) return null;
                 const entries = payload
                   .filter((p) => p.value != null)
-                  .map((p) => ({ name: p.name as string, cost: p.value as number, color: STRATEGY_COLOR_MAP[p.name as string] ?? "#999" }))
+                  .map((p) => ({ name: p.name as string, cost: p.value as number, color: colorByLabel[p.name as string] ?? "#999" }))
                   .sort((a, b) => a.cost - b.cost);
                 if (entries.length === 0) return null;
                 const cheapest = entries[0].cost;
@@ -168,10 +156,10 @@ export function ParameterSensitivityChart({
             <Legend wrapperStyle={{ fontSize: "12px", paddingTop: "8px" }} />
             {strategies.map((s) => (
               <Line
-                key={s}
+                key={s.key}
                 type="monotone"
-                dataKey={s}
-                stroke={STRATEGY_COLOR_MAP[s] ?? "#999"}
+                dataKey={s.label}
+                stroke={s.color}
                 strokeWidth={2}
                 dot={false}
                 isAnimationActive={false}
@@ -189,15 +177,15 @@ export function ParameterSensitivityChart({
               />
             ))}
             {current && strategies.map((s) => {
-              const val = current[s];
+              const val = current[s.label];
               if (val == null || typeof val !== "number") return null;
               return (
                 <ReferenceDot
-                  key={`dot-${s}`}
+                  key={`dot-${s.key}`}
                   x={current.value}
                   y={val}
                   r={6}
-                  fill={STRATEGY_COLOR_MAP[s] ?? "#999"}
+                  fill={s.color}
                   stroke="#fff"
                   strokeWidth={2}
                 />
@@ -0,0 +1,62 @@
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Legend,
+  ResponsiveContainer, Tooltip as RechartsTooltip, ReferenceDot,
+} from "recharts";
+import { formatCost, formatParamLabel, type SensitivityParamKey } from "../simulator-engine";
+import { SIDE_COLORS, type SensitivityOverlayPoint } from "../scenario-diff";
+
+interface SensitivityOverlayChartProps {
+  data: SensitivityOverlayPoint[];
+  sensitivityParam: SensitivityParamKey;
+  paramLabel: string;
+  labelA: string;
+  labelB: string;
+}
+
+export function SensitivityOverlayChart({ data, sensitivityParam, paramLabel, labelA, labelB }: SensitivityOverlayChartProps) {
+  const xSuffix = sensitivityParam !== "students" && sensitivityParam !== "reqsPerStudent" ? " (tokens)" : "";
+  const currentA = data.find((d) => d.currentA);
+  const currentB = data.find((d) => d.currentB);
+  return (
+    <div className="h-[320px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
+          <XAxis
+            dataKey="value"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickCount={8}
+            tickFormatter={(v: number) => formatParamLabel(sensitivityParam, v)}
+            tick={{ fill: "var(--muted-foreground)", fontSize: 12 }}
+            label={{
+              value: paramLabel + xSuffix,
+              position: "insideBottom",
+              offset: -5,
+              fill: "var(--muted-foreground)",
+              fontSize: 12,
+            }}
+          />
+          <YAxis
+            tickFormatter={(v: number) => `$${v.toFixed(2)}`}
+            tick={{ fill: "var(--muted-foreground)", fontSize: 12 }}
+          />
+          <RechartsTooltip
+            formatter={(value: number) => formatCost(value)}
+            labelFormatter={(value: number) => formatParamLabel(sensitivityParam, value)}
+            contentStyle={{ backgroundColor: "var(--card)", border: "1px solid var(--border)", borderRadius: "8px", fontSize: "12px" }}
+          />
+          <Legend wrapperStyle={{ fontSize: "12px", paddingTop: "8px" }} />
+          <Line type="monotone" dataKey="a" name={labelA} stroke={SIDE_COLORS.a} strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+          <Line type="monotone" dataKey="b" name={labelB} stroke={SIDE_COLORS.b} strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+          {currentA?.a != null && (
+            <ReferenceDot x={currentA.value} y={currentA.a} r={6} fill={SIDE_COLORS.a} stroke="#fff" strokeWidth={2} />
+          )}
+          {currentB?.b != null && (
+            <ReferenceDot x={currentB.value} y={currentB.b} r={6} fill={SIDE_COLORS.b} stroke="#fff" strokeWidth={2} />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
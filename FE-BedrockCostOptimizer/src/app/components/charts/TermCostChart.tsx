@@ -0,0 +1,103 @@
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Legend,
+  ResponsiveContainer, Tooltip as RechartsTooltip,
+  ReferenceArea,
+} from "recharts";
+import { CHART_COLORS, formatCost } from "../simulator-engine";
+import type { TermWeek } from "../term-plan";
+
+interface TermCostChartProps {
+  weeks: TermWeek[];
+}
+
+const SERIES_LABELS: Record<string, string> = {
+  cost: "Weekly cost",
+  cumulative: "Cumulative",
+  cumulativeBaseline: "Cumulative without caching",
+};
+
+export function TermCostChart({ weeks }: TermCostChartProps) {
+  const data = weeks.map((w) => ({ ...w, label: `W${w.week}` }));
+  return (
+    <div className="h-[320px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
+          <XAxis dataKey="label" tick={{ fill: "var(--muted-foreground)", fontSize: 12 }} />
+          <YAxis
+            yAxisId="weekly"
+            tickFormatter={(v: number) => formatCost(v)}
+            tick={{ fill: "var(--muted-foreground)", fontSize: 12 }}
+          />
+          <YAxis
+            yAxisId="cumulative"
+            orientation="right"
+            tickFormatter={(v: number) => formatCost(v)}
+            tick={{ fill: "var(--muted-foreground)", fontSize: 12 }}
+          />
+          {data.filter((w) => w.isBreak).map((w) => (
+            <ReferenceArea
+              key={w.week}
+              yAxisId="weekly"
+              x1={w.label}
+              x2={w.label}
+              fill="var(--muted)"
+              fillOpacity={0.6}
+              label={{ value: "Break", position: "insideTop", fill: "var(--muted-foreground)", fontSize: 10 }}
+            />
+          ))}
+          <RechartsTooltip
+            content={({ active, payload, label: tipLabel }) => {
+              if (!active || !payload?.length) return null;
+              const week = data.find((w) => w.label === tipLabel);
+              return (
+                <div style={{ backgroundColor: "var(--card)", border: "1px solid var(--border)", borderRadius: "8px", padding: "8px 10px", fontSize: "12px" }}>
+                  <div style={{ fontWeight: 600, marginBottom: 4 }}>
+                    Week {week?.week}{week?.startDate ? ` · ${week.startDate}` : ""}{week?.isBreak ? " · Break" : ""}
+                  </div>
+                  {payload.map((p) => (
+                    <div key={p.dataKey as string} style={{ display: "flex", alignItems: "center", gap: 6, padding: "2px 0" }}>
+                      <span style={{ width: 8, height: 8, borderRadius: "50%", backgroundColor: p.color as string, flexShrink: 0 }} />
+                      <span style={{ flex: 1 }}>{p.name}</span>
+                      <span style={{ fontWeight: 600, marginLeft: 8 }}>{formatCost(p.value as number)}</span>
+                    </div>
+                  ))}
+                </div>
+              );
+            }}
+          />
+          <Legend wrapperStyle={{ fontSize: "12px" }} />
+          <Bar
+            yAxisId="weekly"
+            dataKey="cost"
+            name={SERIES_LABELS.cost}
+            fill={CHART_COLORS.cachePrefix}
+            radius={[4, 4, 0, 0]}
+            isAnimationActive={false}
+          />
+          <Line
+            yAxisId="cumulative"
+            type="monotone"
+            dataKey="cumulative"
+            name={SERIES_LABELS.cumulative}
+            stroke={CHART_COLORS.cacheSubmission}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+          <Line
+            yAxisId="cumulative"
+            type="monotone"
+            dataKey="cumulativeBaseline"
+            name={SERIES_LABELS.cumulativeBaseline}
+            stroke={CHART_COLORS.noCaching}
+            strokeWidth={2}
+            strokeDasharray="5 4"
+            dot={false}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { PROMPT_SEGMENTS, type PromptSegmentKey, type SensitivityParamKey, type TemplateMeta } from "./simulator-engine";
+import { PRESET_FIELDS, validateTemplate } from "./template-data";
+
+interface CustomTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  initial: TemplateMeta;
+  onSave: (template: TemplateMeta) => void;
+}
+
+type TemplateFlag = "conversational" | "submissionCacheable" | "progressiveSubmission";
+
+const FLAGS: { key: TemplateFlag; label: string; hint: string }[] = [
+  { key: "conversational", label: "Conversational", hint: "Each turn carries the chat history so far" },
+  { key: "submissionCacheable", label: "Submission cacheable", hint: "The student's work is reused across requests" },
+  { key: "progressiveSubmission", label: "Progressive submission", hint: "The submission grows as the student writes" },
+];
+
+const SEGMENT_NAMES: Record<PromptSegmentKey, string> = {
+  tools: "Tools",
+  system: "System",
+  context: "Context",
+  submission: "Submission",
+  instruction: "Instruction",
+};
+
+export function CustomTemplateDialog({ open, onOpenChange, title, initial, onSave }: CustomTemplateDialogProps) {
+  const [draft, setDraft] = useState<TemplateMeta>(initial);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(initial);
+      setErrors([]);
+    }
+  }, [open]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const update = (patch: Partial<TemplateMeta>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const setPresetValue = (field: SensitivityParamKey, text: string) =>
+    setDraft((d) => ({ ...d, preset: { ...d.preset, [field]: text === "" ? NaN : Number(text) } }));
+
+  const setFieldLabel = (field: SensitivityParamKey, patch: { label?: string; tooltip?: string }) =>
+    setDraft((d) => ({ ...d, fieldLabels: { ...d.fieldLabels, [field]: { ...d.fieldLabels[field], ...patch } } }));
+
+  const handleSave = () => {
+    const result = validateTemplate(draft);
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    onSave(result.template);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Custom templates are stored in this browser. Export them to share with colleagues or move to another machine.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Name</Label>
+            <Input value={draft.label} onChange={(e) => update({ label: e.target.value })} className="h-8 text-xs" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Button label</Label>
+            <Input value={draft.shortLabel} onChange={(e) => update({ shortLabel: e.target.value })} className="h-8 text-xs" />
+          </div>
+          <div className="space-y-1.5 md:col-span-2">
+            <Label className="text-xs">Description</Label>
+            <Input value={draft.description} onChange={(e) => update({ description: e.target.value })} className="h-8 text-xs" />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {FLAGS.map((flag) => (
+            <div key={flag.key} className="flex items-center gap-2">
+              <Checkbox
+                id={`tmpl-${flag.key}`}
+                checked={draft[flag.key]}
+                onCheckedChange={(c) => update({ [flag.key]: c === true })}
+              />
+              <Label htmlFor={`tmpl-${flag.key}`} className="cursor-pointer text-xs">
+                {flag.label}
+                <span className="text-muted-foreground font-normal"> — {flag.hint}</span>
+              </Label>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="tmpl-caching-insights"
+              checked={draft.displayMode === "caching-insights"}
+              onCheckedChange={(c) => update({ displayMode: c === true ? "caching-insights" : "strategy-comparison" })}
+            />
+            <Label htmlFor="tmpl-caching-insights" className="cursor-pointer text-xs">
+              Caching insights
+              <span className="text-muted-foreground font-normal"> — Show with/without caching instead of comparing every strategy</span>
+            </Label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Fields</p>
+          <p className="text-muted-foreground text-xs">Default value, label and tooltip for each parameter.</p>
+          {PRESET_FIELDS.map((field) => {
+            const fieldLabel = draft.fieldLabels[field];
+            return (
+              <div key={field} className="grid grid-cols-[6rem_1fr_2fr] gap-2 items-center">
+                <Input
+                  type="number"
+                  min={0}
+                  value={Number.isNaN(draft.preset[field]) ? "" : draft.preset[field]}
+                  onChange={(e) => setPresetValue(field, e.target.value)}
+                  className="h-8 text-xs"
+                  aria-label={`${fieldLabel.label} default`}
+                />
+                <Input
+                  value={fieldLabel.label}
+                  onChange={(e) => setFieldLabel(field, { label: e.target.value })}
+                  className="h-8 text-xs"
+                  aria-label={`${field} label`}
+                />
+                {"tooltip" in fieldLabel ? (
+                  <Input
+                    value={fieldLabel.tooltip}
+                    onChange={(e) => setFieldLabel(field, { tooltip: e.target.value })}
+                    className="h-8 text-xs"
+                    aria-label={`${field} tooltip`}
+                  />
+                ) : <span />}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Prompt visualizer labels</p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            {PROMPT_SEGMENTS.map((segment) => (
+              <div key={segment} className="space-y-1">
+                <Label className="text-[11px] text-muted-foreground">{SEGMENT_NAMES[segment]}</Label>
+                <Input
+                  value={draft.visualizerLabels[segment]}
+                  onChange={(e) => update({ visualizerLabels: { ...draft.visualizerLabels, [segment]: e.target.value } })}
+                  className="h-8 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="rounded-md border border-red-500/30 bg-red-50 dark:bg-red-900/10 p-3 text-xs text-red-700 dark:text-red-400 list-disc pl-6 space-y-0.5">
+            {errors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave}>Save template</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
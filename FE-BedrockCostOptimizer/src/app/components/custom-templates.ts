@@ -0,0 +1,124 @@
+import {
+  CUSTOM_TEMPLATE_PREFIX,
+  type CustomTemplateKey, type CustomTemplates, type TemplateMeta,
+} from "./simulator-engine";
+import { isRecord, validateTemplate } from "./template-data";
+import { slugify } from "./file-utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+// Shape of an exported file: a versioned list of templates with their keys.
+export interface TemplateFile {
+  version: 1;
+  templates: ({ key: CustomTemplateKey } & TemplateMeta)[];
+}
+
+export interface TemplateImport {
+  templates: CustomTemplates;
+  errors: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const CUSTOM_TEMPLATES_STORAGE_KEY = "bedrock-optimizer:custom-templates";
+export const TEMPLATE_FILE_VERSION = 1;
+
+// ---------------------------------------------------------------------------
+// Keys
+// ---------------------------------------------------------------------------
+
+export function createCustomTemplateKey(label: string, existing: CustomTemplates): CustomTemplateKey {
+  const slug = slugify(label, "template");
+  let key: CustomTemplateKey = `${CUSTOM_TEMPLATE_PREFIX}${slug}`;
+  for (let n = 2; key in existing; n++) key = `${CUSTOM_TEMPLATE_PREFIX}${slug}-${n}`;
+  return key;
+}
+
+export function withoutTemplate(templates: CustomTemplates, key: CustomTemplateKey): CustomTemplates {
+  if (!(key in templates)) return templates;
+  const next = { ...templates };
+  delete next[key];
+  return next;
+}
+
+// ---------------------------------------------------------------------------
+// Import / export
+// ---------------------------------------------------------------------------
+
+export function exportTemplates(templates: CustomTemplates): string {
+  const file: TemplateFile = {
+    version: TEMPLATE_FILE_VERSION,
+    templates: (Object.entries(templates) as [CustomTemplateKey, TemplateMeta][])
+      .map(([key, meta]) => ({ key, ...meta })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Accepts an exported file, a bare list of templates, or a single template.
+// Valid templates are kept under fresh keys when theirs are taken; invalid
+// ones are reported and skipped.
+export function parseTemplateFile(text: string, existing: CustomTemplates): TemplateImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { templates: {}, errors: ["The file is not valid JSON"] };
+  }
+
+  let entries: unknown[];
+  if (isRecord(data) && "templates" in data) {
+    if (data.version !== TEMPLATE_FILE_VERSION) {
+      return { templates: {}, errors: [`Unsupported template file version: ${String(data.version)}`] };
+    }
+    entries = Array.isArray(data.templates) ? data.templates : [];
+  } else {
+    entries = Array.isArray(data) ? data : [data];
+  }
+
+  const templates: CustomTemplates = {};
+  const errors: string[] = [];
+  entries.forEach((entry, i) => {
+    const result = validateTemplate(entry, `templates[${i}]`);
+    if (!result.ok) {
+      errors.push(...result.errors);
+      return;
+    }
+    const key = createCustomTemplateKey(result.template.label, { ...existing, ...templates });
+    templates[key] = result.template;
+  });
+  return { templates, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+// Entries that no longer validate, e.g. after a schema change, are dropped.
+export function loadCustomTemplates(): CustomTemplates {
+  try {
+    const raw = localStorage.getItem(CUSTOM_TEMPLATES_STORAGE_KEY);
+    if (!raw) return {};
+    const stored: unknown = JSON.parse(raw);
+    if (!isRecord(stored)) return {};
+    const templates: CustomTemplates = {};
+    for (const [key, value] of Object.entries(stored)) {
+      const result = validateTemplate(value, key);
+      if (result.ok && key.startsWith(CUSTOM_TEMPLATE_PREFIX)) templates[key as CustomTemplateKey] = result.template;
+    }
+    return templates;
+  } catch {
+    return {};
+  }
+}
+
+export function saveCustomTemplates(templates: CustomTemplates): void {
+  try {
+    localStorage.setItem(CUSTOM_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  } catch {
+    // Storage is full or disabled; templates last for the session only.
+  }
+}
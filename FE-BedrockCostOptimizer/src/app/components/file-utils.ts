@@ -0,0 +1,17 @@
+// ---------------------------------------------------------------------------
+// Browser file helpers
+// ---------------------------------------------------------------------------
+
+// "Spring 2026 / ENG 101" → "spring-2026-eng-101"
+export function slugify(name: string, fallback: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || fallback;
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,5 +1,5 @@
 import { NavLink, Outlet } from "react-router";
-import { LayoutGrid, Calculator, BookOpen, Database, Clock } from "lucide-react";
+import { LayoutGrid, Calculator, CalendarDays, Bookmark, GitCompareArrows, BookOpen, Database, Clock } from "lucide-react";
 import { getPricingData } from "./pricing-data";
 
 export function Layout() {
@@ -53,6 +53,45 @@ export function Layout() {
                 <Calculator className="w-4 h-4" />
                 <span className="hidden sm:inline">Workload Simulator</span>
               </NavLink>
+              <NavLink
+                to="/planner"
+                className={({ isActive }) =>
+                  `flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    isActive
+                      ? "bg-primary text-primary-foreground"
+                      : "text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                  }`
+                }
+              >
+                <CalendarDays className="w-4 h-4" />
+                <span className="hidden sm:inline">Term Planner</span>
+              </NavLink>
+              <NavLink
+                to="/scenarios"
+                className={({ isActive }) =>
+                  `flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    isActive
+                      ? "bg-primary text-primary-foreground"
+                      : "text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                  }`
+                }
+              >
+                <Bookmark className="w-4 h-4" />
+                <span className="hidden sm:inline">Scenarios</span>
+              </NavLink>
+              <NavLink
+                to="/compare"
+                className={({ isActive }) =>
+                  `flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    isActive
+                      ? "bg-primary text-primary-foreground"
+                      : "text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                  }`
+                }
+              >
+                <GitCompareArrows className="w-4 h-4" />
+                <span className="hidden sm:inline">Compare</span>
+              </NavLink>
               <NavLink
                 to="/primer"
                 className={({ isActive }) =>
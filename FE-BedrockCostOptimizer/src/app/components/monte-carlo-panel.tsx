@@ -0,0 +1,238 @@
+import { useState, useMemo } from "react";
+import {
+  Card, CardHeader, CardTitle, CardDescription, CardContent,
+} from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "./ui/select";
+import {
+  Table, TableHeader, TableBody, TableHead, TableRow, TableCell,
+} from "./ui/table";
+import {
+  formatCost,
+  type SensitivityParamKey, type SimulationInput, type Strategy, type TemplateMeta,
+} from "./simulator-engine";
+import {
+  DISTRIBUTION_LABELS, MONTE_CARLO_TRIAL_OPTIONS, DEFAULT_MONTE_CARLO_TRIALS,
+  runMonteCarlo, buildHistogram,
+  type DistributionKind, type EmpiricalBin, type FieldDistribution, type PresetDistributions,
+} from "./monte-carlo";
+import { CostDistributionChart } from "./charts/CostDistributionChart";
+
+interface MonteCarloPanelProps {
+  input: SimulationInput;
+  strategies: Strategy[];
+  fieldLabels: TemplateMeta["fieldLabels"];
+}
+
+const FIELD_ORDER: SensitivityParamKey[] = [
+  "students", "reqsPerStudent", "sysTokens", "ctxTokens", "subTokens", "instTokens", "outputTokens",
+];
+
+const DEFAULT_DISTRIBUTIONS: PresetDistributions = {
+  subTokens: { kind: "lognormal", cv: 0.35 },
+  outputTokens: { kind: "normal", cv: 0.2 },
+};
+
+const DEFAULT_CV = 0.25;
+
+// "1500:2, 2000:5, 3000:1" → value:weight pairs
+function parseEmpiricalBins(text: string): EmpiricalBin[] {
+  return text
+    .split(",")
+    .map((pair) => pair.split(":").map((part) => parseFloat(part.trim())))
+    .filter(([value]) => Number.isFinite(value) && value >= 0)
+    .map(([value, weight]) => ({ value, weight: Number.isFinite(weight) ? weight : 1 }));
+}
+
+function formatEmpiricalBins(bins: EmpiricalBin[]): string {
+  return bins.map((b) => `${b.value}:${b.weight}`).join(", ");
+}
+
+export function MonteCarloPanel({ input, strategies, fieldLabels }: MonteCarloPanelProps) {
+  const [distributions, setDistributions] = useState<PresetDistributions>(DEFAULT_DISTRIBUTIONS);
+  const [empiricalText, setEmpiricalText] = useState<Partial<Record<SensitivityParamKey, string>>>({});
+  const [trials, setTrials] = useState(DEFAULT_MONTE_CARLO_TRIALS);
+  const [chartStrategyKey, setChartStrategyKey] = useState<string | null>(null);
+
+  const results = useMemo(
+    () => runMonteCarlo(input, distributions, strategies, trials),
+    [input, distributions, strategies, trials]
+  );
+
+  const cheapest = useMemo(
+    () => results.reduce<(typeof results)[number] | null>((best, r) => (!best || r.p50 < best.p50 ? r : best), null),
+    [results]
+  );
+  const charted = results.find((r) => r.strategy.key === chartStrategyKey) ?? cheapest;
+  const histogram = useMemo(() => (charted ? buildHistogram(charted.totals) : []), [charted]);
+
+  const setDistribution = (key: SensitivityParamKey, dist: FieldDistribution) => {
+    setDistributions((prev) => ({ ...prev, [key]: dist }));
+  };
+
+  const setKind = (key: SensitivityParamKey, kind: DistributionKind) => {
+    if (kind === "empirical") {
+      const value = input[key];
+      const bins = [
+        { value: Math.round(value * 0.75), weight: 1 },
+        { value, weight: 2 },
+        { value: Math.round(value * 1.5), weight: 1 },
+      ];
+      setEmpiricalText((t) => ({ ...t, [key]: formatEmpiricalBins(bins) }));
+      setDistribution(key, { kind, bins });
+      return;
+    }
+    setDistributions((prev) => {
+      const next = { ...prev };
+      if (kind === "fixed") {
+        delete next[key];
+      } else {
+        const prevDist = prev[key];
+        const cv = prevDist && "cv" in prevDist ? prevDist.cv : DEFAULT_CV;
+        next[key] = { kind, cv };
+      }
+      return next;
+    });
+  };
+
+  const varied = FIELD_ORDER.filter((key) => distributions[key]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <div>
+            <CardTitle>Cost Range (Monte Carlo)</CardTitle>
+            <CardDescription className="text-sm">
+              Give uncertain inputs a distribution and see the spread of class totals across {trials.toLocaleString()} simulated classes
+            </CardDescription>
+          </div>
+          <Select value={String(trials)} onValueChange={(v) => setTrials(parseInt(v))}>
+            <SelectTrigger className="w-[140px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTE_CARLO_TRIAL_OPTIONS.map((n) => (
+                <SelectItem key={n} value={String(n)} className="text-xs">{n.toLocaleString()} trials</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {FIELD_ORDER.map((key) => {
+            const dist: FieldDistribution = distributions[key] ?? { kind: "fixed" };
+            return (
+              <div key={key} className="flex items-center gap-2">
+                <Label className="text-xs flex-1 min-w-0 truncate">{fieldLabels[key].label}</Label>
+                <Select value={dist.kind} onValueChange={(v) => setKind(key, v as DistributionKind)}>
+                  <SelectTrigger className="w-[120px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DISTRIBUTION_LABELS) as DistributionKind[]).map((kind) => (
+                      <SelectItem key={kind} value={kind} className="text-xs">{DISTRIBUTION_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {(dist.kind === "normal" || dist.kind === "lognormal") && (
+                  <div className="flex items-center gap-1 w-[110px]">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={200}
+                      value={Math.round(dist.cv * 100)}
+                      onChange={(e) => setDistribution(key, { kind: dist.kind, cv: Math.max(0, parseFloat(e.target.value) || 0) / 100 })}
+                      className="h-8 text-xs"
+                    />
+                    <span className="text-[10px] text-muted-foreground whitespace-nowrap">% spread</span>
+                  </div>
+                )}
+                {dist.kind === "empirical" && (
+                  <Input
+                    value={empiricalText[key] ?? formatEmpiricalBins(dist.bins)}
+                    onChange={(e) => {
+                      const text = e.target.value;
+                      setEmpiricalText((t) => ({ ...t, [key]: text }));
+                      const bins = parseEmpiricalBins(text);
+                      if (bins.length > 0) setDistribution(key, { kind: "empirical", bins });
+                    }}
+                    placeholder="value:weight, …"
+                    className="h-8 text-xs w-[180px]"
+                  />
+                )}
+                {dist.kind === "fixed" && <div className="w-[110px]" />}
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-muted-foreground text-[11px]">
+          Spread is the standard deviation as a percentage of the current value. Empirical histograms take value:weight pairs.
+        </p>
+
+        {varied.length === 0 ? (
+          <p className="text-muted-foreground text-sm">
+            All inputs are fixed — every trial costs the same. Pick a distribution for at least one field.
+          </p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Strategy</TableHead>
+                  <TableHead className="text-right">P10</TableHead>
+                  <TableHead className="text-right">P50</TableHead>
+                  <TableHead className="text-right">P90</TableHead>
+                  <TableHead className="text-right">Mean</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((r) => (
+                  <TableRow
+                    key={r.strategy.key}
+                    className={`cursor-pointer ${r === charted ? "bg-muted/50" : ""}`}
+                    onClick={() => setChartStrategyKey(r.strategy.key)}
+                  >
+                    <TableCell className="font-medium">
+                      <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: r.strategy.color }} />
+                      {r.strategy.label}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCost(r.p10)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCost(r.p50)}</TableCell>
+                    <TableCell className="text-right">{formatCost(r.p90)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{formatCost(r.mean)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {charted && (
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-2">
+                  {charted.strategy.label} — distribution of class totals
+                  <span className="text-[10px] ml-2 text-muted-foreground/60">Click a row to chart another strategy</span>
+                </p>
+                <CostDistributionChart
+                  bins={histogram}
+                  p10={charted.p10}
+                  p50={charted.p50}
+                  p90={charted.p90}
+                  color={charted.strategy.color}
+                  trials={trials}
+                />
+                <p className="text-muted-foreground mt-2 text-xs">
+                  Budget <strong>{formatCost(charted.p90)}</strong> to cover 9 in 10 classes with {charted.strategy.label};
+                  half of classes come in under <strong>{formatCost(charted.p50)}</strong>.
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import {
+  computeStrategyCost,
+  type SensitivityParamKey, type SimulationInput, type Strategy, type TemplatePreset,
+} from "./simulator-engine";
+import { createRandom, randomNormal, DEFAULT_SEED, type RandomSource } from "./random";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DistributionKind = "fixed" | "normal" | "lognormal" | "empirical";
+
+export interface EmpiricalBin {
+  value: number;
+  weight: number;
+}
+
+// Normal and lognormal spreads are relative to the current field value, so the
+// distribution follows the slider: cv = standard deviation / mean.
+export type FieldDistribution =
+  | { kind: "fixed" }
+  | { kind: "normal"; cv: number }
+  | { kind: "lognormal"; cv: number }
+  | { kind: "empirical"; bins: EmpiricalBin[] };
+
+export type PresetDistributions = Partial<Record<SensitivityParamKey, FieldDistribution>>;
+
+export interface StrategyDistribution {
+  strategy: Strategy;
+  totals: number[];
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface HistogramBin {
+  x0: number;
+  x1: number;
+  count: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DISTRIBUTION_LABELS: Record<DistributionKind, string> = {
+  fixed: "Fixed",
+  normal: "Normal",
+  lognormal: "Lognormal",
+  empirical: "Empirical",
+};
+
+export const MONTE_CARLO_TRIAL_OPTIONS = [500, 1000, 5000];
+export const DEFAULT_MONTE_CARLO_TRIALS = 1000;
+
+const INTEGER_FIELDS: SensitivityParamKey[] = ["students", "reqsPerStudent"];
+
+// ---------------------------------------------------------------------------
+// Sampling
+// ---------------------------------------------------------------------------
+
+function sampleEmpirical(bins: EmpiricalBin[], rand: RandomSource, fallback: number): number {
+  const totalWeight = bins.reduce((sum, b) => sum + Math.max(0, b.weight), 0);
+  if (totalWeight <= 0) return fallback;
+  let r = rand() * totalWeight;
+  for (const bin of bins) {
+    r -= Math.max(0, bin.weight);
+    if (r < 0) return bin.value;
+  }
+  return bins[bins.length - 1].value;
+}
+
+export function sampleField(dist: FieldDistribution, mean: number, rand: RandomSource): number {
+  switch (dist.kind) {
+    case "fixed":
+      return mean;
+    case "normal":
+      return Math.max(0, mean + dist.cv * mean * randomNormal(rand));
+    case "lognormal": {
+      if (mean <= 0) return 0;
+      const sigma2 = Math.log(1 + dist.cv * dist.cv);
+      const mu = Math.log(mean) - sigma2 / 2;
+      return Math.exp(mu + Math.sqrt(sigma2) * randomNormal(rand));
+    }
+    case "empirical":
+      return sampleEmpirical(dist.bins, rand, mean);
+  }
+}
+
+// Each trial draws one value per field — uncertainty about the class-wide
+// average, which is what a budget range has to cover. Simulated cache writes
+// belong to the current class size, so a resized trial assumes entries stay warm.
+export function samplePreset(
+  input: SimulationInput,
+  distributions: PresetDistributions,
+  rand: RandomSource
+): SimulationInput {
+  const sampled: Partial<TemplatePreset> = {};
+  for (const [key, dist] of Object.entries(distributions) as [SensitivityParamKey, FieldDistribution][]) {
+    const value = sampleField(dist, input[key], rand);
+    sampled[key] = INTEGER_FIELDS.includes(key) ? Math.max(1, Math.round(value)) : Math.round(value);
+  }
+  const resized = sampled.students !== undefined || sampled.reqsPerStudent !== undefined;
+  return { ...input, ...sampled, cacheWrites: resized ? null : input.cacheWrites };
+}
+
+// ---------------------------------------------------------------------------
+// Statistics
+// ---------------------------------------------------------------------------
+
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+export function buildHistogram(sorted: number[], binCount = 24): HistogramBin[] {
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / binCount || 1;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    x0: min + i * width,
+    x1: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const v of sorted) {
+    bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++;
+  }
+  return bins;
+}
+
+// ---------------------------------------------------------------------------
+// Simulation
+// ---------------------------------------------------------------------------
+
+export function runMonteCarlo(
+  input: SimulationInput,
+  distributions: PresetDistributions,
+  strategies: Strategy[],
+  trials: number = DEFAULT_MONTE_CARLO_TRIALS,
+  seed: number = DEFAULT_SEED
+): StrategyDistribution[] {
+  const rand = createRandom(seed);
+  const totals = strategies.map(() => [] as number[]);
+
+  for (let t = 0; t < trials; t++) {
+    const trialInput = samplePreset(input, distributions, rand);
+    strategies.forEach((s, i) => totals[i].push(computeStrategyCost(s, trialInput).total));
+  }
+
+  return strategies.map((strategy, i) => {
+    const sorted = totals[i].sort((a, b) => a - b);
+    return {
+      strategy,
+      totals: sorted,
+      mean: sorted.reduce((sum, v) => sum + v, 0) / (sorted.length || 1),
+      p10: percentile(sorted, 0.1),
+      p50: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+    };
+  });
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect, useMemo } from "react";
+import {
+  Card, CardHeader, CardTitle, CardDescription, CardContent,
+} from "./ui/card";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Table, TableHeader, TableBody, TableHead, TableRow, TableCell,
+} from "./ui/table";
+import type { BedrockModel } from "./pricing-data";
+import type { ArrivalTimeline } from "./cache-timeline";
+import {
+  formatCost, formatDuration,
+  type PricingTier, type ScenarioSettings, type SimulationInput, type StrategyContext, type StrategyResult,
+} from "./simulator-engine";
+import {
+  optimizeConfigurations, bestPerModel,
+  type OptimizerCandidate, type OptimizerConstraints,
+} from "./optimizer";
+
+interface OptimizerPanelProps {
+  input: SimulationInput;
+  context: StrategyContext;
+  models: BedrockModel[];
+  placement: Pick<ScenarioSettings, "regionId" | "profile">;
+  arrivals: ArrivalTimeline | null;
+  // Cheapest strategy of the configuration the simulator shows now.
+  current: StrategyResult;
+  onApply: (candidate: OptimizerCandidate) => void;
+}
+
+const TIER_LABELS: Record<PricingTier, string> = {
+  standard: "Standard",
+  priority: "Priority",
+  flex: "Flex",
+};
+
+const MAX_ROWS = 15;
+
+function formatTurn(candidate: OptimizerCandidate): string {
+  const { latency } = candidate;
+  if (latency.mode === "async") return "Async";
+  if (latency.mode === "realtime") return "Real time";
+  return formatDuration(latency.turnSeconds ?? 0);
+}
+
+export function OptimizerPanel({ input, context, models, placement, arrivals, current, onApply }: OptimizerPanelProps) {
+  const usesImages = input.vision.perRequest > 0 || input.vision.shared > 0;
+  const usesThinking = input.reasoningTokens > 0;
+  const [requireVision, setRequireVision] = useState(usesImages);
+  const [requireThinking, setRequireThinking] = useState(usesThinking);
+  // Follow the workload when it starts or stops using images or thinking.
+  useEffect(() => { setRequireVision(usesImages); }, [usesImages]);
+  useEffect(() => { setRequireThinking(usesThinking); }, [usesThinking]);
+  const [maxTurnSeconds, setMaxTurnSeconds] = useState<number | null>(null);
+  const [onePerModel, setOnePerModel] = useState(true);
+
+  const constraints = useMemo(
+    (): OptimizerConstraints => ({ requireVision, requireThinking, maxTurnSeconds }),
+    [requireVision, requireThinking, maxTurnSeconds]
+  );
+
+  const candidates = useMemo(
+    () => optimizeConfigurations(input, context, models, placement, arrivals, constraints, current.breakdown.total),
+    [input, context, models, placement, arrivals, constraints, current]
+  );
+  const ranked = (onePerModel ? bestPerModel(candidates) : candidates).slice(0, MAX_ROWS);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Configuration Optimizer</CardTitle>
+        <CardDescription className="text-sm">
+          Searches every model, strategy, pricing tier, cache TTL and summarization setting for the cheapest way to run this workload
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox id="opt-vision" checked={requireVision} onCheckedChange={(c) => setRequireVision(c === true)} />
+              <Label htmlFor="opt-vision" className="cursor-pointer text-xs">Must support vision</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="opt-thinking" checked={requireThinking} onCheckedChange={(c) => setRequireThinking(c === true)} />
+              <Label htmlFor="opt-thinking" className="cursor-pointer text-xs">Must support extended thinking</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="opt-per-model" checked={onePerModel} onCheckedChange={(c) => setOnePerModel(c === true)} />
+              <Label htmlFor="opt-per-model" className="cursor-pointer text-xs">Best configuration per model only</Label>
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Max seconds per turn (blank for any, including batch)</Label>
+            <Input
+              type="number"
+              min={0}
+              step={0.5}
+              value={maxTurnSeconds ?? ""}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                setMaxTurnSeconds(Number.isFinite(value) && value > 0 ? value : null);
+              }}
+              className="h-8 text-xs"
+            />
+          </div>
+        </div>
+
+        <p className="text-muted-foreground text-xs">
+          Current setup: {input.model.name}, {current.strategy.label} at <strong>{formatCost(current.breakdown.total)}</strong>.{" "}
+          {candidates.length.toLocaleString()} configurations meet the constraints.
+        </p>
+
+        {ranked.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No configuration meets these constraints. Relax the latency limit or the model requirements.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Model</TableHead>
+                <TableHead>Strategy</TableHead>
+                <TableHead>Tier</TableHead>
+                <TableHead>Cache TTL</TableHead>
+                <TableHead className="text-right">Summary</TableHead>
+                <TableHead className="text-right">Per turn</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Savings</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ranked.map((c, i) => (
+                <TableRow key={`${c.model.id}:${c.strategy.key}:${c.tier}:${c.cacheTTL}:${c.summarySize}`}>
+                  <TableCell className="text-muted-foreground">{i + 1}</TableCell>
+                  <TableCell className="font-medium">{c.model.name}</TableCell>
+                  <TableCell>{c.strategy.label}</TableCell>
+                  <TableCell>{TIER_LABELS[c.tier]}</TableCell>
+                  <TableCell>{c.cacheTTL === null ? "—" : c.cacheTTL === "1hour" ? "1 hour" : "5 min"}</TableCell>
+                  <TableCell className="text-right">{c.summarySize === null ? "Off" : `${c.summarySize.toLocaleString()} tok`}</TableCell>
+                  <TableCell className="text-right">{formatTurn(c)}</TableCell>
+                  <TableCell className="text-right">{formatCost(c.breakdown.total)}</TableCell>
+                  <TableCell className={`text-right ${c.savings > 0 ? "text-emerald-600" : c.savings < 0 ? "text-red-600" : ""}`}>
+                    {c.savings >= 0 ? "" : "+"}{formatCost(Math.abs(c.savings))} ({Math.abs(c.savingsPct).toFixed(0)}%)
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onApply(c)}>
+                      Apply
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <p className="text-muted-foreground text-[11px]">
+          Region and inference profile stay as selected. Applying a row switches the simulator to its model, tier, cache TTL and
+          summarization setting; the strategy itself is compared on the results cards.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+import type { BedrockModel } from "./pricing-data";
+import { simulateCacheWrites, type ArrivalTimeline } from "./cache-timeline";
+import {
+  buildModelScenario, computeStrategyCost, estimateLatency, getStrategies,
+  type CacheTTL, type CostBreakdown, type PricingTier, type ScenarioSettings,
+  type SimulationInput, type Strategy, type StrategyContext, type StrategyGroup, type StrategyLatency,
+} from "./simulator-engine";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface OptimizerConstraints {
+  requireVision: boolean;
+  requireThinking: boolean;
+  // Longest acceptable wait per turn; null also accepts asynchronous batch jobs.
+  maxTurnSeconds: number | null;
+}
+
+export interface OptimizerCandidate {
+  model: BedrockModel;
+  strategy: Strategy;
+  tier: PricingTier;
+  // Null for strategies that write no cache.
+  cacheTTL: CacheTTL | null;
+  // Summary size in tokens; null runs without summarization.
+  summarySize: number | null;
+  breakdown: CostBreakdown;
+  latency: StrategyLatency;
+  // Relative to the current setup; negative when the candidate costs more.
+  savings: number;
+  savingsPct: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const PRICING_TIERS: PricingTier[] = ["standard", "priority", "flex"];
+export const CACHE_TTLS: CacheTTL[] = ["5min", "1hour"];
+
+// Summary sizes tried, as shares of the chat history cap.
+export const SUMMARY_SIZE_FRACTIONS = [0.1, 0.25, 0.5];
+
+// ---------------------------------------------------------------------------
+// Search space
+// ---------------------------------------------------------------------------
+
+// Null runs the standard strategies; each size runs the summarization ones.
+// Sizes follow the Summary Size slider: 100 tokens up to 75% of the cap.
+export function getSummarySizeCandidates(input: SimulationInput): (number | null)[] {
+  if (!input.conversational) return [null];
+  const max = Math.max(100, Math.round(input.instTokens * 0.75));
+  const sizes = [...SUMMARY_SIZE_FRACTIONS.map((f) => Math.round((input.instTokens * f) / 50) * 50), input.summarySize]
+    .map((size) => Math.min(max, Math.max(100, size)));
+  return [null, ...[...new Set(sizes)].sort((a, b) => a - b)];
+}
+
+function meetsModelConstraints(model: BedrockModel, constraints: OptimizerConstraints): boolean {
+  return (!constraints.requireVision || model.constraints.supports_vision)
+    && (!constraints.requireThinking || model.constraints.supports_extended_thinking);
+}
+
+function meetsLatency(latency: StrategyLatency, maxTurnSeconds: number | null): boolean {
+  if (maxTurnSeconds === null || latency.mode === "realtime") return true;
+  return latency.turnSeconds !== null && latency.turnSeconds <= maxTurnSeconds;
+}
+
+// ---------------------------------------------------------------------------
+// Optimizer
+// ---------------------------------------------------------------------------
+
+// Every model × tier × strategy × cache TTL × summary size the workload can
+// run as, cheapest first. Region and inference profile stay as selected, and
+// an expiry simulation is replayed under each TTL.
+export function optimizeConfigurations(
+  input: SimulationInput,
+  context: StrategyContext,
+  models: BedrockModel[],
+  placement: Pick<ScenarioSettings, "regionId" | "profile">,
+  arrivals: ArrivalTimeline | null,
+  constraints: OptimizerConstraints,
+  currentTotal: number
+): OptimizerCandidate[] {
+  const candidates: OptimizerCandidate[] = [];
+  const summarySizes = getSummarySizeCandidates(input);
+  // Write counts depend only on the TTL, so each is simulated once.
+  const writesByTtl = new Map(CACHE_TTLS.map((ttl) => [ttl, arrivals ? simulateCacheWrites(arrivals, ttl) : null]));
+
+  for (const model of models.filter((m) => meetsModelConstraints(m, constraints))) {
+    for (const requestedTier of PRICING_TIERS) {
+      if (!model.constraints.supported_tiers.includes(requestedTier)) continue;
+      const ttls = model.constraints.supports_1hour_cache ? CACHE_TTLS : CACHE_TTLS.slice(0, 1);
+
+      for (const summarySize of summarySizes) {
+        const group: StrategyGroup = summarySize === null ? "standard" : "summarization";
+        const base = buildModelScenario(
+          { ...input, summarySize: summarySize ?? input.summarySize },
+          context,
+          model,
+          { ...placement, tier: requestedTier, cacheTTL: "5min", batchEnabled: true }
+        );
+
+        for (const strategy of getStrategies(group, base.context)) {
+          const strategyTtls: (CacheTTL | null)[] = strategy.kind === "cache" ? ttls : [null];
+          for (const cacheTTL of strategyTtls) {
+            const ttl = cacheTTL ?? "5min";
+            const scenarioInput: SimulationInput = {
+              ...base.input,
+              cacheTTL: ttl,
+              cacheWrites: writesByTtl.get(ttl) ?? null,
+            };
+            const breakdown = computeStrategyCost(strategy, scenarioInput);
+            const latency = estimateLatency(strategy, scenarioInput, breakdown);
+            if (!meetsLatency(latency, constraints.maxTurnSeconds)) continue;
+            const savings = currentTotal - breakdown.total;
+            candidates.push({
+              model: scenarioInput.model,
+              strategy,
+              tier: base.tier,
+              cacheTTL,
+              summarySize,
+              breakdown,
+              latency,
+              savings,
+              savingsPct: currentTotal > 0 ? (savings / currentTotal) * 100 : 0,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return candidates.sort(
+    (a, b) => a.breakdown.total - b.breakdown.total || a.strategy.tiebreak - b.strategy.tiebreak
+  );
+}
+
+// Keeps each model's cheapest configuration, preserving the ranking.
+export function bestPerModel(candidates: OptimizerCandidate[]): OptimizerCandidate[] {
+  const seen = new Set<string>();
+  return candidates.filter((c) => {
+    if (seen.has(c.model.id)) return false;
+    seen.add(c.model.id);
+    return true;
+  });
+}
@@ -1,3 +1,5 @@
+export type InferenceProfile = "in-region" | "geo" | "global";
+
 export interface ModelPricing {
   input_1k: number;
   output_1k: number;
@@ -8,13 +10,56 @@ export interface ModelPricing {
   batch_output_1k: number | null;
 }
 
+// Hourly price per model unit for each commitment term, and what one unit can process.
+export interface ProvisionedThroughputPricing {
+  no_commit_hourly: number;
+  one_month_hourly: number;
+  six_month_hourly: number;
+  input_tokens_per_minute: number;
+  output_tokens_per_minute: number;
+}
+
+// Images are scaled down to fit max_long_edge and max_pixels, then billed at
+// one input token per pixels_per_token. PDF pages add their extracted text.
+export interface VisionTokenFormula {
+  pixels_per_token: number;
+  max_long_edge: number;
+  max_pixels: number;
+  pdf_page_text_tokens: number;
+}
+
 export interface ModelConstraints {
   min_cache_ttl_seconds: number | null;
   supports_batch: boolean;
   supports_vision: boolean;
+  supports_extended_thinking: boolean;
   supports_caching: boolean;
   supports_1hour_cache: boolean;
   supported_tiers: string[];
+  supported_inference_profiles: InferenceProfile[];
+  // Quota tokens charged per output token (Claude 3.7 and later reserve 5×).
+  output_token_burndown: number;
+  // Default on-demand quotas per account and region, by inference profile.
+  default_quotas: Partial<Record<InferenceProfile, RateQuota>>;
+}
+
+export interface RateQuota {
+  requests_per_minute: number;
+  tokens_per_minute: number;
+}
+
+// Replaces the listed prices when the request is served from `region` and/or
+// through `profile`. Omitted keys match any region or profile.
+export interface PriceOverride {
+  region?: string;
+  profile?: InferenceProfile;
+  pricing: Partial<ModelPricing>;
+}
+
+export interface BedrockRegion {
+  id: string;
+  name: string;
+  geography: string;
 }
 
 export interface BedrockModel {
@@ -22,18 +67,130 @@ export interface BedrockModel {
   name: string;
   provider: string;
   pricing: ModelPricing;
+  provisioned_throughput: ProvisionedThroughputPricing | null;
+  vision_token_formula: VisionTokenFormula | null;
+  price_overrides: PriceOverride[];
+  performance: ModelPerformance;
   constraints: ModelConstraints;
 }
 
+// Typical on-demand speed at a short prompt; real figures vary with load and region.
+export interface ModelPerformance {
+  output_tokens_per_second: number;
+  time_to_first_token_ms: number;
+}
+
+// Text embedding models used to index and query a Knowledge Base. Billed on
+// input tokens only.
+export interface EmbeddingModel {
+  id: string;
+  name: string;
+  provider: string;
+  pricing: {
+    input_1k: number;
+    batch_input_1k: number | null;
+  };
+  max_input_tokens: number;
+  dimensions: number[];
+}
+
+export type ImageQuality = "standard" | "premium";
+
+// Image generation is billed per image, by the largest resolution the image
+// fits within and the quality setting.
+export interface ImagePrice {
+  max_resolution: string;
+  quality: ImageQuality;
+  per_image: number;
+}
+
+export interface ImageGenerationModel {
+  id: string;
+  name: string;
+  provider: string;
+  pricing: ImagePrice[];
+}
+
+// Video generation is billed per second of generated video.
+export interface VideoPrice {
+  resolution: string;
+  fps: number;
+  per_second: number;
+}
+
+export interface VideoGenerationModel {
+  id: string;
+  name: string;
+  provider: string;
+  pricing: VideoPrice[];
+  max_duration_seconds: number;
+}
+
+// Speech-to-speech models bill audio and text tokens separately. Audio token
+// counts are estimated from session length.
+export interface SpeechPricing {
+  speech_input_1k: number;
+  speech_output_1k: number;
+  text_input_1k: number;
+  text_output_1k: number;
+}
+
+export interface SpeechModel {
+  id: string;
+  name: string;
+  provider: string;
+  pricing: SpeechPricing;
+  speech_tokens_per_minute: number;
+  // A streaming session is closed after this long and must be reopened with its context.
+  max_session_minutes: number;
+}
+
+// Guardrails bill each policy separately per 1,000 text units (1,000
+// characters each). Word filters and regex patterns are free.
+export type GuardrailPolicy =
+  | "content_filter"
+  | "denied_topics"
+  | "sensitive_info"
+  | "contextual_grounding"
+  | "automated_reasoning";
+
+export type GuardrailRates = Record<GuardrailPolicy, number>;
+
 export interface PricingData {
   metadata: {
     last_updated: string;
     currency: string;
     source?: string;
+    guardrails_1k_units: GuardrailRates;
   };
+  regions: BedrockRegion[];
   models: BedrockModel[];
+  embedding_models: EmbeddingModel[];
+  image_models: ImageGenerationModel[];
+  video_models: VideoGenerationModel[];
+  speech_models: SpeechModel[];
 }
 
+export const INFERENCE_PROFILES: Record<InferenceProfile, { label: string; description: string }> = {
+  "in-region": {
+    label: "In-region",
+    description: "Requests are served only in the selected region",
+  },
+  geo: {
+    label: "Geographic cross-region",
+    description: "Requests may route to other regions in the same geography",
+  },
+  global: {
+    label: "Global cross-region",
+    description: "Requests may route to any commercial region",
+  },
+};
+
+export const DEFAULT_REGION = "us-east-1";
+export const DEFAULT_INFERENCE_PROFILE: InferenceProfile = "global";
+export const DEFAULT_EMBEDDING_MODEL = "amazon.titan-embed-text-v2:0";
+export const DEFAULT_SPEECH_MODEL = "amazon.nova-sonic-v1:0";
+
 let cachedData: PricingData | null = null;
 
 export async function fetchPricingData(): Promise<PricingData> {
@@ -48,3 +205,36 @@ export function getPricingData(): PricingData {
   if (!cachedData) throw new Error("Pricing data not loaded. Call fetchPricingData() first.");
   return cachedData;
 }
+
+// ---------------------------------------------------------------------------
+// Region and inference profile resolution
+// ---------------------------------------------------------------------------
+
+// Falls back to the model's first supported profile when the requested one is not offered.
+export function getEffectiveProfile(model: BedrockModel, profile: InferenceProfile): InferenceProfile {
+  const supported = model.constraints.supported_inference_profiles;
+  return supported.includes(profile) ? profile : supported[0] ?? profile;
+}
+
+// Model with its prices resolved for a region and inference profile. Overrides
+// apply from least to most specific, so a region+profile entry wins over either alone.
+export function resolveModelPricing(model: BedrockModel, region: string, profile: InferenceProfile): BedrockModel {
+  const effectiveProfile = getEffectiveProfile(model, profile);
+  const specificity = (o: PriceOverride) => (o.region ? 2 : 0) + (o.profile ? 1 : 0);
+  const matching = model.price_overrides
+    .filter((o) => (!o.region || o.region === region) && (!o.profile || o.profile === effectiveProfile))
+    .sort((a, b) => specificity(a) - specificity(b));
+  if (matching.length === 0) return model;
+  return {
+    ...model,
+    pricing: matching.reduce((pricing, o) => ({ ...pricing, ...o.pricing }), model.pricing),
+  };
+}
+
+// The model ID to invoke: cross-region profiles prefix the geography or "global".
+export function getInferenceProfileId(model: BedrockModel, region: BedrockRegion | undefined, profile: InferenceProfile): string {
+  const effectiveProfile = getEffectiveProfile(model, profile);
+  if (effectiveProfile === "global") return `global.${model.id}`;
+  if (effectiveProfile === "geo" && region) return `${region.geography}.${model.id}`;
+  return model.id;
+}
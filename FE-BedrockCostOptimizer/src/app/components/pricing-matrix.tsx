@@ -11,13 +11,29 @@ import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from "./ui/select";
 import { Button } from "./ui/button";
-import { getPricingData, type BedrockModel } from "./pricing-data";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "./ui/tabs";
+import {
+  getPricingData, resolveModelPricing, getEffectiveProfile,
+  INFERENCE_PROFILES, DEFAULT_REGION, DEFAULT_INFERENCE_PROFILE,
+  type InferenceProfile, type EmbeddingModel, type ImageGenerationModel, type VideoGenerationModel, type SpeechModel,
+} from "./pricing-data";
 import { Search, ArrowUpDown, Filter, Zap } from "lucide-react";
 
 type UnitMode = "1k" | "1m";
+type Modality = "text" | "embedding" | "image" | "video" | "speech";
 type SortField = "name" | "input" | "output" | "cache_write" | "cache_write_1hour" | "cache_read" | "batch_input";
 type SortDir = "asc" | "desc";
 
+const MODALITIES: Record<Modality, string> = {
+  text: "Text Generation",
+  embedding: "Embeddings",
+  image: "Image Generation",
+  video: "Video Generation",
+  speech: "Speech-to-Speech",
+};
+
+const CHEAPEST_CELL = "bg-green-100 dark:bg-green-900/30 font-semibold";
+
 const providerColors: Record<string, string> = {
   Anthropic: "bg-primary text-primary-foreground",
   Amazon: "bg-secondary text-secondary-foreground",
@@ -32,15 +48,30 @@ function formatPrice(price: number | null, unit: UnitMode): string {
   return `$${value.toFixed(3)}`;
 }
 
-function findMinInColumn(
-  models: BedrockModel[],
-  getter: (m: BedrockModel) => number | null
+function findMinInColumn<T>(
+  models: T[],
+  getter: (m: T) => number | null
 ): number | null {
   const values = models.map(getter).filter((v): v is number => v !== null);
   if (values.length === 0) return null;
   return Math.min(...values);
 }
 
+function matchesSearch(model: { id: string; name: string; provider: string }, query: string): boolean {
+  const q = query.toLowerCase();
+  return (
+    model.name.toLowerCase().includes(q) ||
+    model.provider.toLowerCase().includes(q) ||
+    model.id.toLowerCase().includes(q)
+  );
+}
+
+// Nulls sort last in either direction.
+function compareNullable(a: number | null, b: number | null, dir: SortDir): number {
+  if (a === null || b === null) return (a === null ? 1 : 0) - (b === null ? 1 : 0);
+  return dir === "asc" ? a - b : b - a;
+}
+
 export function PricingMatrix() {
   const pricingData = getPricingData();
 
@@ -48,25 +79,38 @@ export function PricingMatrix() {
   const [searchQuery, setSearchQuery] = useState("");
   const [showCachingOnly, setShowCachingOnly] = useState(false);
   const [providerFilter, setProviderFilter] = useState<string>("all");
+  const [regionId, setRegionId] = useState(DEFAULT_REGION);
+  const [inferenceProfile, setInferenceProfile] = useState<InferenceProfile>(DEFAULT_INFERENCE_PROFILE);
   const [sortField, setSortField] = useState<SortField>("name");
   const [sortDir, setSortDir] = useState<SortDir>("asc");
+  const [modality, setModality] = useState<Modality>("text");
+
+  const providers = useMemo(() => {
+    const models = {
+      text: pricingData.models,
+      embedding: pricingData.embedding_models,
+      image: pricingData.image_models,
+      video: pricingData.video_models,
+      speech: pricingData.speech_models,
+    }[modality];
+    return Array.from(new Set(models.map((m: { provider: string }) => m.provider)));
+  }, [pricingData, modality]);
+
+  const filterModels = <T extends { id: string; name: string; provider: string }>(models: T[]): T[] =>
+    models.filter(
+      (m) => (!searchQuery || matchesSearch(m, searchQuery)) && (providerFilter === "all" || m.provider === providerFilter)
+    );
 
-  const providers = useMemo(
-    () => Array.from(new Set(pricingData.models.map((m) => m.provider))),
-    [pricingData]
+  const resolvedModels = useMemo(
+    () => pricingData.models.map((m) => resolveModelPricing(m, regionId, inferenceProfile)),
+    [pricingData, regionId, inferenceProfile]
   );
 
   const filteredModels = useMemo(() => {
-    let models = [...pricingData.models];
+    let models = [...resolvedModels];
 
     if (searchQuery) {
-      const q = searchQuery.toLowerCase();
-      models = models.filter(
-        (m) =>
-          m.name.toLowerCase().includes(q) ||
-          m.provider.toLowerCase().includes(q) ||
-          m.id.toLowerCase().includes(q)
-      );
+      models = models.filter((m) => matchesSearch(m, searchQuery));
     }
 
     if (showCachingOnly) {
@@ -106,7 +150,7 @@ export function PricingMatrix() {
     });
 
     return models;
-  }, [pricingData, searchQuery, showCachingOnly, providerFilter, sortField, sortDir]);
+  }, [resolvedModels, searchQuery, showCachingOnly, providerFilter, sortField, sortDir]);
 
   const mins = useMemo(
     () => ({
@@ -160,254 +204,721 @@ export function PricingMatrix() {
         </p>
       </div>
 
-      <Card>
-        <CardContent className="pt-6">
-          <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-end">
-            <div className="flex-1 min-w-0 w-full lg:w-auto">
-              <Label htmlFor="search" className="mb-1.5">Search Models</Label>
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  id="search"
-                  placeholder="Search by name, provider, or ID..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
-            </div>
+      <Tabs
+        value={modality}
+        onValueChange={(v) => {
+          setModality(v as Modality);
+          setProviderFilter("all");
+        }}
+        className="gap-6"
+      >
+        <TabsList className="w-full sm:w-fit">
+          {(Object.keys(MODALITIES) as Modality[]).map((m) => (
+            <TabsTrigger key={m} value={m} className="text-xs sm:text-sm">{MODALITIES[m]}</TabsTrigger>
+          ))}
+        </TabsList>
 
-            <div className="w-full lg:w-48">
-              <Label className="mb-1.5">Provider</Label>
-              <Select value={providerFilter} onValueChange={setProviderFilter}>
-                <SelectTrigger>
-                  <SelectValue placeholder="All Providers" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Providers</SelectItem>
-                  {providers.map((p) => (
-                    <SelectItem key={p} value={p}>{p}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-end">
+              <div className="flex-1 min-w-0 w-full lg:w-auto">
+                <Label htmlFor="search" className="mb-1.5">Search Models</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="search"
+                    placeholder="Search by name, provider, or ID..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+              </div>
 
-            <div className="w-full lg:w-auto">
-              <Label className="mb-1.5">Unit</Label>
-              <div className="flex rounded-lg border border-border overflow-hidden">
-                <Button
-                  variant={unit === "1k" ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => setUnit("1k")}
-                  className="rounded-none text-xs"
-                >
-                  Per 1K
-                </Button>
-                <Button
-                  variant={unit === "1m" ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => setUnit("1m")}
-                  className="rounded-none text-xs"
-                >
-                  Per 1M
-                </Button>
+              <div className="w-full lg:w-48">
+                <Label className="mb-1.5">Provider</Label>
+                <Select value={providerFilter} onValueChange={setProviderFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All Providers" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Providers</SelectItem>
+                    {providers.map((p) => (
+                      <SelectItem key={p} value={p}>{p}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-            </div>
 
-            <div className="flex items-center gap-2 pb-0.5">
-              <Switch
-                id="cache-filter"
-                checked={showCachingOnly}
-                onCheckedChange={setShowCachingOnly}
-              />
-              <Label htmlFor="cache-filter" className="whitespace-nowrap cursor-pointer">
-                <Filter className="w-3.5 h-3.5 inline mr-1" />
-                Caching Only
-              </Label>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+              {modality === "text" && (
+                <>
+                  <div className="w-full lg:w-48">
+                    <Label className="mb-1.5">Region</Label>
+                    <Select value={regionId} onValueChange={setRegionId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {pricingData.regions.map((r) => (
+                          <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
 
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        <Card>
-          <CardContent className="pt-4 pb-4">
-            <p className="text-muted-foreground text-xs font-medium">Total Models</p>
-            <p className="text-foreground mt-1 text-xl font-medium">{filteredModels.length}</p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="pt-4 pb-4">
-            <p className="text-muted-foreground text-xs font-medium">Caching Support</p>
-            <p className="text-foreground mt-1 text-xl font-medium">
-              {filteredModels.filter((m) => m.constraints.supports_caching).length}
-            </p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="pt-4 pb-4">
-            <p className="text-muted-foreground text-xs font-medium">Cheapest Input</p>
-            <p className="text-foreground mt-1 text-xl font-medium">
-              {mins.input !== null ? formatPrice(mins.input, unit) : "\u2014"}
-            </p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="pt-4 pb-4">
-            <p className="text-muted-foreground text-xs font-medium">Providers</p>
-            <p className="text-foreground mt-1 text-xl font-medium">
-              {new Set(filteredModels.map((m) => m.provider)).size}
-            </p>
+                  <div className="w-full lg:w-52">
+                    <Label className="mb-1.5">Inference Profile</Label>
+                    <Select value={inferenceProfile} onValueChange={(v) => setInferenceProfile(v as InferenceProfile)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(INFERENCE_PROFILES) as InferenceProfile[]).map((profile) => (
+                          <SelectItem key={profile} value={profile}>{INFERENCE_PROFILES[profile].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+
+              {(modality === "text" || modality === "embedding" || modality === "speech") && (
+                <div className="w-full lg:w-auto">
+                  <Label className="mb-1.5">Unit</Label>
+                  <div className="flex rounded-lg border border-border overflow-hidden">
+                    <Button
+                      variant={unit === "1k" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => setUnit("1k")}
+                      className="rounded-none text-xs"
+                    >
+                      Per 1K
+                    </Button>
+                    <Button
+                      variant={unit === "1m" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => setUnit("1m")}
+                      className="rounded-none text-xs"
+                    >
+                      Per 1M
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {modality === "text" && (
+                <div className="flex items-center gap-2 pb-0.5">
+                  <Switch
+                    id="cache-filter"
+                    checked={showCachingOnly}
+                    onCheckedChange={setShowCachingOnly}
+                  />
+                  <Label htmlFor="cache-filter" className="whitespace-nowrap cursor-pointer">
+                    <Filter className="w-3.5 h-3.5 inline mr-1" />
+                    Caching Only
+                  </Label>
+                </div>
+              )}
+            </div>
           </CardContent>
         </Card>
+
+        <TabsContent value="text" className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-4 pb-4">
+                <p className="text-muted-foreground text-xs font-medium">Total Models</p>
+                <p className="text-foreground mt-1 text-xl font-medium">{filteredModels.length}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-4 pb-4">
+                <p className="text-muted-foreground text-xs font-medium">Caching Support</p>
+                <p className="text-foreground mt-1 text-xl font-medium">
+                  {filteredModels.filter((m) => m.constraints.supports_caching).length}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-4 pb-4">
+                <p className="text-muted-foreground text-xs font-medium">Cheapest Input</p>
+                <p className="text-foreground mt-1 text-xl font-medium">
+                  {mins.input !== null ? formatPrice(mins.input, unit) : "\u2014"}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-4 pb-4">
+                <p className="text-muted-foreground text-xs font-medium">Providers</p>
+                <p className="text-foreground mt-1 text-xl font-medium">
+                  {new Set(filteredModels.map((m) => m.provider)).size}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                Model Pricing ({unit === "1k" ? "Per 1K Tokens" : "Per 1M Tokens"})
+              </CardTitle>
+              <CardDescription className="text-sm">
+                {filteredModels.length} model{filteredModels.length !== 1 ? "s" : ""} shown
+                {showCachingOnly && " \u00B7 Filtered to caching-capable models"}
+                {" \u00B7 "}{INFERENCE_PROFILES[inferenceProfile].label} from {pricingData.regions.find((r) => r.id === regionId)?.name ?? regionId}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[200px]">
+                      <SortableHeader field="name">Model</SortableHeader>
+                    </TableHead>
+                    <TableHead className="text-right">
+                      <SortableHeader field="input">Input</SortableHeader>
+                    </TableHead>
+                    <TableHead className="text-right">
+                      <SortableHeader field="output">Output</SortableHeader>
+                    </TableHead>
+                    <TableHead className="text-right">
+                      <SortableHeader field="cache_write">Cache Write (5 min)</SortableHeader>
+                    </TableHead>
+                    <TableHead className="text-right">
+                      <SortableHeader field="cache_write_1hour">Cache Write (1 hr)</SortableHeader>
+                    </TableHead>
+                    <TableHead className="text-right">
+                      <SortableHeader field="cache_read">Cache Read</SortableHeader>
+                    </TableHead>
+                    <TableHead className="text-right">
+                      <SortableHeader field="batch_input">Batch In</SortableHeader>
+                    </TableHead>
+                    <TableHead className="text-right text-xs font-semibold">Batch Out</TableHead>
+                    <TableHead className="text-center text-xs font-semibold">Features</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredModels.map((model) => (
+                    <TableRow key={model.id}>
+                      <TableCell>
+                        <div className="flex flex-col gap-1">
+                          <span className="text-sm font-medium">{model.name}</span>
+                          {getEffectiveProfile(model, inferenceProfile) !== inferenceProfile && (
+                            <span className="text-muted-foreground text-[10px]">
+                              {INFERENCE_PROFILES[getEffectiveProfile(model, inferenceProfile)].label} only
+                            </span>
+                          )}
+                          <Badge
+                            variant="outline"
+                            className={`${providerColors[model.provider] || "bg-muted text-foreground"} border-none`}
+                          >
+                            {model.provider}
+                          </Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell
+                        className={`text-right text-sm ${
+                          isMin(model.pricing.input_1k, mins.input)
+                            ? CHEAPEST_CELL
+                            : ""
+                        }`}
+                      >
+                        {formatPrice(model.pricing.input_1k, unit)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right text-sm ${
+                          isMin(model.pricing.output_1k, mins.output)
+                            ? CHEAPEST_CELL
+                            : ""
+                        }`}
+                      >
+                        {formatPrice(model.pricing.output_1k, unit)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right text-sm ${
+                          isMin(model.pricing.cache_write_1k, mins.cache_write)
+                            ? CHEAPEST_CELL
+                            : ""
+                        }`}
+                      >
+                        {formatPrice(model.pricing.cache_write_1k, unit)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right text-sm ${
+                          isMin(model.pricing.cache_write_1hour_1k, mins.cache_write_1hour)
+                            ? CHEAPEST_CELL
+                            : ""
+                        }`}
+                      >
+                        {formatPrice(model.pricing.cache_write_1hour_1k, unit)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right text-sm ${
+                          isMin(model.pricing.cache_read_1k, mins.cache_read)
+                            ? CHEAPEST_CELL
+                            : ""
+                        }`}
+                      >
+                        {formatPrice(model.pricing.cache_read_1k, unit)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right text-sm ${
+                          isMin(model.pricing.batch_input_1k, mins.batch_input)
+                            ? CHEAPEST_CELL
+                            : ""
+                        }`}
+                      >
+                        {formatPrice(model.pricing.batch_input_1k, unit)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right text-sm ${
+                          isMin(model.pricing.batch_output_1k, mins.batch_output)
+                            ? CHEAPEST_CELL
+                            : ""
+                        }`}
+                      >
+                        {formatPrice(model.pricing.batch_output_1k, unit)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-center gap-1 flex-wrap">
+                          {model.constraints.supports_caching && (
+                            <Badge variant="outline" className="border-primary text-primary text-xs">
+                              <Zap className="w-3 h-3 mr-0.5" />
+                              Cache
+                            </Badge>
+                          )}
+                          {model.constraints.supports_vision && (
+                            <Badge variant="outline" className="border-secondary text-secondary text-xs">
+                              Vision
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {filteredModels.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center py-12">
+                        <p className="text-muted-foreground text-sm">
+                          No models match your filters. Try adjusting your search criteria.
+                        </p>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="embedding">
+          <EmbeddingPricingTable models={filterModels(pricingData.embedding_models)} unit={unit} />
+        </TabsContent>
+        <TabsContent value="image">
+          <ImagePricingTable models={filterModels(pricingData.image_models)} />
+        </TabsContent>
+        <TabsContent value="video">
+          <VideoPricingTable models={filterModels(pricingData.video_models)} />
+        </TabsContent>
+        <TabsContent value="speech">
+          <SpeechPricingTable models={filterModels(pricingData.speech_models)} unit={unit} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function useColumnSort<F extends string>(initial: F) {
+  const [field, setField] = useState<F>(initial);
+  const [dir, setDir] = useState<SortDir>("asc");
+  const toggle = (next: F) => {
+    if (field === next) {
+      setDir((d) => (d === "asc" ? "desc" : "asc"));
+    } else {
+      setField(next);
+      setDir("asc");
+    }
+  };
+  return { field, dir, toggle };
+}
+
+function SortButton({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="ml-auto flex items-center gap-1 text-xs font-semibold hover:text-primary transition-colors cursor-pointer"
+    >
+      {children}
+      <ArrowUpDown className={`w-3 h-3 ${active ? "text-primary" : "text-muted-foreground"}`} />
+    </button>
+  );
+}
+
+function ModelNameCell({ name, provider }: { name: string; provider: string }) {
+  return (
+    <TableCell>
+      <div className="flex flex-col gap-1">
+        <span className="text-sm font-medium">{name}</span>
+        <Badge
+          variant="outline"
+          className={`${providerColors[provider] || "bg-muted text-foreground"} border-none`}
+        >
+          {provider}
+        </Badge>
       </div>
+    </TableCell>
+  );
+}
 
-      <Card>
-        <CardHeader>
-          <CardTitle>
-            Model Pricing ({unit === "1k" ? "Per 1K Tokens" : "Per 1M Tokens"})
-          </CardTitle>
-          <CardDescription className="text-sm">
-            {filteredModels.length} model{filteredModels.length !== 1 ? "s" : ""} shown
-            {showCachingOnly && " \u00B7 Filtered to caching-capable models"}
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="overflow-x-auto">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead className="min-w-[200px]">
-                  <SortableHeader field="name">Model</SortableHeader>
-                </TableHead>
-                <TableHead className="text-right">
-                  <SortableHeader field="input">Input</SortableHeader>
-                </TableHead>
-                <TableHead className="text-right">
-                  <SortableHeader field="output">Output</SortableHeader>
-                </TableHead>
-                <TableHead className="text-right">
-                  <SortableHeader field="cache_write">Cache Write (5 min)</SortableHeader>
-                </TableHead>
-                <TableHead className="text-right">
-                  <SortableHeader field="cache_write_1hour">Cache Write (1 hr)</SortableHeader>
-                </TableHead>
-                <TableHead className="text-right">
-                  <SortableHeader field="cache_read">Cache Read</SortableHeader>
-                </TableHead>
-                <TableHead className="text-right">
-                  <SortableHeader field="batch_input">Batch In</SortableHeader>
+function EmptyRow({ colSpan }: { colSpan: number }) {
+  return (
+    <TableRow>
+      <TableCell colSpan={colSpan} className="text-center py-12">
+        <p className="text-muted-foreground text-sm">
+          No models match your filters. Try adjusting your search criteria.
+        </p>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+type EmbeddingSortField = "name" | "input" | "batch_input" | "max_input";
+
+function EmbeddingPricingTable({ models, unit }: { models: EmbeddingModel[]; unit: UnitMode }) {
+  const sort = useColumnSort<EmbeddingSortField>("name");
+
+  const sorted = useMemo(() => {
+    const value = (m: EmbeddingModel): number | null => {
+      switch (sort.field) {
+        case "input":
+          return m.pricing.input_1k;
+        case "batch_input":
+          return m.pricing.batch_input_1k;
+        case "max_input":
+          return m.max_input_tokens;
+        default:
+          return null;
+      }
+    };
+    return [...models].sort((a, b) =>
+      sort.field === "name"
+        ? (sort.dir === "asc" ? 1 : -1) * a.name.localeCompare(b.name)
+        : compareNullable(value(a), value(b), sort.dir)
+    );
+  }, [models, sort.field, sort.dir]);
+
+  const minInput = findMinInColumn(models, (m) => m.pricing.input_1k);
+  const minBatch = findMinInColumn(models, (m) => m.pricing.batch_input_1k);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Embedding Pricing ({unit === "1k" ? "Per 1K Tokens" : "Per 1M Tokens"})</CardTitle>
+        <CardDescription className="text-sm">
+          Billed on input tokens only — once for every chunk indexed and again for every query embedded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[200px]">
+                <SortButton active={sort.field === "name"} onClick={() => sort.toggle("name")}>Model</SortButton>
+              </TableHead>
+              <TableHead className="text-right">
+                <SortButton active={sort.field === "input"} onClick={() => sort.toggle("input")}>Input</SortButton>
+              </TableHead>
+              <TableHead className="text-right">
+                <SortButton active={sort.field === "batch_input"} onClick={() => sort.toggle("batch_input")}>Batch In</SortButton>
+              </TableHead>
+              <TableHead className="text-right">
+                <SortButton active={sort.field === "max_input"} onClick={() => sort.toggle("max_input")}>Max Input</SortButton>
+              </TableHead>
+              <TableHead className="text-right text-xs font-semibold">Dimensions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((model) => (
+              <TableRow key={model.id}>
+                <ModelNameCell name={model.name} provider={model.provider} />
+                <TableCell className={`text-right text-sm ${model.pricing.input_1k === minInput ? CHEAPEST_CELL : ""}`}>
+                  {formatPrice(model.pricing.input_1k, unit)}
+                </TableCell>
+                <TableCell className={`text-right text-sm ${model.pricing.batch_input_1k !== null && model.pricing.batch_input_1k === minBatch ? CHEAPEST_CELL : ""}`}>
+                  {formatPrice(model.pricing.batch_input_1k, unit)}
+                </TableCell>
+                <TableCell className="text-right text-sm">{model.max_input_tokens.toLocaleString()} tokens</TableCell>
+                <TableCell className="text-right text-sm">{model.dimensions.join(" / ")}</TableCell>
+              </TableRow>
+            ))}
+            {sorted.length === 0 && <EmptyRow colSpan={5} />}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function resolutionPixels(resolution: string): number {
+  const [w, h] = resolution.split("x").map(Number);
+  return (w || 0) * (h || 0);
+}
+
+function priceFor(model: ImageGenerationModel, columnKey: string): number | null {
+  return model.pricing.find((p) => `${p.max_resolution}:${p.quality}` === columnKey)?.per_image ?? null;
+}
+
+function ImagePricingTable({ models }: { models: ImageGenerationModel[] }) {
+  // One column per resolution tier and quality offered by any model.
+  const columns = useMemo(() => {
+    const keys = new Map<string, { key: string; resolution: string; quality: string }>();
+    for (const m of models) {
+      for (const p of m.pricing) {
+        const key = `${p.max_resolution}:${p.quality}`;
+        if (!keys.has(key)) keys.set(key, { key, resolution: p.max_resolution, quality: p.quality });
+      }
+    }
+    return [...keys.values()].sort(
+      (a, b) => resolutionPixels(a.resolution) - resolutionPixels(b.resolution)
+        || Number(a.quality === "premium") - Number(b.quality === "premium")
+    );
+  }, [models]);
+
+  const sort = useColumnSort<string>("name");
+
+  const sorted = useMemo(
+    () => [...models].sort((a, b) =>
+      sort.field === "name"
+        ? (sort.dir === "asc" ? 1 : -1) * a.name.localeCompare(b.name)
+        : compareNullable(priceFor(a, sort.field), priceFor(b, sort.field), sort.dir)
+    ),
+    [models, sort.field, sort.dir]
+  );
+
+  const mins = Object.fromEntries(columns.map((c) => [c.key, findMinInColumn(models, (m) => priceFor(m, c.key))]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Image Generation Pricing (Per Image)</CardTitle>
+        <CardDescription className="text-sm">
+          Billed per generated image by the largest resolution it fits within and the quality setting.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[200px]">
+                <SortButton active={sort.field === "name"} onClick={() => sort.toggle("name")}>Model</SortButton>
+              </TableHead>
+              {columns.map((c) => (
+                <TableHead key={c.key} className="text-right">
+                  <SortButton active={sort.field === c.key} onClick={() => sort.toggle(c.key)}>
+                    ≤ {c.resolution.replace("x", " × ")} {c.quality === "premium" ? "Premium" : "Standard"}
+                  </SortButton>
                 </TableHead>
-                <TableHead className="text-right text-xs font-semibold">Batch Out</TableHead>
-                <TableHead className="text-center text-xs font-semibold">Features</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((model) => (
+              <TableRow key={model.id}>
+                <ModelNameCell name={model.name} provider={model.provider} />
+                {columns.map((c) => {
+                  const price = priceFor(model, c.key);
+                  return (
+                    <TableCell key={c.key} className={`text-right text-sm ${price !== null && price === mins[c.key] ? CHEAPEST_CELL : ""}`}>
+                      {price === null ? "—" : `$${price.toFixed(3)}`}
+                    </TableCell>
+                  );
+                })}
               </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredModels.map((model) => (
-                <TableRow key={model.id}>
-                  <TableCell>
-                    <div className="flex flex-col gap-1">
-                      <span className="text-sm font-medium">{model.name}</span>
-                      <Badge
-                        variant="outline"
-                        className={`${providerColors[model.provider] || "bg-muted text-foreground"} border-none`}
-                      >
-                        {model.provider}
-                      </Badge>
-                    </div>
-                  </TableCell>
-                  <TableCell
-                    className={`text-right text-sm ${
-                      isMin(model.pricing.input_1k, mins.input)
-                        ? "bg-green-100 dark:bg-green-900/30 font-semibold"
-                        : ""
-                    }`}
-                  >
-                    {formatPrice(model.pricing.input_1k, unit)}
-                  </TableCell>
-                  <TableCell
-                    className={`text-right text-sm ${
-                      isMin(model.pricing.output_1k, mins.output)
-                        ? "bg-green-100 dark:bg-green-900/30 font-semibold"
-                        : ""
-                    }`}
-                  >
-                    {formatPrice(model.pricing.output_1k, unit)}
-                  </TableCell>
-                  <TableCell
-                    className={`text-right text-sm ${
-                      isMin(model.pricing.cache_write_1k, mins.cache_write)
-                        ? "bg-green-100 dark:bg-green-900/30 font-semibold"
-                        : ""
-                    }`}
-                  >
-                    {formatPrice(model.pricing.cache_write_1k, unit)}
-                  </TableCell>
-                  <TableCell
-                    className={`text-right text-sm ${
-                      isMin(model.pricing.cache_write_1hour_1k, mins.cache_write_1hour)
-                        ? "bg-green-100 dark:bg-green-900/30 font-semibold"
-                        : ""
-                    }`}
-                  >
-                    {formatPrice(model.pricing.cache_write_1hour_1k, unit)}
-                  </TableCell>
-                  <TableCell
-                    className={`text-right text-sm ${
-                      isMin(model.pricing.cache_read_1k, mins.cache_read)
-                        ? "bg-green-100 dark:bg-green-900/30 font-semibold"
-                        : ""
-                    }`}
-                  >
-                    {formatPrice(model.pricing.cache_read_1k, unit)}
-                  </TableCell>
-                  <TableCell
-                    className={`text-right text-sm ${
-                      isMin(model.pricing.batch_input_1k, mins.batch_input)
-                        ? "bg-green-100 dark:bg-green-900/30 font-semibold"
-                        : ""
-                    }`}
-                  >
-                    {formatPrice(model.pricing.batch_input_1k, unit)}
-                  </TableCell>
-                  <TableCell
-                    className={`text-right text-sm ${
-                      isMin(model.pricing.batch_output_1k, mins.batch_output)
-                        ? "bg-green-100 dark:bg-green-900/30 font-semibold"
-                        : ""
-                    }`}
-                  >
-                    {formatPrice(model.pricing.batch_output_1k, unit)}
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center justify-center gap-1 flex-wrap">
-                      {model.constraints.supports_caching && (
-                        <Badge variant="outline" className="border-primary text-primary text-xs">
-                          <Zap className="w-3 h-3 mr-0.5" />
-                          Cache
-                        </Badge>
-                      )}
-                      {model.constraints.supports_vision && (
-                        <Badge variant="outline" className="border-secondary text-secondary text-xs">
-                          Vision
-                        </Badge>
-                      )}
-                    </div>
+            ))}
+            {sorted.length === 0 && <EmptyRow colSpan={columns.length + 1} />}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+type VideoSortField = "name" | "per_second" | "per_minute" | "max_duration";
+
+function VideoPricingTable({ models }: { models: VideoGenerationModel[] }) {
+  const sort = useColumnSort<VideoSortField>("name");
+
+  // A model priced at several resolutions gets a row for each.
+  const rows = useMemo(() => {
+    const all = models.flatMap((model) => model.pricing.map((price) => ({ model, price })));
+    const value = (r: (typeof all)[number]): number | null => {
+      switch (sort.field) {
+        case "per_second":
+        case "per_minute":
+          return r.price.per_second;
+        case "max_duration":
+          return r.model.max_duration_seconds;
+        default:
+          return null;
+      }
+    };
+    return all.sort((a, b) =>
+      sort.field === "name"
+        ? (sort.dir === "asc" ? 1 : -1) * a.model.name.localeCompare(b.model.name)
+        : compareNullable(value(a), value(b), sort.dir)
+    );
+  }, [models, sort.field, sort.dir]);
+
+  const minPerSecond = findMinInColumn(rows, (r) => r.price.per_second);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Video Generation Pricing (Per Second)</CardTitle>
+        <CardDescription className="text-sm">
+          Billed per second of generated video; longer videos are requested as multi-shot jobs up to the model&apos;s maximum length.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[200px]">
+                <SortButton active={sort.field === "name"} onClick={() => sort.toggle("name")}>Model</SortButton>
+              </TableHead>
+              <TableHead className="text-right text-xs font-semibold">Resolution</TableHead>
+              <TableHead className="text-right">
+                <SortButton active={sort.field === "per_second"} onClick={() => sort.toggle("per_second")}>Per Second</SortButton>
+              </TableHead>
+              <TableHead className="text-right">
+                <SortButton active={sort.field === "per_minute"} onClick={() => sort.toggle("per_minute")}>Per Minute</SortButton>
+              </TableHead>
+              <TableHead className="text-right">
+                <SortButton active={sort.field === "max_duration"} onClick={() => sort.toggle("max_duration")}>Max Length</SortButton>
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ model, price }) => {
+              const cheapest = price.per_second === minPerSecond ? CHEAPEST_CELL : "";
+              return (
+                <TableRow key={`${model.id}:${price.resolution}`}>
+                  <ModelNameCell name={model.name} provider={model.provider} />
+                  <TableCell className="text-right text-sm">
+                    {price.resolution.replace("x", " × ")} · {price.fps} fps
                   </TableCell>
-                </TableRow>
-              ))}
-              {filteredModels.length === 0 && (
-                <TableRow>
-                  <TableCell colSpan={9} className="text-center py-12">
-                    <p className="text-muted-foreground text-sm">
-                      No models match your filters. Try adjusting your search criteria.
-                    </p>
+                  <TableCell className={`text-right text-sm ${cheapest}`}>${price.per_second.toFixed(3)}</TableCell>
+                  <TableCell className={`text-right text-sm ${cheapest}`}>${(price.per_second * 60).toFixed(2)}</TableCell>
+                  <TableCell className="text-right text-sm">
+                    {model.max_duration_seconds >= 60
+                      ? `${model.max_duration_seconds / 60} min`
+                      : `${model.max_duration_seconds} s`}
                   </TableCell>
                 </TableRow>
-              )}
-            </TableBody>
-          </Table>
-        </CardContent>
-      </Card>
-    </div>
+              );
+            })}
+            {rows.length === 0 && <EmptyRow colSpan={5} />}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+type SpeechSortField = "name" | "speech_input" | "speech_output" | "per_minute";
+
+// Listening and speaking per minute, at the model's estimated speech tokens per minute.
+function speechPerMinute(model: SpeechModel): number {
+  const { pricing, speech_tokens_per_minute } = model;
+  return (speech_tokens_per_minute / 1000) * (pricing.speech_input_1k + pricing.speech_output_1k);
+}
+
+function SpeechPricingTable({ models, unit }: { models: SpeechModel[]; unit: UnitMode }) {
+  const sort = useColumnSort<SpeechSortField>("name");
+
+  const sorted = useMemo(() => {
+    const value = (m: SpeechModel): number | null => {
+      switch (sort.field) {
+        case "speech_input":
+          return m.pricing.speech_input_1k;
+        case "speech_output":
+          return m.pricing.speech_output_1k;
+        case "per_minute":
+          return speechPerMinute(m);
+        default:
+          return null;
+      }
+    };
+    return [...models].sort((a, b) =>
+      sort.field === "name"
+        ? (sort.dir === "asc" ? 1 : -1) * a.name.localeCompare(b.name)
+        : compareNullable(value(a), value(b), sort.dir)
+    );
+  }, [models, sort.field, sort.dir]);
+
+  const minSpeechInput = findMinInColumn(models, (m) => m.pricing.speech_input_1k);
+  const minSpeechOutput = findMinInColumn(models, (m) => m.pricing.speech_output_1k);
+  const minPerMinute = findMinInColumn(models, speechPerMinute);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Speech-to-Speech Pricing ({unit === "1k" ? "Per 1K Tokens" : "Per 1M Tokens"})</CardTitle>
+        <CardDescription className="text-sm">
+          Audio and text tokens are billed at separate rates. Per-minute figures assume one minute each of listening and speaking at the estimated speech tokens per minute.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[200px]">
+                <SortButton active={sort.field === "name"} onClick={() => sort.toggle("name")}>Model</SortButton>
+              </TableHead>
+              <TableHead className="text-right">
+                <SortButton active={sort.field === "speech_input"} onClick={() => sort.toggle("speech_input")}>Speech In</SortButton>
+              </TableHead>
+              <TableHead className="text-right">
+                <SortButton active={sort.field === "speech_output"} onClick={() => sort.toggle("speech_output")}>Speech Out</SortButton>
+              </TableHead>
+              <TableHead className="text-right text-xs font-semibold">Text In</TableHead>
+              <TableHead className="text-right text-xs font-semibold">Text Out</TableHead>
+              <TableHead className="text-right">
+                <SortButton active={sort.field === "per_minute"} onClick={() => sort.toggle("per_minute")}>Per Minute</SortButton>
+              </TableHead>
+              <TableHead className="text-right text-xs font-semibold">Max Session</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((model) => (
+              <TableRow key={model.id}>
+                <ModelNameCell name={model.name} provider={model.provider} />
+                <TableCell className={`text-right text-sm ${model.pricing.speech_input_1k === minSpeechInput ? CHEAPEST_CELL : ""}`}>
+                  {formatPrice(model.pricing.speech_input_1k, unit)}
+                </TableCell>
+                <TableCell className={`text-right text-sm ${model.pricing.speech_output_1k === minSpeechOutput ? CHEAPEST_CELL : ""}`}>
+                  {formatPrice(model.pricing.speech_output_1k, unit)}
+                </TableCell>
+                <TableCell className="text-right text-sm">{formatPrice(model.pricing.text_input_1k, unit)}</TableCell>
+                <TableCell className="text-right text-sm">{formatPrice(model.pricing.text_output_1k, unit)}</TableCell>
+                <TableCell className={`text-right text-sm ${speechPerMinute(model) === minPerMinute ? CHEAPEST_CELL : ""}`}>
+                  ${speechPerMinute(model).toFixed(3)}
+                </TableCell>
+                <TableCell className="text-right text-sm">{model.max_session_minutes} min</TableCell>
+              </TableRow>
+            ))}
+            {sorted.length === 0 && <EmptyRow colSpan={7} />}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
   );
 }
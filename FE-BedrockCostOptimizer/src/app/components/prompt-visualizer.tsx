@@ -1,12 +1,16 @@
 import { Tooltip, TooltipTrigger, TooltipContent } from "./ui/tooltip";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+import type { CacheLayer, CacheScope, PromptSegmentKey } from "./simulator-engine";
 
 interface PromptSegment {
+  key: PromptSegmentKey;
   label: string;
   tokens: number;
-  type: "cached-shared" | "cached-unique" | "fresh";
+  type: "cached-shared" | "cached-unique" | "cached-request" | "fresh";
 }
 
 export interface SegmentLabels {
+  tools: string;
   system: string;
   context: string;
   submission: string;
@@ -14,7 +18,8 @@ export interface SegmentLabels {
 }
 
 interface PromptVisualizerProps {
-  strategy: "A" | "B" | "caching";
+  strategy: "A" | "B" | "caching" | "multi";
+  toolTokens?: number;
   systemTokens: number;
   contextTokens: number;
   submissionTokens: number;
@@ -22,9 +27,13 @@ interface PromptVisualizerProps {
   labels?: SegmentLabels;
   submissionCacheable?: boolean;
   strategyLabel?: string;
+  cacheLayers?: CacheLayer[];
+  checkpoints?: PromptSegmentKey[];
+  onCheckpointsChange?: (checkpoints: PromptSegmentKey[]) => void;
 }
 
 const defaultLabels: SegmentLabels = {
+  tools: "Tool Definitions",
   system: "System Prompt",
   context: "Context/Rubric",
   submission: "Submission",
@@ -34,23 +43,33 @@ const defaultLabels: SegmentLabels = {
 const segmentColors = {
   "cached-shared": "bg-blue-500",
   "cached-unique": "bg-emerald-500",
+  "cached-request": "bg-teal-500",
   fresh: "bg-orange-500",
 };
 
 const segmentLegend = {
   "cached-shared": "Cached (Assignment-Level)",
   "cached-unique": "Cached (Submission-Level)",
+  "cached-request": "Cached (Request-Level)",
   fresh: "Fresh Input",
 };
 
+const scopeSegmentTypes: Record<CacheScope, PromptSegment["type"]> = {
+  assignment: "cached-shared",
+  student: "cached-unique",
+  request: "cached-request",
+};
+
 const defaultStrategyLabels: Record<string, string> = {
   A: "Per-Assignment Cache: Prompt Structure",
   B: "Per-Submission Cache: Prompt Structure",
   caching: "Caching: Prompt Structure",
+  multi: "Multi-Checkpoint Cache: Prompt Structure",
 };
 
 export function PromptVisualizer({
   strategy,
+  toolTokens = 0,
   systemTokens,
   contextTokens,
   submissionTokens,
@@ -58,24 +77,42 @@ export function PromptVisualizer({
   labels = defaultLabels,
   submissionCacheable = true,
   strategyLabel,
+  cacheLayers = [],
+  checkpoints = [],
+  onCheckpointsChange,
 }: PromptVisualizerProps) {
   const strategyBSubmissionType: PromptSegment["type"] =
     submissionCacheable ? "cached-unique" : "fresh";
+  const multiSegmentType = (key: PromptSegmentKey): PromptSegment["type"] => {
+    const layer = cacheLayers.find((l) => l.segments.includes(key));
+    return layer ? scopeSegmentTypes[layer.scope] : "fresh";
+  };
 
   const segments: PromptSegment[] =
-    strategy === "A" || strategy === "caching"
+    strategy === "multi"
+      ? [
+          { key: "tools", label: labels.tools, tokens: toolTokens, type: multiSegmentType("tools") },
+          { key: "system", label: labels.system, tokens: systemTokens, type: multiSegmentType("system") },
+          { key: "context", label: labels.context, tokens: contextTokens, type: multiSegmentType("context") },
+          { key: "submission", label: labels.submission, tokens: submissionTokens, type: multiSegmentType("submission") },
+          { key: "instruction", label: labels.instruction, tokens: instructionTokens, type: multiSegmentType("instruction") },
+        ]
+      : strategy === "A" || strategy === "caching"
       ? [
-          { label: labels.system, tokens: systemTokens, type: "cached-shared" },
-          { label: labels.context, tokens: contextTokens, type: "cached-shared" },
-          { label: labels.submission, tokens: submissionTokens, type: "fresh" },
-          { label: labels.instruction, tokens: instructionTokens, type: "fresh" },
+          { key: "tools", label: labels.tools, tokens: toolTokens, type: "cached-shared" },
+          { key: "system", label: labels.system, tokens: systemTokens, type: "cached-shared" },
+          { key: "context", label: labels.context, tokens: contextTokens, type: "cached-shared" },
+          { key: "submission", label: labels.submission, tokens: submissionTokens, type: "fresh" },
+          { key: "instruction", label: labels.instruction, tokens: instructionTokens, type: "fresh" },
         ]
       : [
-          { label: labels.system, tokens: systemTokens, type: "cached-shared" },
-          { label: labels.context, tokens: contextTokens, type: "cached-shared" },
-          { label: labels.submission, tokens: submissionTokens, type: strategyBSubmissionType },
-          { label: labels.instruction, tokens: instructionTokens, type: "fresh" },
+          { key: "tools", label: labels.tools, tokens: toolTokens, type: "cached-shared" },
+          { key: "system", label: labels.system, tokens: systemTokens, type: "cached-shared" },
+          { key: "context", label: labels.context, tokens: contextTokens, type: "cached-shared" },
+          { key: "submission", label: labels.submission, tokens: submissionTokens, type: strategyBSubmissionType },
+          { key: "instruction", label: labels.instruction, tokens: instructionTokens, type: "fresh" },
         ];
+  const layerEnds = new Set(cacheLayers.map((l) => l.segments[l.segments.length - 1]));
 
   const totalTokens = segments.reduce((sum, s) => sum + s.tokens, 0);
   const heading = strategyLabel ?? defaultStrategyLabels[strategy] ?? `Strategy ${strategy}: Prompt Structure`;
@@ -94,7 +131,7 @@ export function PromptVisualizer({
             <Tooltip key={seg.label}>
               <TooltipTrigger asChild>
                 <div
-                  className={`${segmentColors[seg.type]} flex items-center justify-center min-w-[2px] transition-all cursor-default border-r border-background/20 last:border-r-0`}
+                  className={`${segmentColors[seg.type]} relative flex items-center justify-center min-w-[2px] transition-all cursor-default border-r border-background/20 last:border-r-0`}
                   style={{ width: `${pct}%` }}
                 >
                   {pct > 12 && (
@@ -102,11 +139,15 @@ export function PromptVisualizer({
                       {seg.label}
                     </span>
                   )}
+                  {strategy === "multi" && layerEnds.has(seg.key) && (
+                    <div className="absolute right-0 top-0 h-full w-1 bg-foreground" />
+                  )}
                 </div>
               </TooltipTrigger>
               <TooltipContent>
                 <span className="text-xs">
                   {seg.label}: {seg.tokens.toLocaleString()} tokens ({pct.toFixed(1)}%)
+                  {strategy === "multi" && layerEnds.has(seg.key) && " · checkpoint"}
                 </span>
               </TooltipContent>
             </Tooltip>
@@ -129,6 +170,23 @@ export function PromptVisualizer({
           );
         })}
       </div>
+
+      {strategy === "multi" && onCheckpointsChange && (
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="text-muted-foreground text-xs">Checkpoint after:</span>
+          <ToggleGroup
+            type="multiple"
+            value={checkpoints}
+            onValueChange={(v) => onCheckpointsChange(v as PromptSegmentKey[])}
+          >
+            {segments.filter((seg) => seg.tokens > 0 || checkpoints.includes(seg.key)).map((seg) => (
+              <ToggleGroupItem key={seg.key} value={seg.key} size="sm" variant="outline">
+                {seg.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,151 @@
+import { useState, useMemo } from "react";
+import {
+  Card, CardHeader, CardTitle, CardDescription, CardContent,
+} from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "./ui/select";
+import {
+  Table, TableHeader, TableBody, TableHead, TableRow, TableCell,
+} from "./ui/table";
+import { formatCost, type SimulationInput, type Strategy } from "./simulator-engine";
+import {
+  COMMITMENT_TERMS, HOURS_PER_MONTH, computeProvisionedBreakEven,
+  type CommitmentTerm,
+} from "./provisioned-throughput";
+
+interface ProvisionedThroughputPanelProps {
+  input: SimulationInput;
+  strategies: Strategy[];
+}
+
+const DEFAULT_CLASSES_PER_MONTH = 40;
+
+function formatUtilization(value: number): string {
+  if (!Number.isFinite(value) || value > 1) return "Never";
+  return `${(value * 100).toFixed(value < 0.1 ? 1 : 0)}%`;
+}
+
+export function ProvisionedThroughputPanel({ input, strategies }: ProvisionedThroughputPanelProps) {
+  const [term, setTerm] = useState<CommitmentTerm>("1-month");
+  const [units, setUnits] = useState(1);
+  const [classesPerMonth, setClassesPerMonth] = useState(DEFAULT_CLASSES_PER_MONTH);
+
+  const pt = input.model.provisioned_throughput;
+  const analysis = useMemo(
+    () => pt ? computeProvisionedBreakEven(input, pt, term, units, classesPerMonth, strategies) : null,
+    [input, pt, term, units, classesPerMonth, strategies]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Provisioned Throughput Break-Even</CardTitle>
+        <CardDescription className="text-sm">
+          How busy reserved model units must be before they cost less than on-demand requests
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!pt || !analysis ? (
+          <p className="text-muted-foreground text-sm">
+            {input.model.name} is not offered with Provisioned Throughput. Choose another model to compare.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Commitment</Label>
+                <Select value={term} onValueChange={(v) => setTerm(v as CommitmentTerm)}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(COMMITMENT_TERMS) as CommitmentTerm[]).map((t) => (
+                      <SelectItem key={t} value={t} className="text-xs">{COMMITMENT_TERMS[t].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Model units</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={units}
+                  onChange={(e) => setUnits(Math.max(1, parseInt(e.target.value) || 1))}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Classes per month</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={classesPerMonth}
+                  onChange={(e) => setClassesPerMonth(Math.max(0, parseInt(e.target.value) || 0))}
+                  className="h-8 text-xs"
+                />
+              </div>
+            </div>
+            <p className="text-muted-foreground text-xs">
+              {COMMITMENT_TERMS[term].description}. {formatCost(analysis.hourly)}/hour per unit ×{" "}
+              {HOURS_PER_MONTH} hours × {units} {units === 1 ? "unit" : "units"} ={" "}
+              <strong>{formatCost(analysis.hourly * HOURS_PER_MONTH * units)}</strong> per month.
+              One class keeps a unit busy for {analysis.throughput.unitHours.toFixed(analysis.throughput.unitHours < 1 ? 2 : 1)} hours.
+            </p>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>On-demand strategy</TableHead>
+                  <TableHead className="text-right">Per class</TableHead>
+                  <TableHead className="text-right">Break-even utilization</TableHead>
+                  <TableHead className="text-right">Break-even classes / month</TableHead>
+                  <TableHead className="text-right">On-demand / month</TableHead>
+                  <TableHead className="text-right">Provisioned / month</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analysis.results.map((r) => {
+                  const provisionedWins = r.breakEvenUtilization <= 1 && r.provisionedMonthly < r.onDemandMonthly;
+                  return (
+                    <TableRow key={r.strategy.key}>
+                      <TableCell className="font-medium">{r.strategy.label}</TableCell>
+                      <TableCell className="text-right">{formatCost(r.onDemandPerClass)}</TableCell>
+                      <TableCell className="text-right">{formatUtilization(r.breakEvenUtilization)}</TableCell>
+                      <TableCell className="text-right">
+                        {r.breakEvenUtilization <= 1 ? Math.ceil(r.breakEvenClassesPerMonth).toLocaleString() : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCost(r.onDemandMonthly)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCost(r.provisionedMonthly)}
+                        {provisionedWins && <Badge className="ml-2 bg-emerald-500 text-white text-[10px]">Cheaper</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <p className="text-muted-foreground text-xs">
+              At {classesPerMonth.toLocaleString()} classes per month the provisioned units would be{" "}
+              <strong>{formatUtilization(Math.min(analysis.utilization, 1))}</strong> busy
+              {analysis.utilization > 1 && (
+                <> — over capacity; this volume needs at least <strong>{analysis.unitsRequired}</strong> units</>
+              )}
+              . {units === 1 ? "One unit" : `${units} units`} can serve about{" "}
+              {Math.floor(analysis.capacityClassesPerMonth).toLocaleString()} classes per month running around the clock.
+              Classroom traffic clusters into school hours, so round-the-clock utilization is hard to reach without pooling several schools.
+            </p>
+            <p className="text-muted-foreground text-[11px]">
+              Provisioned Throughput rates vary by region and are often quoted per account — confirm them in the Bedrock console before committing.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import type { ProvisionedThroughputPricing } from "./pricing-data";
+import { getEffectiveTokens, getReasoningTokens, getToolOverhead, type SimulationInput, type Strategy } from "./simulator-engine";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CommitmentTerm = "no-commit" | "1-month" | "6-month";
+
+export interface CommitmentTermMeta {
+  label: string;
+  description: string;
+}
+
+export interface ClassThroughput {
+  inputTokens: number;
+  outputTokens: number;
+  // Model-unit hours the class occupies when a unit runs flat out.
+  unitHours: number;
+}
+
+export interface ProvisionedBreakEven {
+  strategy: Strategy;
+  onDemandPerClass: number;
+  // Share of provisioned hours that must be busy for PT to cost less; above 1 it never does.
+  breakEvenUtilization: number;
+  breakEvenClassesPerMonth: number;
+  onDemandMonthly: number;
+  provisionedMonthly: number;
+}
+
+export interface ProvisionedAnalysis {
+  throughput: ClassThroughput;
+  hourly: number;
+  units: number;
+  classesPerMonth: number;
+  capacityClassesPerMonth: number;
+  utilization: number;
+  unitsRequired: number;
+  results: ProvisionedBreakEven[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const COMMITMENT_TERMS: Record<CommitmentTerm, CommitmentTermMeta> = {
+  "no-commit": {
+    label: "No commitment",
+    description: "Billed hourly while the provisioned model exists; delete it any time",
+  },
+  "1-month": {
+    label: "1-month term",
+    description: "Billed every hour of the month whether or not it is used",
+  },
+  "6-month": {
+    label: "6-month term",
+    description: "Lowest hourly rate, billed every hour for six months",
+  },
+};
+
+export const HOURS_PER_MONTH = 730;
+
+// ---------------------------------------------------------------------------
+// Break-even analysis
+// ---------------------------------------------------------------------------
+
+export function getProvisionedHourly(pt: ProvisionedThroughputPricing, term: CommitmentTerm): number {
+  switch (term) {
+    case "no-commit":
+      return pt.no_commit_hourly;
+    case "1-month":
+      return pt.one_month_hourly;
+    case "6-month":
+      return pt.six_month_hourly;
+  }
+}
+
+// Provisioned capacity has no prompt-cache discount, so every input token of
+// every invocation, tool round trips included, counts against the unit's throughput.
+export function computeClassThroughput(input: SimulationInput, pt: ProvisionedThroughputPricing): ClassThroughput {
+  const { students, reqsPerStudent, sysTokens, outputTokens } = input;
+  const { toolTokens, ctxTokens, subTokens, instTokens } = getEffectiveTokens(input);
+  const tools = getToolOverhead(input);
+  const totalRequests = students * reqsPerStudent;
+
+  const promptTokens = toolTokens + sysTokens + ctxTokens + subTokens + instTokens;
+  const inputTokens = totalRequests * (promptTokens * (1 + tools.roundTrips) + tools.exchangeTokens);
+  const totalOutput = totalRequests * (outputTokens + getReasoningTokens(input) + tools.callOutputTokens);
+  const unitMinutes = inputTokens / pt.input_tokens_per_minute + totalOutput / pt.output_tokens_per_minute;
+
+  return { inputTokens, outputTokens: totalOutput, unitHours: unitMinutes / 60 };
+}
+
+// Utilization is busy unit-hours over provisioned unit-hours. PT wins once
+// classesPerMonth × onDemandPerClass exceeds units × HOURS_PER_MONTH × hourly,
+// which reduces to utilization > unitHours × hourly / onDemandPerClass.
+export function computeProvisionedBreakEven(
+  input: SimulationInput,
+  pt: ProvisionedThroughputPricing,
+  term: CommitmentTerm,
+  units: number,
+  classesPerMonth: number,
+  strategies: Strategy[]
+): ProvisionedAnalysis {
+  const throughput = computeClassThroughput(input, pt);
+  const hourly = getProvisionedHourly(pt, term);
+  const provisionedHours = units * HOURS_PER_MONTH;
+  const provisionedMonthly = provisionedHours * hourly;
+
+  const results = strategies.map((strategy) => {
+    const onDemandPerClass = strategy.compute(input).total;
+    return {
+      strategy,
+      onDemandPerClass,
+      breakEvenUtilization: onDemandPerClass > 0 ? (throughput.unitHours * hourly) / onDemandPerClass : Infinity,
+      breakEvenClassesPerMonth: onDemandPerClass > 0 ? provisionedMonthly / onDemandPerClass : Infinity,
+      onDemandMonthly: classesPerMonth * onDemandPerClass,
+      provisionedMonthly,
+    };
+  });
+
+  const busyHours = classesPerMonth * throughput.unitHours;
+  return {
+    throughput,
+    hourly,
+    units,
+    classesPerMonth,
+    capacityClassesPerMonth: throughput.unitHours > 0 ? provisionedHours / throughput.unitHours : Infinity,
+    utilization: provisionedHours > 0 ? busyHours / provisionedHours : 0,
+    unitsRequired: Math.max(1, Math.ceil(busyHours / HOURS_PER_MONTH)),
+    results,
+  };
+}
@@ -0,0 +1,35 @@
+// ---------------------------------------------------------------------------
+// Seeded random numbers
+// ---------------------------------------------------------------------------
+
+// Simulations use a fixed seed so the same inputs always render the same numbers.
+export const DEFAULT_SEED = 20250101;
+
+export type RandomSource = () => number;
+
+// mulberry32 — small, fast, and good enough for cost simulations.
+export function createRandom(seed: number = DEFAULT_SEED): RandomSource {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomExponential(rand: RandomSource, mean: number): number {
+  return -Math.log(1 - rand()) * mean;
+}
+
+export function randomInt(rand: RandomSource, maxExclusive: number): number {
+  return Math.floor(rand() * maxExclusive);
+}
+
+// Standard normal via Box–Muller.
+export function randomNormal(rand: RandomSource): number {
+  const u = 1 - rand();
+  const v = rand();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,157 @@
+import { useState, useMemo } from "react";
+import {
+  Card, CardHeader, CardTitle, CardDescription, CardContent,
+} from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Table, TableHeader, TableBody, TableHead, TableRow, TableCell,
+} from "./ui/table";
+import { INFERENCE_PROFILES, type InferenceProfile } from "./pricing-data";
+import type { PricingTier, SimulationInput, Strategy } from "./simulator-engine";
+import {
+  DEFAULT_SESSION_MINUTES, computeRateLimits,
+  type ThrottleRisk,
+} from "./rate-limits";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+
+interface RateLimitPanelProps {
+  input: SimulationInput;
+  strategies: Strategy[];
+  profile: InferenceProfile;
+  tier: PricingTier;
+}
+
+const RISK_BADGES: Record<ThrottleRisk, { label: string; className: string }> = {
+  ok: { label: "Within quota", className: "bg-emerald-500 text-white" },
+  "near-limit": { label: "Near limit", className: "bg-amber-500 text-white" },
+  throttled: { label: "Throttled", className: "bg-red-500 text-white" },
+  exempt: { label: "Separate quota", className: "bg-muted text-foreground" },
+  unknown: { label: "No quota data", className: "bg-muted text-foreground" },
+};
+
+function formatShare(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export function RateLimitPanel({ input, strategies, profile, tier }: RateLimitPanelProps) {
+  const [sessionStudents, setSessionStudents] = useState<number | null>(null);
+  const [sessionMinutes, setSessionMinutes] = useState(DEFAULT_SESSION_MINUTES);
+
+  // Follows the class size until the user sets a session size of their own.
+  const students = Math.min(sessionStudents ?? input.students, input.students);
+
+  const analysis = useMemo(
+    () => computeRateLimits(input, strategies, { students, minutes: sessionMinutes }, profile, tier),
+    [input, strategies, students, sessionMinutes, profile, tier]
+  );
+  const { quota } = analysis;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Quota &amp; Throttling Check</CardTitle>
+        <CardDescription className="text-sm">
+          Peak requests and tokens per minute when a class works at the same time, against the default on-demand quotas
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Students in the session</Label>
+            <Input
+              type="number"
+              min={1}
+              max={input.students}
+              value={students}
+              onChange={(e) => setSessionStudents(Math.max(1, parseInt(e.target.value) || 1))}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Session length (minutes)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={sessionMinutes}
+              onChange={(e) => setSessionMinutes(Math.max(1, parseInt(e.target.value) || 1))}
+              className="h-8 text-xs"
+            />
+          </div>
+        </div>
+        <p className="text-muted-foreground text-xs">
+          {analysis.sessionRequests.toLocaleString()} requests over {sessionMinutes} minutes peak at{" "}
+          <strong>{analysis.peakRequestsPerMinute.toLocaleString()}</strong> in the busiest minute.{" "}
+          {quota ? (
+            <>
+              {input.model.name} ({INFERENCE_PROFILES[profile].label}) defaults to{" "}
+              {quota.requests_per_minute.toLocaleString()} requests and {quota.tokens_per_minute.toLocaleString()} tokens per minute.
+            </>
+          ) : (
+            <>No default quota is on record for {input.model.name} with {INFERENCE_PROFILES[profile].label} inference.</>
+          )}
+        </p>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Strategy</TableHead>
+              <TableHead className="text-right">Quota tokens / call</TableHead>
+              <TableHead className="text-right">Peak RPM</TableHead>
+              <TableHead className="text-right">Peak TPM</TableHead>
+              <TableHead className="text-right">Quota used</TableHead>
+              <TableHead className="text-right">Risk</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analysis.loads.map((load) => {
+              const badge = RISK_BADGES[load.risk];
+              const exempt = load.risk === "exempt";
+              const measured = !exempt && load.risk !== "unknown";
+              return (
+                <TableRow key={load.strategy.key}>
+                  <TableCell className="font-medium">{load.strategy.label}</TableCell>
+                  <TableCell className="text-right">{exempt ? "—" : Math.round(load.tokensPerInvocation).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{exempt ? "—" : Math.round(load.peakRpm).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{exempt ? "—" : Math.round(load.peakTpm).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    {measured ? formatShare(Math.max(load.rpmUtilization, load.tpmUtilization)) : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Badge className={`text-[10px] ${badge.className}`}>{badge.label}</Badge>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {analysis.loads.filter((l) => l.mitigations.length > 0).map((load) => (
+          <div key={load.strategy.key} className="rounded-md border border-red-500/30 bg-red-50 dark:bg-red-900/10 p-3 space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4 text-red-600" />
+              {load.strategy.label} exceeds the {load.tpmUtilization >= load.rpmUtilization ? "tokens" : "requests"}-per-minute quota
+            </p>
+            <ul className="space-y-1">
+              {load.mitigations.map((m) => (
+                <li key={`${m.kind}:${m.label}`} className="text-xs flex items-start gap-2">
+                  {m.sufficient
+                    ? <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 shrink-0 text-emerald-600" />
+                    : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-amber-600" />}
+                  <span><strong>{m.label}:</strong> {m.detail}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
+        <p className="text-muted-foreground text-[11px]">
+          Quota tokens count input and cache writes but not cache reads, and each output token counts{" "}
+          {input.model.constraints.output_token_burndown}× for this model. Bedrock reserves max_tokens up front, so set it close to the
+          expected response. Defaults vary by account and region — check Service Quotas before a class session and request an increase if needed.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+import { INFERENCE_PROFILES, type InferenceProfile, type RateQuota } from "./pricing-data";
+import {
+  computeStrategyCost, getBreakdownTokens, getToolOverhead,
+  type CostBreakdown, type PricingTier, type SimulationInput, type Strategy,
+} from "./simulator-engine";
+import { createRandom, DEFAULT_SEED } from "./random";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+// Students working at the same time, e.g. one class in a 50-minute lab.
+export interface SessionLoad {
+  students: number;
+  minutes: number;
+}
+
+export type ThrottleRisk = "ok" | "near-limit" | "throttled" | "exempt" | "unknown";
+
+export type MitigationKind = "cross-region" | "tier" | "stagger";
+
+export interface Mitigation {
+  kind: MitigationKind;
+  label: string;
+  detail: string;
+  // Whether the mitigation alone brings the peak under the quota.
+  sufficient: boolean;
+}
+
+export interface StrategyRateLoad {
+  strategy: Strategy;
+  tokensPerInvocation: number;
+  peakRpm: number;
+  peakTpm: number;
+  // Peak over quota; the larger of the two is what throttles first.
+  rpmUtilization: number;
+  tpmUtilization: number;
+  risk: ThrottleRisk;
+  mitigations: Mitigation[];
+}
+
+export interface RateLimitAnalysis {
+  profile: InferenceProfile;
+  quota: RateQuota | null;
+  sessionRequests: number;
+  peakRequestsPerMinute: number;
+  loads: StrategyRateLoad[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_SESSION_MINUTES = 50;
+export const NEAR_LIMIT_UTILIZATION = 0.8;
+
+const PROFILE_ORDER = Object.keys(INFERENCE_PROFILES) as InferenceProfile[];
+
+// ---------------------------------------------------------------------------
+// Peak load
+// ---------------------------------------------------------------------------
+
+// Busiest minute when the session's requests land uniformly at random across
+// it. Seeded so the same inputs always report the same peak.
+export function simulatePeakRequestsPerMinute(requests: number, minutes: number, seed: number = DEFAULT_SEED): number {
+  if (requests <= 0) return 0;
+  const buckets = new Array<number>(Math.max(1, Math.ceil(minutes))).fill(0);
+  const rand = createRandom(seed);
+  for (let i = 0; i < requests; i++) {
+    buckets[Math.floor(rand() * buckets.length)]++;
+  }
+  return Math.max(...buckets);
+}
+
+// Quota tokens per model call: input and cache writes count, cache reads do
+// not, and output (reasoning included) burns down at the model's rate.
+export function getQuotaTokensPerInvocation(input: SimulationInput, breakdown: CostBreakdown, invocations: number): number {
+  if (invocations <= 0) return 0;
+  const tokens = getBreakdownTokens(input, breakdown);
+  const outputTokens = tokens.output + tokens.reasoning;
+  return (tokens.freshInput + tokens.cacheWrite + outputTokens * input.model.constraints.output_token_burndown) / invocations;
+}
+
+function utilizationAt(quota: RateQuota, rpm: number, tpm: number): number {
+  return Math.max(rpm / quota.requests_per_minute, tpm / quota.tokens_per_minute);
+}
+
+function classifyRisk(utilization: number): ThrottleRisk {
+  if (utilization > 1) return "throttled";
+  if (utilization >= NEAR_LIMIT_UTILIZATION) return "near-limit";
+  return "ok";
+}
+
+// ---------------------------------------------------------------------------
+// Mitigations
+// ---------------------------------------------------------------------------
+
+function suggestMitigations(
+  input: SimulationInput,
+  profile: InferenceProfile,
+  tier: PricingTier,
+  session: SessionLoad,
+  peakRpm: number,
+  peakTpm: number,
+  utilization: number
+): Mitigation[] {
+  const { constraints } = input.model;
+  const mitigations: Mitigation[] = [];
+
+  const broader = PROFILE_ORDER.slice(PROFILE_ORDER.indexOf(profile) + 1)
+    .filter((p) => constraints.supported_inference_profiles.includes(p) && constraints.default_quotas[p]);
+  for (const p of broader) {
+    const quota = constraints.default_quotas[p]!;
+    const after = utilizationAt(quota, peakRpm, peakTpm);
+    mitigations.push({
+      kind: "cross-region",
+      label: INFERENCE_PROFILES[p].label,
+      detail: `Raises the default quota to ${quota.requests_per_minute.toLocaleString()} RPM / ${quota.tokens_per_minute.toLocaleString()} TPM — peak ${Math.round(after * 100)}% of quota`,
+      sufficient: after <= 1,
+    });
+  }
+
+  if (constraints.supported_tiers.includes("priority") && tier !== "priority") {
+    mitigations.push({
+      kind: "tier",
+      label: "Priority tier",
+      detail: "Served ahead of Standard traffic at 1.75× the price; account quotas still apply, so pair it with a quota increase",
+      sufficient: false,
+    });
+  }
+
+  const groups = Math.ceil(utilization);
+  mitigations.push({
+    kind: "stagger",
+    label: "Stagger the session",
+    detail: `Split the class into ${groups} groups, or spread the work over ${Math.ceil(session.minutes * utilization)} minutes`,
+    sufficient: true,
+  });
+
+  return mitigations;
+}
+
+// ---------------------------------------------------------------------------
+// Analysis
+// ---------------------------------------------------------------------------
+
+// Every request of the students in the session lands inside it. Batch jobs and
+// speech streams have their own quotas, so they are reported as exempt.
+export function computeRateLimits(
+  input: SimulationInput,
+  strategies: Strategy[],
+  session: SessionLoad,
+  profile: InferenceProfile,
+  tier: PricingTier
+): RateLimitAnalysis {
+  const quota = input.model.constraints.default_quotas[profile] ?? null;
+  const sessionRequests = session.students * input.reqsPerStudent;
+  const peakRequestsPerMinute = simulatePeakRequestsPerMinute(sessionRequests, session.minutes);
+  const invocationsPerRequest = 1 + getToolOverhead(input).roundTrips;
+  const totalInvocations = input.students * input.reqsPerStudent * invocationsPerRequest;
+
+  const loads = strategies.map((strategy): StrategyRateLoad => {
+    const breakdown = computeStrategyCost(strategy, input);
+    const tokensPerInvocation = getQuotaTokensPerInvocation(input, breakdown, totalInvocations);
+    const peakRpm = peakRequestsPerMinute * invocationsPerRequest;
+    const peakTpm = peakRpm * tokensPerInvocation;
+    const exempt = strategy.kind === "batch" || strategy.kind === "speech";
+    const rpmUtilization = quota ? peakRpm / quota.requests_per_minute : 0;
+    const tpmUtilization = quota ? peakTpm / quota.tokens_per_minute : 0;
+    const utilization = Math.max(rpmUtilization, tpmUtilization);
+    const risk: ThrottleRisk = exempt ? "exempt" : quota ? classifyRisk(utilization) : "unknown";
+    return {
+      strategy,
+      tokensPerInvocation,
+      peakRpm,
+      peakTpm,
+      rpmUtilization,
+      tpmUtilization,
+      risk,
+      mitigations: risk === "throttled"
+        ? suggestMitigations(input, profile, tier, session, peakRpm, peakTpm, utilization)
+        : [],
+    };
+  });
+
+  return { profile, quota, sessionRequests, peakRequestsPerMinute, loads };
+}
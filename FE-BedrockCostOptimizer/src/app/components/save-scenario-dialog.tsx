@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { getPricingData } from "./pricing-data";
+import { formatCost } from "./simulator-engine";
+import { evaluateScenario, type SimulatorScenario } from "./simulator-scenario";
+import { createSavedScenario, parseTags, putScenario } from "./scenario-library";
+import { Save } from "lucide-react";
+
+interface SaveScenarioDialogProps {
+  scenario: SimulatorScenario;
+  defaultName: string;
+}
+
+export function SaveScenarioDialog({ scenario, defaultName }: SaveScenarioDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [tagText, setTagText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedName, setSavedName] = useState<string | null>(null);
+
+  const best = open ? evaluateScenario(scenario, getPricingData()).best : null;
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setName(defaultName);
+      setError(null);
+      setSavedName(null);
+    }
+  };
+
+  const handleSave = async () => {
+    const saved = createSavedScenario(name.trim(), parseTags(tagText), scenario, getPricingData());
+    if (!saved) {
+      setError("No strategy can be priced for this scenario.");
+      return;
+    }
+    setSaving(true);
+    try {
+      await putScenario(saved);
+      setSavedName(saved.name);
+    } catch (e) {
+      setError(`Could not save to browser storage: ${(e as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Save className="w-4 h-4" />
+          Save scenario
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save scenario</DialogTitle>
+          <DialogDescription>
+            Stores the current configuration and its cost in this browser's scenario library.
+          </DialogDescription>
+        </DialogHeader>
+
+        {savedName ? (
+          <p className="text-sm">
+            Saved <strong>{savedName}</strong>. Open the <Link to="/scenarios" className="text-primary underline">scenario library</Link> to browse it.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} className="h-8 text-xs" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Tags (comma-separated)</Label>
+              <Input
+                value={tagText}
+                onChange={(e) => setTagText(e.target.value)}
+                placeholder="customer, proposal"
+                className="h-8 text-xs"
+              />
+            </div>
+            {best && (
+              <p className="text-muted-foreground text-xs">
+                Cheapest now: {best.strategy.label} at <strong>{formatCost(best.breakdown.total)}</strong>
+              </p>
+            )}
+            {error && <p className="text-red-600 text-xs">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {savedName ? (
+            <Button onClick={() => setOpen(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button disabled={!name.trim() || saving} onClick={handleSave}>Save</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link } from "react-router";
+import {
+  Card, CardHeader, CardTitle, CardDescription, CardContent,
+} from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Table, TableHeader, TableBody, TableHead, TableRow, TableCell,
+} from "./ui/table";
+import { getPricingData } from "./pricing-data";
+import { formatCost } from "./simulator-engine";
+import { SCENARIO_URL_PARAM, encodeScenario } from "./simulator-scenario";
+import {
+  listScenarios, putScenario, deleteScenario, duplicateScenario, compareWithCurrentPricing, parseTags,
+  type SavedScenario,
+} from "./scenario-library";
+import { Bookmark, Copy, ExternalLink, Pencil, Trash2 } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function SavedScenarios() {
+  const pricingData = getPricingData();
+  const [scenarios, setScenarios] = useState<SavedScenario[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+
+  const reload = () =>
+    listScenarios()
+      .then(setScenarios)
+      .catch((e: Error) => setError(`Could not open browser storage: ${e.message}`));
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  // Run a library change, then re-read so the table matches what is stored.
+  const update = (change: Promise<void>) =>
+    change.then(reload).catch((e: Error) => setError(`Could not update browser storage: ${e.message}`));
+
+  const comparisons = useMemo(
+    () => (scenarios ?? []).map((s) => compareWithCurrentPricing(s, pricingData)),
+    [scenarios, pricingData]
+  );
+  const allTags = useMemo(
+    () => [...new Set((scenarios ?? []).flatMap((s) => s.tags))].sort((a, b) => a.localeCompare(b)),
+    [scenarios]
+  );
+  const query = search.trim().toLowerCase();
+  const visible = comparisons.filter(({ saved, templateLabel }) =>
+    (!tagFilter || saved.tags.includes(tagFilter)) &&
+    (!query || [saved.name, templateLabel, saved.original.modelName, ...saved.tags].some((text) => text.toLowerCase().includes(query)))
+  );
+
+  const saveEdit = (saved: SavedScenario) => {
+    if (!editing || !editing.name.trim()) return;
+    update(putScenario({ ...saved, name: editing.name.trim(), tags: parseTags(editing.tags) }));
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2>Scenario Library</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          Scenarios saved from the Workload Simulator, with the cost they had when saved next to their cost under the current pricing data ({formatDate(pricingData.metadata.last_updated)}).
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            <span className="flex items-center gap-2">
+              <Bookmark className="w-5 h-5 text-primary" />
+              Saved Scenarios
+            </span>
+          </CardTitle>
+          <CardDescription className="text-sm">
+            Stored in this browser. Open a scenario to continue in the simulator.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name, template, model or tag…"
+              className="h-8 text-xs max-w-xs"
+            />
+            {allTags.map((tag) => (
+              <Badge
+                key={tag}
+                variant={tagFilter === tag ? "default" : "outline"}
+                className="cursor-pointer text-[11px]"
+                onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              >
+                {tag}
+              </Badge>
+            ))}
+          </div>
+
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+
+          {scenarios === null ? (
+            !error && <p className="text-muted-foreground text-sm">Loading saved scenarios…</p>
+          ) : scenarios.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              No saved scenarios yet. Use <strong>Save scenario</strong> in the <Link to="/simulator" className="text-primary underline">Workload Simulator</Link>.
+            </p>
+          ) : visible.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No saved scenario matches this search.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Tags</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead className="text-right">Original cost</TableHead>
+                  <TableHead className="text-right">Current pricing</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(({ saved, templateLabel, current, delta }) => {
+                  const isEditing = editing?.id === saved.id;
+                  const pct = delta !== null && saved.original.total > 0 ? (delta / saved.original.total) * 100 : 0;
+                  return (
+                    <TableRow key={saved.id}>
+                      <TableCell>
+                        {isEditing ? (
+                          <Input
+                            value={editing.name}
+                            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                            className="h-7 text-xs"
+                          />
+                        ) : (
+                          <>
+                            <div className="font-medium">{saved.name}</div>
+                            <div className="text-muted-foreground text-[11px]">{templateLabel}</div>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {isEditing ? (
+                          <Input
+                            value={editing.tags}
+                            onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                            placeholder="Comma-separated"
+                            className="h-7 text-xs"
+                          />
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {saved.tags.map((tag) => (
+                              <Badge key={tag} variant="secondary" className="text-[10px]">{tag}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">{saved.original.modelName}</TableCell>
+                      <TableCell className="text-xs">
+                        <div>{formatDate(saved.savedAt)}</div>
+                        <div className="text-muted-foreground text-[11px]">Pricing of {formatDate(saved.original.pricingUpdated)}</div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div>{formatCost(saved.original.total)}</div>
+                        <div className="text-muted-foreground text-[11px]">{saved.original.strategyLabel}</div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {current ? (
+                          <>
+                            <div>{formatCost(current.breakdown.total)}</div>
+                            <div className="text-muted-foreground text-[11px]">{current.strategy.label}</div>
+                          </>
+                        ) : (
+                          <span className="text-amber-700 dark:text-amber-400 text-xs">Model no longer listed</span>
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right text-xs ${delta === null || Math.abs(delta) < 0.005 ? "text-muted-foreground" : delta < 0 ? "text-emerald-600" : "text-red-600"}`}>
+                        {delta === null ? "—" : Math.abs(delta) < 0.005 ? "No change" : `${delta > 0 ? "+" : "−"}${formatCost(Math.abs(delta))} (${Math.abs(pct).toFixed(1)}%)`}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {isEditing ? (
+                          <>
+                            <Button size="sm" className="h-7 text-xs" onClick={() => saveEdit(saved)}>Save</Button>
+                            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditing(null)}>Cancel</Button>
+                          </>
+                        ) : (
+                          <>
+                            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Open in simulator" asChild>
+                              <Link to={`/simulator?${SCENARIO_URL_PARAM}=${encodeScenario(saved.scenario)}`}>
+                                <ExternalLink className="w-3.5 h-3.5" />
+                              </Link>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0"
+                              title="Rename and tag"
+                              onClick={() => setEditing({ id: saved.id, name: saved.name, tags: saved.tags.join(", ") })}
+                            >
+                              <Pencil className="w-3.5 h-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0"
+                              title="Duplicate"
+                              onClick={() => update(putScenario(duplicateScenario(saved)))}
+                            >
+                              <Copy className="w-3.5 h-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0"
+                              title="Delete"
+                              onClick={() => update(deleteScenario(saved.id))}
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </Button>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
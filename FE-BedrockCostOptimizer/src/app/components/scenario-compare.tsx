@@ -0,0 +1,364 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link, useSearchParams } from "react-router";
+import {
+  Card, CardHeader, CardTitle, CardDescription, CardContent,
+} from "./ui/card";
+import { Label } from "./ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "./ui/select";
+import {
+  Table, TableHeader, TableBody, TableHead, TableRow, TableCell,
+} from "./ui/table";
+import { getPricingData } from "./pricing-data";
+import { DEFAULT_TEMPLATE, formatCost, type SensitivityParamKey } from "./simulator-engine";
+import { PRESET_FIELDS, getTemplate } from "./template-data";
+import {
+  SCENARIO_URL_PARAM, createTemplateScenario, decodeScenario, evaluateScenario, findMissingReferences,
+  type SimulatorScenario,
+} from "./simulator-scenario";
+import { listScenarios, type SavedScenario } from "./scenario-library";
+import { SIDE_COLORS, diffBreakdowns, diffScenarios, overlaySensitivity } from "./scenario-diff";
+import { BreakdownComparisonChart } from "./charts/BreakdownComparisonChart";
+import { SensitivityOverlayChart } from "./charts/SensitivityOverlayChart";
+import { AlertTriangle, GitCompareArrows } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type Side = "a" | "b";
+
+// Where a side's scenario comes from: the state pinned from the simulator,
+// the other side's template defaults, or a saved scenario id.
+interface SideSelection {
+  source: string;
+  // Overrides the scenario's own model when set.
+  modelId: string | null;
+}
+
+interface ResolvedSide {
+  name: string;
+  scenario: SimulatorScenario;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const PINNED = "pinned";
+const BASELINE = "baseline";
+const SCENARIO_MODEL = "scenario";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatDelta(delta: number, base: number): string {
+  if (Math.abs(delta) < 0.005) return "No change";
+  const pct = base > 0 ? ` (${Math.abs((delta / base) * 100).toFixed(1)}%)` : "";
+  return `${delta > 0 ? "+" : "−"}${formatCost(Math.abs(delta))}${pct}`;
+}
+
+function deltaClass(delta: number): string {
+  return Math.abs(delta) < 0.005 ? "text-muted-foreground" : delta < 0 ? "text-emerald-600" : "text-red-600";
+}
+
+function templateLabel(scenario: SimulatorScenario): string {
+  return getTemplate(scenario.template, scenario.customTemplate ? { [scenario.template]: scenario.customTemplate } : {}).label;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function ScenarioCompare() {
+  const [searchParams] = useSearchParams();
+  const pricingData = getPricingData();
+
+  const pinned = useMemo(() => {
+    const encoded = searchParams.get(SCENARIO_URL_PARAM);
+    if (!encoded) return null;
+    const decoded = decodeScenario(encoded);
+    return decoded.ok ? decoded.scenario : null;
+  }, [searchParams]);
+  const pinnedInvalid = searchParams.has(SCENARIO_URL_PARAM) && !pinned;
+
+  const [saved, setSaved] = useState<SavedScenario[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<Record<Side, SideSelection>>({
+    a: { source: pinned ? PINNED : BASELINE, modelId: null },
+    b: { source: BASELINE, modelId: null },
+  });
+
+  // Without a pinned state, start from the two most recent saved scenarios.
+  useEffect(() => {
+    listScenarios()
+      .then((scenarios) => {
+        setSaved(scenarios);
+        if (pinned || scenarios.length === 0) return;
+        setSelection({
+          a: { source: scenarios[0].id, modelId: null },
+          b: { source: scenarios[1]?.id ?? BASELINE, modelId: null },
+        });
+      })
+      .catch((e: Error) => setError(`Could not open browser storage: ${e.message}`));
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const defaultModelId = pricingData.models.find((m) => m.constraints.supports_caching)?.id ?? pricingData.models[0].id;
+
+  const sides = useMemo((): Record<Side, ResolvedSide> => {
+    const fromSource = (source: string): ResolvedSide | null => {
+      if (source === PINNED && pinned) return { name: "Simulator state", scenario: pinned };
+      const match = saved.find((s) => s.id === source);
+      return match ? { name: match.name, scenario: match.scenario } : null;
+    };
+    // A baseline takes the other side's template and model at their defaults.
+    const resolve = (side: Side): ResolvedSide => {
+      const other = fromSource(selection[side === "a" ? "b" : "a"].source)?.scenario;
+      const own = fromSource(selection[side].source) ?? {
+        name: "Template defaults",
+        scenario: other
+          ? createTemplateScenario(other.template, other.customTemplate, other.modelId)
+          : createTemplateScenario(DEFAULT_TEMPLATE, null, defaultModelId),
+      };
+      const modelId = selection[side].modelId;
+      return modelId ? { ...own, scenario: { ...own.scenario, modelId } } : own;
+    };
+    return { a: resolve("a"), b: resolve("b") };
+  }, [selection, pinned, saved, defaultModelId]);
+
+  const evalA = useMemo(() => evaluateScenario(sides.a.scenario, pricingData), [sides.a.scenario, pricingData]);
+  const evalB = useMemo(() => evaluateScenario(sides.b.scenario, pricingData), [sides.b.scenario, pricingData]);
+  const differences = useMemo(
+    () => diffScenarios(sides.a.scenario, sides.b.scenario, pricingData),
+    [sides, pricingData]
+  );
+  const deltas = evalA.best && evalB.best ? diffBreakdowns(evalA.best.breakdown, evalB.best.breakdown) : [];
+  const total = deltas.find((d) => d.key === "total");
+
+  const [sensitivityParam, setSensitivityParam] = useState<SensitivityParamKey>(sides.a.scenario.sensitivityParam);
+  const overlay = useMemo(
+    () => (evalA.best && evalB.best ? overlaySensitivity(evalA, evalB, sensitivityParam) : []),
+    [evalA, evalB, sensitivityParam]
+  );
+  const fieldLabels = getTemplate(
+    sides.a.scenario.template,
+    sides.a.scenario.customTemplate ? { [sides.a.scenario.template]: sides.a.scenario.customTemplate } : {}
+  ).fieldLabels;
+
+  const labelA = `A: ${sides.a.name}`;
+  const labelB = `B: ${sides.b.name}`;
+  const warnings = (["a", "b"] as Side[]).flatMap((side) =>
+    findMissingReferences(sides[side].scenario, pricingData).map((w) => `${side.toUpperCase()}: ${w}`)
+  );
+
+  const updateSide = (side: Side, patch: Partial<SideSelection>) =>
+    setSelection((prev) => ({ ...prev, [side]: { ...prev[side], ...patch } }));
+
+  const renderSidePicker = (side: Side) => {
+    const { scenario } = sides[side];
+    const evaluation = side === "a" ? evalA : evalB;
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <span className="w-3 h-3 rounded-full" style={{ backgroundColor: SIDE_COLORS[side] }} />
+          Configuration {side.toUpperCase()}
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Scenario</Label>
+          <Select value={selection[side].source} onValueChange={(source) => updateSide(side, { source })}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {pinned && <SelectItem value={PINNED} className="text-xs">Simulator state</SelectItem>}
+              <SelectItem value={BASELINE} className="text-xs">Template defaults (baseline)</SelectItem>
+              {saved.map((s) => (
+                <SelectItem key={s.id} value={s.id} className="text-xs">{s.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Model</Label>
+          <Select
+            value={selection[side].modelId ?? SCENARIO_MODEL}
+            onValueChange={(value) => updateSide(side, { modelId: value === SCENARIO_MODEL ? null : value })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SCENARIO_MODEL} className="text-xs">Scenario's model</SelectItem>
+              {pricingData.models.map((m) => (
+                <SelectItem key={m.id} value={m.id} className="text-xs">
+                  {m.name} <span className="text-muted-foreground">({m.provider})</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-muted-foreground text-xs">
+          {templateLabel(scenario)} · {evaluation.input.model.name}
+        </p>
+        {evaluation.best ? (
+          <p className="text-sm">
+            <strong>{formatCost(evaluation.best.breakdown.total)}</strong>
+            <span className="text-muted-foreground text-xs"> with {evaluation.best.strategy.label}</span>
+          </p>
+        ) : (
+          <p className="text-amber-700 dark:text-amber-400 text-xs">No strategy can be priced for this configuration.</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2>Compare Scenarios</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          Two configurations side by side: saved scenarios, the simulator's current state, or template defaults, each on any model. Each side is priced with its cheapest strategy.
+        </p>
+      </div>
+
+      {(pinnedInvalid || error || warnings.length > 0) && (
+        <div className="flex items-start gap-3 rounded-md border border-amber-500/30 bg-amber-50 dark:bg-amber-900/10 p-3 text-sm">
+          <AlertTriangle className="w-4 h-4 text-amber-600 shrink-0 mt-0.5" />
+          <div className="flex-1 space-y-1">
+            {pinnedInvalid && <p>The pinned simulator state could not be read.</p>}
+            {error && <p>{error}</p>}
+            {warnings.map((warning) => <p key={warning}>{warning}</p>)}
+          </div>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            <span className="flex items-center gap-2">
+              <GitCompareArrows className="w-5 h-5 text-primary" />
+              Configurations
+            </span>
+          </CardTitle>
+          <CardDescription className="text-sm">
+            Use <strong>Compare</strong> in the <Link to="/simulator" className="text-primary underline">Workload Simulator</Link> to pin its current state, or save scenarios to the <Link to="/scenarios" className="text-primary underline">library</Link>.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderSidePicker("a")}
+            {renderSidePicker("b")}
+          </div>
+        </CardContent>
+      </Card>
+
+      {total && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Cost Difference</CardTitle>
+            <CardDescription className="text-sm">
+              B against A, by cost component.{" "}
+              <span className={deltaClass(total.delta)}>
+                {Math.abs(total.delta) < 0.005
+                  ? "Both cost the same."
+                  : `B costs ${formatCost(Math.abs(total.delta))} ${total.delta > 0 ? "more" : "less"}.`}
+              </span>
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Component</TableHead>
+                  <TableHead className="text-right">A</TableHead>
+                  <TableHead className="text-right">B</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deltas.map((d) => (
+                  <TableRow key={d.key} className={d.key === "total" ? "font-medium" : undefined}>
+                    <TableCell>{d.label}</TableCell>
+                    <TableCell className="text-right">{formatCost(d.a)}</TableCell>
+                    <TableCell className="text-right">{formatCost(d.b)}</TableCell>
+                    <TableCell className={`text-right text-xs ${deltaClass(d.delta)}`}>{formatDelta(d.delta, d.a)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <BreakdownComparisonChart deltas={deltas} labelA={labelA} labelB={labelB} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Parameter Differences</CardTitle>
+          <CardDescription className="text-sm">
+            Inputs that differ between the two configurations.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {differences.length === 0 ? (
+            <p className="text-muted-foreground text-sm">Both configurations use the same inputs.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Parameter</TableHead>
+                  <TableHead>A</TableHead>
+                  <TableHead>B</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {differences.map((d) => (
+                  <TableRow key={d.key}>
+                    <TableCell className="font-medium">{d.label}</TableCell>
+                    <TableCell className="text-xs whitespace-normal">{d.a}</TableCell>
+                    <TableCell className="text-xs whitespace-normal">{d.b}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {overlay.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>Sensitivity</CardTitle>
+                <CardDescription className="text-sm">
+                  Cheapest cost of each configuration as one parameter varies. Dots mark each side's current value.
+                </CardDescription>
+              </div>
+              <Select value={sensitivityParam} onValueChange={(v) => setSensitivityParam(v as SensitivityParamKey)}>
+                <SelectTrigger className="h-8 text-xs w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRESET_FIELDS.map((field) => (
+                    <SelectItem key={field} value={field} className="text-xs">{fieldLabels[field].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <SensitivityOverlayChart
+              data={overlay}
+              sensitivityParam={sensitivityParam}
+              paramLabel={fieldLabels[sensitivityParam].label}
+              labelA={labelA}
+              labelB={labelB}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
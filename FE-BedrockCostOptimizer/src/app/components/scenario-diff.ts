@@ -0,0 +1,220 @@
+import { INFERENCE_PROFILES, type GuardrailPolicy, type PricingData } from "./pricing-data";
+import {
+  CHART_COLORS, GUARDRAIL_POLICIES, GUARDRAIL_DIRECTION_LABELS,
+  computeParamSensitivity, formatParamLabel,
+  type CostBreakdown, type SensitivityParamKey,
+} from "./simulator-engine";
+import { ARRIVAL_PATTERNS } from "./cache-timeline";
+import { getTemplate } from "./template-data";
+import type { ScenarioEvaluation, SimulatorScenario } from "./simulator-scenario";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ComparedParameter = Exclude<keyof SimulatorScenario, "customTemplate" | "sensitivityParam" | "inputMode">;
+
+export interface ParameterDifference {
+  key: ComparedParameter;
+  label: string;
+  a: string;
+  b: string;
+}
+
+export type BreakdownComponent = Exclude<keyof CostBreakdown, "total"> | "embedding" | "speech" | "summarizationCalls";
+
+export interface BreakdownDelta {
+  key: BreakdownComponent | "total";
+  label: string;
+  a: number;
+  b: number;
+  delta: number;
+}
+
+export interface SensitivityOverlayPoint {
+  value: number;
+  label: string;
+  // Cheapest strategy's cost for each side; null where only the other side was sampled.
+  a: number | null;
+  b: number | null;
+  currentA: boolean;
+  currentB: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const SIDE_COLORS = { a: CHART_COLORS.cachePrefix, b: CHART_COLORS.noCaching } as const;
+
+// Sensitivity axis and input mode only change how the simulator displays a
+// scenario, and a custom template's content is covered by the template row.
+const PARAMETER_LABELS: Record<ComparedParameter, string> = {
+  template: "Template",
+  modelId: "Model",
+  regionId: "Region",
+  inferenceProfile: "Inference profile",
+  pricingTier: "Pricing tier",
+  batchEnabled: "Batch inference",
+  students: "Students",
+  reqsPerStudent: "Requests per student",
+  sysTokens: "System prompt tokens",
+  ctxTokens: "Context tokens",
+  subTokens: "Submission tokens",
+  instTokens: "Instruction tokens",
+  outputTokens: "Output tokens",
+  cacheTTL: "Cache TTL",
+  cacheCheckpoints: "Cache checkpoints",
+  guardrailsEnabled: "Guardrails",
+  guardrailPolicies: "Guardrail policies",
+  thinkingEnabled: "Extended thinking",
+  reasoningBudget: "Reasoning budget",
+  summarizationEnabled: "History summarization",
+  summarySize: "Summary size",
+  expirySimEnabled: "Cache expiry simulation",
+  arrivalPattern: "Arrival pattern",
+  sectionsEnabled: "Class sections",
+  sections: "Sections",
+  vision: "Images",
+  tools: "Tools",
+  retrieval: "Retrieval",
+  embeddingModelId: "Embedding model",
+  speech: "Speech",
+  speechModelId: "Speech model",
+};
+
+const BREAKDOWN_LABELS: Record<BreakdownComponent, string> = {
+  cacheWrite: "Cache write",
+  cacheRead: "Cache read",
+  freshInput: "Fresh input",
+  output: "Output",
+  reasoning: "Reasoning",
+  embedding: "Embedding",
+  speech: "Speech audio",
+  summarizationCalls: "Summarization calls",
+  guardrails: "Guardrails",
+};
+
+// ---------------------------------------------------------------------------
+// Parameters
+// ---------------------------------------------------------------------------
+
+function formatParameter(key: ComparedParameter, scenario: SimulatorScenario, pricingData: PricingData): string {
+  const onOff = (on: boolean) => (on ? "On" : "Off");
+  switch (key) {
+    case "template":
+      return getTemplate(scenario.template, scenario.customTemplate ? { [scenario.template]: scenario.customTemplate } : {}).label;
+    case "modelId":
+      return pricingData.models.find((m) => m.id === scenario.modelId)?.name ?? scenario.modelId;
+    case "regionId":
+      return pricingData.regions.find((r) => r.id === scenario.regionId)?.name ?? scenario.regionId;
+    case "embeddingModelId":
+      return pricingData.embedding_models.find((m) => m.id === scenario.embeddingModelId)?.name ?? scenario.embeddingModelId;
+    case "speechModelId":
+      return pricingData.speech_models.find((m) => m.id === scenario.speechModelId)?.name ?? scenario.speechModelId;
+    case "inferenceProfile":
+      return INFERENCE_PROFILES[scenario.inferenceProfile].label;
+    case "pricingTier":
+      return scenario.pricingTier[0].toUpperCase() + scenario.pricingTier.slice(1);
+    case "batchEnabled":
+    case "guardrailsEnabled":
+    case "thinkingEnabled":
+    case "summarizationEnabled":
+    case "expirySimEnabled":
+    case "sectionsEnabled":
+      return onOff(scenario[key]);
+    case "cacheTTL":
+      return scenario.cacheTTL === "1hour" ? "1 hour" : "5 minutes";
+    case "cacheCheckpoints":
+      return scenario.cacheCheckpoints.join(", ") || "None";
+    case "guardrailPolicies":
+      return Object.entries(scenario.guardrailPolicies)
+        .map(([policy, direction]) => `${GUARDRAIL_POLICIES[policy as GuardrailPolicy].label} (${GUARDRAIL_DIRECTION_LABELS[direction]})`)
+        .join(", ") || "None";
+    case "arrivalPattern":
+      return ARRIVAL_PATTERNS[scenario.arrivalPattern].label;
+    case "sections":
+      return scenario.sections.map((s) => `${s.name || "Section"}: ${s.students}`).join(", ");
+    case "vision": {
+      const { kind, perRequest, shared, width, height } = scenario.vision;
+      const unit = kind === "pdf-page" ? "PDF pages" : `images (${width} × ${height})`;
+      return `${perRequest} per request, ${shared} shared ${unit}`;
+    }
+    case "tools":
+      return `${scenario.tools.toolCount} tools, ${scenario.tools.callsPerTurn} calls per turn`;
+    case "retrieval":
+      return scenario.retrieval
+        ? `Top ${scenario.retrieval.topK} × ${scenario.retrieval.chunkTokens.toLocaleString()} tokens, ${scenario.retrieval.reindexCount} re-indexes`
+        : "Off";
+    case "speech":
+      return scenario.speech
+        ? `${scenario.speech.sessionMinutes} min, ${Math.round(scenario.speech.talkRatio * 100)}% student speech`
+        : "Off";
+    default:
+      return scenario[key].toLocaleString();
+  }
+}
+
+// Every input that differs between the two scenarios, formatted for display.
+export function diffScenarios(a: SimulatorScenario, b: SimulatorScenario, pricingData: PricingData): ParameterDifference[] {
+  return (Object.keys(PARAMETER_LABELS) as ComparedParameter[])
+    .filter((key) => JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+    .map((key) => ({
+      key,
+      label: PARAMETER_LABELS[key],
+      a: formatParameter(key, a, pricingData),
+      b: formatParameter(key, b, pricingData),
+    }));
+}
+
+// ---------------------------------------------------------------------------
+// Costs
+// ---------------------------------------------------------------------------
+
+// Components either side actually pays for, followed by the total.
+export function diffBreakdowns(a: CostBreakdown, b: CostBreakdown): BreakdownDelta[] {
+  const part = (breakdown: CostBreakdown, key: BreakdownComponent) =>
+    key in breakdown ? (breakdown as unknown as Record<string, number>)[key] : 0;
+  const rows: BreakdownDelta[] = (Object.keys(BREAKDOWN_LABELS) as BreakdownComponent[])
+    .map((key) => ({ key, label: BREAKDOWN_LABELS[key], a: part(a, key), b: part(b, key), delta: part(b, key) - part(a, key) }))
+    .filter((row) => row.a > 0 || row.b > 0);
+  return [...rows, { key: "total", label: "Total", a: a.total, b: b.total, delta: b.total - a.total }];
+}
+
+// Cheapest-strategy cost of each side as one parameter sweeps its range. Each
+// side is swept around its own current value, so the sample points are merged.
+export function overlaySensitivity(
+  a: ScenarioEvaluation,
+  b: ScenarioEvaluation,
+  param: SensitivityParamKey
+): SensitivityOverlayPoint[] {
+  const sweep = (evaluation: ScenarioEvaluation) => {
+    const strategies = evaluation.results.map((r) => r.strategy);
+    return computeParamSensitivity(evaluation.input, param, strategies).map((point) => ({
+      value: point.value,
+      cost: Math.min(...strategies.map((s) => point[s.label] as number)),
+      isCurrent: point.isCurrent,
+    }));
+  };
+
+  const byValue = new Map<number, SensitivityOverlayPoint>();
+  const pointAt = (value: number) => {
+    let point = byValue.get(value);
+    if (!point) {
+      point = { value, label: formatParamLabel(param, value), a: null, b: null, currentA: false, currentB: false };
+      byValue.set(value, point);
+    }
+    return point;
+  };
+  for (const { value, cost, isCurrent } of sweep(a)) {
+    const point = pointAt(value);
+    point.a = cost;
+    point.currentA = isCurrent;
+  }
+  for (const { value, cost, isCurrent } of sweep(b)) {
+    const point = pointAt(value);
+    point.b = cost;
+    point.currentB = isCurrent;
+  }
+  return [...byValue.values()].sort((x, y) => x.value - y.value);
+}
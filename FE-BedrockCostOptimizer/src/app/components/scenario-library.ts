@@ -0,0 +1,160 @@
+import type { PricingData } from "./pricing-data";
+import type { StrategyResult } from "./simulator-engine";
+import { getTemplate } from "./template-data";
+import { evaluateScenario, validateScenario, type SimulatorScenario } from "./simulator-scenario";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+// A named snapshot of the simulator and what it cost when it was saved.
+export interface SavedScenario {
+  id: string;
+  name: string;
+  tags: string[];
+  savedAt: string;
+  scenario: SimulatorScenario;
+  original: {
+    total: number;
+    strategyKey: string;
+    strategyLabel: string;
+    modelName: string;
+    // pricing.json's last_updated at save time.
+    pricingUpdated: string;
+    // Every strategy compared at save time, cheapest first.
+    results: SavedStrategyResult[];
+  };
+}
+
+export interface SavedStrategyResult {
+  strategyKey: string;
+  strategyLabel: string;
+  total: number;
+}
+
+export interface ScenarioComparison {
+  saved: SavedScenario;
+  templateLabel: string;
+  // Null when the saved model is no longer in the pricing data.
+  current: StrategyResult | null;
+  delta: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DB_NAME = "bedrock-optimizer";
+const DB_VERSION = 1;
+const STORE = "scenarios";
+
+// ---------------------------------------------------------------------------
+// IndexedDB
+// ---------------------------------------------------------------------------
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Records whose scenario no longer validates, e.g. after a format change, are skipped.
+export async function listScenarios(): Promise<SavedScenario[]> {
+  const records = await withStore<SavedScenario[]>("readonly", (store) => store.getAll());
+  return records
+    .filter((r) => validateScenario(r.scenario).ok)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+export async function putScenario(saved: SavedScenario): Promise<void> {
+  await withStore("readwrite", (store) => store.put(saved));
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+// crypto.randomUUID only exists in secure contexts; plain-HTTP hosts such as a
+// LAN dev server get a time-and-random id instead.
+function createScenarioId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// "proposal, Acme ,proposal" → ["proposal", "Acme"]
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(",").map((t) => t.trim()).filter(Boolean))];
+}
+
+// Priced with the same evaluation used for the later comparison, so the
+// difference reflects pricing changes only.
+export function createSavedScenario(
+  name: string,
+  tags: string[],
+  scenario: SimulatorScenario,
+  pricingData: PricingData
+): SavedScenario | null {
+  const { input, results, best } = evaluateScenario(scenario, pricingData);
+  if (!best) return null;
+  return {
+    id: createScenarioId(),
+    name,
+    tags,
+    savedAt: new Date().toISOString(),
+    scenario,
+    original: {
+      total: best.breakdown.total,
+      strategyKey: best.strategy.key,
+      strategyLabel: best.strategy.label,
+      modelName: input.model.name,
+      pricingUpdated: pricingData.metadata.last_updated,
+      results: results.map((r) => ({ strategyKey: r.strategy.key, strategyLabel: r.strategy.label, total: r.breakdown.total })),
+    },
+  };
+}
+
+export function duplicateScenario(saved: SavedScenario): SavedScenario {
+  return {
+    ...saved,
+    id: createScenarioId(),
+    name: `${saved.name} (copy)`,
+    savedAt: new Date().toISOString(),
+  };
+}
+
+export function compareWithCurrentPricing(saved: SavedScenario, pricingData: PricingData): ScenarioComparison {
+  const { scenario } = saved;
+  const templateLabel = getTemplate(
+    scenario.template,
+    scenario.customTemplate ? { [scenario.template]: scenario.customTemplate } : {}
+  ).label;
+  if (!pricingData.models.some((m) => m.id === scenario.modelId)) {
+    return { saved, templateLabel, current: null, delta: null };
+  }
+  const current = evaluateScenario(scenario, pricingData).best;
+  return { saved, templateLabel, current, delta: current ? current.breakdown.total - saved.original.total : null };
+}
@@ -4,29 +4,26 @@ import { Label } from "./ui/label";
 import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from "./ui/select";
-import { getPricingData, type BedrockModel } from "./pricing-data";
+import { getPricingData, DEFAULT_SPEECH_MODEL, type BedrockModel } from "./pricing-data";
 import { PromptVisualizer } from "./prompt-visualizer";
 import {
-  type TemplateKey, type CacheTTL, type SensitivityParamKey,
-  TEMPLATES, CHART_COLORS, SENSITIVITY_SAMPLE_POINTS, STRATEGY_TIEBREAK,
-  WORDS_PER_TOKEN, TOKENS_PER_WORD,
-  formatCost, formatParamLabel,
-  computeStrategyA, computeStrategyB, computeNoCaching, computeBatch,
-  computeTokensPerExchange, computeHistoryAtTurn,
-  getEffectiveInstTokens, getEffectiveSubTokens, computeSubTokensAtTurn,
-  simulateSummarization,
-  computeSumNoCaching, computeSumCacheAssessment, computeSumCacheSummary,
-  computeGuardrailsCost,
+  type BuiltInTemplateKey, type CacheTTL, type SensitivityParamKey,
+  type SimulationInput, type StrategyContext,
+  DEFAULT_CACHE_CHECKPOINTS, DEFAULT_VISION_INPUT, DEFAULT_TOOL_CONFIG, WORDS_PER_TOKEN, TOKENS_PER_WORD,
+  computeTokensPerExchange, computeHistoryAtTurn, computeSubTokensAtTurn,
+  simulateSummarization, getSpeechTranscriptTokens,
+  getStrategies, runStrategies, rankStrategyResults, estimateLatency, computeParamSensitivity, findCrossovers,
 } from "./simulator-engine";
-import { CostComparisonBarChart, type BarChartDatum } from "./charts/CostComparisonBarChart";
-import { ParameterSensitivityChart, type ParamSensitivityDatum } from "./charts/ParameterSensitivityChart";
+import { getTemplate } from "./template-data";
+import { CostComparisonBarChart, toBarChartDatum } from "./charts/CostComparisonBarChart";
+import { ParameterSensitivityChart } from "./charts/ParameterSensitivityChart";
 import { PerTurnCostChart, type PerTurnDatum } from "./charts/PerTurnCostChart";
 import { CostSummaryCards, type StrategyCardData } from "./charts/CostSummaryCards";
 
 type ShowPanel = "prompt-visualizer" | "cards" | "bar" | "sensitivity" | "per-turn";
 
 interface SimulatorEmbedProps {
-  template: TemplateKey;
+  template: BuiltInTemplateKey;
   show: ShowPanel[];
   hideBatch?: boolean;
 }
@@ -35,7 +32,7 @@ const PREFERRED_DEFAULT_MODEL = "anthropic.claude-sonnet-4-6-20260115-v1:0";
 
 export function SimulatorEmbed({ template, show, hideBatch = false }: SimulatorEmbedProps) {
   const pricingData = getPricingData();
-  const meta = TEMPLATES[template];
+  const meta = getTemplate(template);
   const preset = meta.preset;
 
   const cachingModels = useMemo(
@@ -53,9 +50,12 @@ export function SimulatorEmbed({ template, show, hideBatch = false }: SimulatorE
   const [reqsPerStudent, setReqsPerStudent] = useState(preset.reqsPerStudent);
   const [sysTokens] = useState(preset.sysTokens);
   const [ctxTokens, setCtxTokens] = useState(preset.ctxTokens);
-  const [subTokens] = useState(preset.subTokens);
   const [instTokens, setInstTokens] = useState(preset.instTokens);
-  const [outputTokens] = useState(preset.outputTokens);
+  // Spoken templates derive each turn's transcript from the session length.
+  const transcript = meta.speech ? getSpeechTranscriptTokens(meta.speech, reqsPerStudent) : null;
+  const subTokens = transcript?.student ?? preset.subTokens;
+  const outputTokens = transcript?.ai ?? preset.outputTokens;
+  const speechModel = pricingData.speech_models.find((m) => m.id === DEFAULT_SPEECH_MODEL) ?? null;
 
   const selectedModel: BedrockModel = useMemo(
     () => pricingData.models.find((m) => m.id === selectedModelId) ?? pricingData.models[0],
@@ -74,295 +74,64 @@ export function SimulatorEmbed({ template, show, hideBatch = false }: SimulatorE
   const summarySize = meta.defaultSummarySize;
   const sensitivityParam: SensitivityParamKey = meta.defaultSensitivityParam;
 
-  const effectiveInstTokens = getEffectiveInstTokens(instTokens, reqsPerStudent, outputTokens, isConversational);
-  const effectiveSubTokens = useMemo(
-    () => getEffectiveSubTokens(subTokens, reqsPerStudent, isProgressiveSubmission),
-    [subTokens, reqsPerStudent, isProgressiveSubmission]
-  );
-
-  const displayMode = isConversational ? "caching-insights" as const : "strategy-comparison" as const;
+  const displayMode = meta.displayMode;
+  const isSumMode = summarizationEnabled && isConversational;
+
+  const simulationInput = useMemo((): SimulationInput => ({
+    model: selectedModel,
+    students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens,
+    tierMultiplier,
+    cacheTTL: effectiveCacheTTL,
+    submissionCacheable,
+    conversational: isConversational,
+    progressiveSubmission: isProgressiveSubmission,
+    summarySize,
+    guardrails: null,
+    cacheCheckpoints: DEFAULT_CACHE_CHECKPOINTS,
+    cacheWrites: null,
+    vision: DEFAULT_VISION_INPUT,
+    tools: DEFAULT_TOOL_CONFIG,
+    reasoningTokens: 0,
+    retrieval: meta.retrieval,
+    speech: meta.speech,
+    speechModel,
+  }), [selectedModel, students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens, tierMultiplier, effectiveCacheTTL, submissionCacheable, isConversational, isProgressiveSubmission, summarySize, meta.retrieval, meta.speech, speechModel]);
+
+  const strategyContext = useMemo((): StrategyContext => ({
+    supportsCaching,
+    batchIncluded: supportsBatch,
+    retrievalEnabled: meta.retrieval != null,
+    speechEnabled: meta.speech != null && speechModel != null,
+    displayMode,
+  }), [supportsCaching, supportsBatch, meta, speechModel, displayMode]);
 
   // --- Cost calculations ---
-  const results = useMemo(() => {
-    const noCaching = computeNoCaching(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, effectiveInstTokens, outputTokens, tierMultiplier
-    );
-
-    let batch: typeof noCaching | null = null;
-    if (supportsBatch && !isConversational) {
-      batch = computeBatch(
-        selectedModel, students, reqsPerStudent,
-        sysTokens, ctxTokens, effectiveSubTokens, effectiveInstTokens, outputTokens, tierMultiplier
-      );
-    }
+  const standardStrategies = useMemo(() => getStrategies("standard", strategyContext), [strategyContext]);
+  const sumStrategyList = useMemo(() => getStrategies("summarization", strategyContext), [strategyContext]);
+  const activeStrategies = isSumMode ? sumStrategyList : standardStrategies;
 
-    if (!supportsCaching) {
-      return { noCaching, strategyA: null, strategyB: null, batch };
-    }
-
-    const strategyA = computeStrategyA(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, effectiveInstTokens, outputTokens, tierMultiplier,
-      effectiveCacheTTL
-    );
-
-    const strategyB = computeStrategyB(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, effectiveInstTokens, outputTokens, tierMultiplier,
-      submissionCacheable, effectiveCacheTTL
-    );
-
-    return { noCaching, strategyA, strategyB, batch };
-  }, [selectedModel, students, reqsPerStudent, sysTokens, ctxTokens, effectiveSubTokens, effectiveInstTokens, outputTokens, supportsCaching, supportsBatch, effectiveCacheTTL, submissionCacheable, isConversational, tierMultiplier]);
-
-  // --- Winner ---
-  type WinnerKey = "noCaching" | "A" | "B" | "batch";
-  const { winner } = useMemo(() => {
-    const candidates: { key: WinnerKey; total: number }[] = [
-      { key: "noCaching", total: results.noCaching.total },
-    ];
-    if (results.strategyA) candidates.push({ key: "A", total: results.strategyA.total });
-    if (results.strategyB) candidates.push({ key: "B", total: results.strategyB.total });
-    if (results.batch) candidates.push({ key: "batch", total: results.batch.total });
-    candidates.sort((a, b) => a.total - b.total);
-    return { winner: candidates[0].key };
-  }, [results]);
-
-  // --- Summarization strategies (for conversational templates with summarization) ---
-  const sumStrategies = useMemo(() => {
-    if (!isConversational || !summarizationEnabled) return null;
-    const noCaching = computeSumNoCaching(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens,
-      summarySize, tierMultiplier
-    );
-    const cacheAssessment = supportsCaching ? computeSumCacheAssessment(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens,
-      summarySize, tierMultiplier, effectiveCacheTTL
-    ) : null;
-    const cacheSummary = supportsCaching ? computeSumCacheSummary(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens,
-      summarySize, tierMultiplier, effectiveCacheTTL
-    ) : null;
-    return { noCaching, cacheAssessment, cacheSummary };
-  }, [isConversational, summarizationEnabled, selectedModel, students, reqsPerStudent, sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens, summarySize, tierMultiplier, effectiveCacheTTL, supportsCaching]);
+  const results = useMemo(
+    () => runStrategies(simulationInput, activeStrategies),
+    [simulationInput, activeStrategies]
+  );
+  const winnerKey = useMemo(() => rankStrategyResults(results)[0]?.strategy.key ?? null, [results]);
 
   // --- Bar chart data ---
-  const chartData = useMemo((): BarChartDatum[] => {
-    const data: BarChartDatum[] = [];
-    data.push({
-      name: "No Caching",
-      "Cache Write": 0, "Cache Read": 0,
-      "Fresh Input": results.noCaching.freshInput,
-      Output: results.noCaching.output,
-      Guardrails: 0,
-    });
-    if (results.strategyA) {
-      data.push({
-        name: displayMode === "strategy-comparison" ? "Per-Assignment" : "With Caching",
-        "Cache Write": results.strategyA.cacheWrite,
-        "Cache Read": results.strategyA.cacheRead,
-        "Fresh Input": results.strategyA.freshInput,
-        Output: results.strategyA.output,
-        Guardrails: 0,
-      });
-    }
-    if (results.strategyB && displayMode === "strategy-comparison") {
-      data.push({
-        name: "Per-Submission",
-        "Cache Write": results.strategyB.cacheWrite,
-        "Cache Read": results.strategyB.cacheRead,
-        "Fresh Input": results.strategyB.freshInput,
-        Output: results.strategyB.output,
-        Guardrails: 0,
-      });
-    }
-    if (results.batch) {
-      data.push({
-        name: "Batch",
-        "Cache Write": 0, "Cache Read": 0,
-        "Fresh Input": results.batch.freshInput,
-        Output: results.batch.output,
-        Guardrails: 0,
-      });
-    }
-    return data;
-  }, [results, displayMode]);
+  const chartData = useMemo(
+    () => runStrategies(simulationInput, standardStrategies)
+      .map((r) => toBarChartDatum(
+        displayMode === "caching-insights" && r.strategy.kind === "cache" ? "With Caching" : r.strategy.shortLabel,
+        r.breakdown
+      )),
+    [simulationInput, standardStrategies, displayMode]
+  );
 
   // --- Parameter sensitivity data ---
-  const paramSensitivityData = useMemo((): ParamSensitivityDatum[] => {
-    if (!supportsCaching) return [];
-    const range = SENSITIVITY_SAMPLE_POINTS[sensitivityParam];
-    const min = range[0];
-    const max = range[range.length - 1];
-    const numPoints = 40;
-    const step = (max - min) / (numPoints - 1);
-    const samplePoints: number[] = [];
-    for (let i = 0; i < numPoints; i++) {
-      samplePoints.push(Math.round(min + step * i));
-    }
-    const currentValue: number = { students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens }[sensitivityParam];
-    if (!samplePoints.includes(currentValue)) {
-      samplePoints.push(currentValue);
-      samplePoints.sort((a, b) => a - b);
-    }
-
-    const isSumMode = summarizationEnabled && isConversational;
-
-    const rawData: ParamSensitivityDatum[] = samplePoints.map((val) => {
-      const args = {
-        students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens,
-        [sensitivityParam]: val,
-      };
-      const effInst = getEffectiveInstTokens(args.instTokens, args.reqsPerStudent, args.outputTokens, isConversational);
-      const effSub = getEffectiveSubTokens(args.subTokens, args.reqsPerStudent, isProgressiveSubmission);
-      const adjustedTotalReqs = args.students * args.reqsPerStudent;
-      const gr = computeGuardrailsCost(adjustedTotalReqs, effSub, args.outputTokens) * 0;
-
-      const noCachingR = computeNoCaching(
-        selectedModel, args.students, args.reqsPerStudent,
-        args.sysTokens, args.ctxTokens, effSub, effInst, args.outputTokens, tierMultiplier
-      );
-      const stratA = computeStrategyA(
-        selectedModel, args.students, args.reqsPerStudent,
-        args.sysTokens, args.ctxTokens, effSub, effInst, args.outputTokens, tierMultiplier, effectiveCacheTTL
-      );
-
-      const point: Record<string, number | string | boolean> = {
-        value: val,
-        label: formatParamLabel(sensitivityParam, val),
-        isCurrent: val === currentValue,
-      };
-
-      if (isSumMode) {
-        const sumNone = computeSumNoCaching(
-          selectedModel, args.students, args.reqsPerStudent,
-          args.sysTokens, args.ctxTokens, effSub, args.instTokens, args.outputTokens,
-          summarySize, tierMultiplier
-        );
-        const sumPrefix = computeSumCacheAssessment(
-          selectedModel, args.students, args.reqsPerStudent,
-          args.sysTokens, args.ctxTokens, effSub, args.instTokens, args.outputTokens,
-          summarySize, tierMultiplier, effectiveCacheTTL
-        );
-        const sumFull = computeSumCacheSummary(
-          selectedModel, args.students, args.reqsPerStudent,
-          args.sysTokens, args.ctxTokens, effSub, args.instTokens, args.outputTokens,
-          summarySize, tierMultiplier, effectiveCacheTTL
-        );
-        point["Chat Sum. — No Cache"] = sumNone.total + gr;
-        point["Chat Sum. — Cache Prefix"] = sumPrefix.total + gr;
-        point["Chat Sum. — Cache in Prefix"] = sumFull.total + gr;
-      } else {
-        point["No Caching"] = noCachingR.total + gr;
-        point["Per-Assignment Cache"] = stratA.total + gr;
-      }
-
-      if (displayMode === "strategy-comparison") {
-        const stratB = computeStrategyB(
-          selectedModel, args.students, args.reqsPerStudent,
-          args.sysTokens, args.ctxTokens, effSub, effInst, args.outputTokens,
-          tierMultiplier, submissionCacheable, effectiveCacheTTL
-        );
-        point["Per-Submission Cache"] = stratB.total + gr;
-
-        if (supportsBatch) {
-          const batchR = computeBatch(
-            selectedModel, args.students, args.reqsPerStudent,
-            args.sysTokens, args.ctxTokens, effSub, effInst, args.outputTokens, tierMultiplier
-          );
-          point["Batch Inference"] = batchR.total + gr;
-        }
-      }
-
-      const costKeys = isSumMode
-        ? ["Chat Sum. — No Cache", "Chat Sum. — Cache Prefix", "Chat Sum. — Cache in Prefix"]
-        : ["No Caching", "Per-Assignment Cache"];
-      const costs: [string, number][] = costKeys
-        .filter((k) => point[k] != null)
-        .map((k) => [k, point[k] as number]);
-      if (point["Per-Submission Cache"] != null) costs.push(["Per-Submission Cache", point["Per-Submission Cache"] as number]);
-      if (point["Batch Inference"] != null) costs.push(["Batch Inference", point["Batch Inference"] as number]);
-      costs.sort((a, b) => a[1] - b[1] || (STRATEGY_TIEBREAK[a[0]] ?? 99) - (STRATEGY_TIEBREAK[b[0]] ?? 99));
-      point.winner = costs[0]?.[0] ?? "";
-      const colorMap: Record<string, string> = {
-        "No Caching": CHART_COLORS.noCaching,
-        "Per-Assignment Cache": CHART_COLORS.cachePrefix,
-        "Per-Submission Cache": CHART_COLORS.cacheSubmission,
-        "Batch Inference": CHART_COLORS.batch,
-        "Chat Sum. — No Cache": CHART_COLORS.noCaching,
-        "Chat Sum. — Cache Prefix": CHART_COLORS.cachePrefix,
-        "Chat Sum. — Cache in Prefix": CHART_COLORS.batch,
-      };
-      point.winnerColor = colorMap[costs[0]?.[0] ?? ""] ?? "#999";
-
-      return point as unknown as ParamSensitivityDatum;
-    });
-
-    // Stabilize winner through near-ties
-    const stabKeys = isSumMode
-      ? ["Chat Sum. — No Cache", "Chat Sum. — Cache Prefix", "Chat Sum. — Cache in Prefix"]
-      : ["No Caching", "Per-Assignment Cache"];
-    let ri = 0;
-    while (ri < rawData.length) {
-      const pt = rawData[ri] as unknown as Record<string, number | string | boolean>;
-      const allKeys = [...stabKeys];
-      if (pt["Per-Submission Cache"] != null) allKeys.push("Per-Submission Cache");
-      if (pt["Batch Inference"] != null) allKeys.push("Batch Inference");
-      const sorted = allKeys
-        .filter(k => pt[k] != null)
-        .map(k => pt[k] as number)
-        .sort((a, b) => a - b);
-      const gap = sorted.length >= 2 ? sorted[1] - sorted[0] : Infinity;
-      if (gap < 0.005) {
-        let rj = ri + 1;
-        while (rj < rawData.length) {
-          const p2 = rawData[rj] as unknown as Record<string, number | string | boolean>;
-          const s2 = allKeys
-            .filter(k => p2[k] != null)
-            .map(k => p2[k] as number)
-            .sort((a, b) => a - b);
-          if (s2.length < 2 || s2[1] - s2[0] >= 0.005) break;
-          rj++;
-        }
-        const resolved = rawData[rj < rawData.length ? rj : rawData.length - 1];
-        for (let k = ri; k < rj; k++) {
-          rawData[k].winner = resolved.winner;
-          rawData[k].winnerColor = resolved.winnerColor;
-        }
-        ri = rj;
-      } else {
-        ri++;
-      }
-    }
-    return rawData;
-  }, [supportsCaching, sensitivityParam, selectedModel, students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens, tierMultiplier, effectiveCacheTTL, submissionCacheable, supportsBatch, isConversational, isProgressiveSubmission, displayMode, summarizationEnabled, summarySize]);
-
-  const paramCrossoverLabels = useMemo(() => {
-    const crossovers: number[] = [];
-    for (let i = 0; i < paramSensitivityData.length - 1; i++) {
-      if (paramSensitivityData[i].winner !== paramSensitivityData[i + 1].winner) {
-        crossovers.push(paramSensitivityData[i + 1].value);
-      }
-    }
-    return crossovers;
-  }, [paramSensitivityData]);
-
-  const sensitivityStrategies = useMemo(() => {
-    const isSumMode = summarizationEnabled && isConversational;
-    const strats: string[] = [];
-    if (isSumMode) {
-      strats.push("Chat Sum. — No Cache", "Chat Sum. — Cache Prefix", "Chat Sum. — Cache in Prefix");
-    } else {
-      strats.push("No Caching", "Per-Assignment Cache");
-      if (displayMode === "strategy-comparison") strats.push("Per-Submission Cache");
-      if (displayMode === "strategy-comparison" && supportsBatch) strats.push("Batch Inference");
-    }
-    return strats;
-  }, [summarizationEnabled, isConversational, displayMode, supportsBatch]);
+  const paramSensitivityData = useMemo(
+    () => supportsCaching ? computeParamSensitivity(simulationInput, sensitivityParam, activeStrategies) : [],
+    [supportsCaching, simulationInput, sensitivityParam, activeStrategies]
+  );
+  const paramCrossoverLabels = useMemo(() => findCrossovers(paramSensitivityData), [paramSensitivityData]);
 
   // --- Per-turn data ---
   const tokensPerExchange = computeTokensPerExchange(outputTokens);
@@ -443,36 +212,15 @@ export function SimulatorEmbed({ template, show, hideBatch = false }: SimulatorE
   }, [summarizationEnabled, supportsCaching]);
 
   // --- Strategy cards data ---
-  const strategyCards = useMemo((): StrategyCardData[] => {
-    if (summarizationEnabled && isConversational && sumStrategies) {
-      const cards: StrategyCardData[] = [
-        { key: "sumNoCaching", label: "Chat Sum. — No Cache", description: "Summarization without caching", breakdown: sumStrategies.noCaching, isWinner: false },
-      ];
-      if (sumStrategies.cacheAssessment) {
-        cards.push({ key: "sumCacheAssessment", label: "Chat Sum. — Cache Prefix", description: "Cache shared prefix, summary as fresh input", breakdown: sumStrategies.cacheAssessment, isWinner: false });
-      }
-      if (sumStrategies.cacheSummary) {
-        cards.push({ key: "sumCacheSummary", label: "Chat Sum. — Cache in Prefix", description: "Cache prefix + summary together", breakdown: sumStrategies.cacheSummary, isWinner: false });
-      }
-      const best = cards.reduce((a, b) => a.breakdown.total < b.breakdown.total ? a : b);
-      best.isWinner = true;
-      return cards;
-    }
-
-    const cards: StrategyCardData[] = [
-      { key: "noCaching", label: "No Caching", description: "On-demand baseline", breakdown: results.noCaching, isWinner: winner === "noCaching" },
-    ];
-    if (results.strategyA) {
-      cards.push({ key: "strategyA", label: "Per-Assignment Cache", description: "Caches shared context across students", breakdown: results.strategyA, isWinner: winner === "A" });
-    }
-    if (results.strategyB && displayMode === "strategy-comparison") {
-      cards.push({ key: "strategyB", label: "Per-Submission Cache", description: "Writes cache per student submission", breakdown: results.strategyB, isWinner: winner === "B" });
-    }
-    if (results.batch) {
-      cards.push({ key: "batch", label: "Batch Inference", description: "Async via S3, 50% off", breakdown: results.batch, isWinner: winner === "batch" });
-    }
-    return cards;
-  }, [results, winner, displayMode, summarizationEnabled, isConversational, sumStrategies]);
+  const strategyCards = useMemo((): StrategyCardData[] => results.map((r) => ({
+    key: r.strategy.key,
+    label: r.strategy.label,
+    description: r.strategy.description,
+    breakdown: r.breakdown,
+    isWinner: r.strategy.key === winnerKey,
+    note: r.strategy.note,
+    latency: estimateLatency(r.strategy, simulationInput, r.breakdown),
+  })), [results, winnerKey, simulationInput]);
 
   const showSet = new Set(show);
   const hasControls = showSet.has("cards") || showSet.has("bar") || showSet.has("sensitivity") || showSet.has("per-turn");
@@ -627,7 +375,7 @@ export function SimulatorEmbed({ template, show, hideBatch = false }: SimulatorE
               data={paramSensitivityData}
               sensitivityParam={sensitivityParam}
               paramLabel={meta.fieldLabels[sensitivityParam].label}
-              strategies={sensitivityStrategies}
+              strategies={activeStrategies}
               crossoverLabels={paramCrossoverLabels}
               compact
             />
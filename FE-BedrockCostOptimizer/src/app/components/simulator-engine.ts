@@ -1,15 +1,27 @@
-import type { BedrockModel } from "./pricing-data";
+import {
+  getEffectiveProfile, resolveModelPricing,
+  type BedrockModel, type GuardrailPolicy, type GuardrailRates, type InferenceProfile, type SpeechModel, type VisionTokenFormula,
+} from "./pricing-data";
 import type { SegmentLabels } from "./prompt-visualizer";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export type TemplateKey = "graf-simple" | "graf-literary" | "clarity-chat" | "clarity-chat-xl" | "interactive-ai";
+export type BuiltInTemplateKey = "graf-simple" | "graf-literary" | "clarity-chat" | "clarity-chat-xl" | "interactive-ai" | "rag-assistant" | "oral-interview";
+// User-defined templates are namespaced so they never collide with a built-in.
+export type CustomTemplateKey = `custom:${string}`;
+export type TemplateKey = BuiltInTemplateKey | CustomTemplateKey;
+export type CustomTemplates = Record<CustomTemplateKey, TemplateMeta>;
 export type CacheTTL = "5min" | "1hour";
 export type DisplayMode = "strategy-comparison" | "caching-insights";
 export type InputMode = "simple" | "technical";
 export type SensitivityParamKey = keyof TemplatePreset;
+export type PromptSegmentKey = keyof SegmentLabels;
+export type CacheScope = "assignment" | "student" | "request";
+export type VisionInputKind = "image" | "pdf-page";
+export type GuardrailDirection = "input" | "output" | "both";
+export type PricingTier = "standard" | "priority" | "flex";
 
 export interface TemplatePreset {
   students: number;
@@ -30,9 +42,15 @@ export interface TemplateMeta {
   conversational: boolean;
   progressiveSubmission: boolean;
   defaultSummarizationEnabled: boolean;
+  // Conversational templates show caching insights instead of comparing every strategy.
+  displayMode: DisplayMode;
   defaultSummarySize: number;
+  defaultReasoningBudget: number;
   defaultSensitivityParam: SensitivityParamKey;
   defaultCacheTTL: CacheTTL;
+  // Templates that can answer from a Knowledge Base instead of the full context.
+  retrieval: RetrievalConfig | null;
+  speech: SpeechSession | null;
   preset: TemplatePreset;
   fieldLabels: {
     students: { label: string };
@@ -46,11 +64,117 @@ export interface TemplateMeta {
   visualizerLabels: SegmentLabels;
 }
 
+export interface SimulationInput extends TemplatePreset {
+  model: BedrockModel;
+  tierMultiplier: number;
+  cacheTTL: CacheTTL;
+  submissionCacheable: boolean;
+  conversational: boolean;
+  progressiveSubmission: boolean;
+  summarySize: number;
+  // Null when Guardrails are off.
+  guardrails: GuardrailsConfig | null;
+  // Segments that are followed by a cache checkpoint (Bedrock cachePoint).
+  cacheCheckpoints: PromptSegmentKey[];
+  // Write counts from a cache expiry simulation; null assumes entries never expire.
+  cacheWrites: CacheWriteCounts | null;
+  vision: VisionInput;
+  tools: ToolConfig;
+  // Extended thinking tokens per request, billed at the output rate; 0 when thinking is off.
+  reasoningTokens: number;
+  retrieval: RetrievalConfig | null;
+  speech: SpeechSession | null;
+  speechModel: SpeechModel | null;
+}
+
+// The shared context doubles as the corpus: the full-context strategies send
+// all of it, retrieval embeds it and sends only the top-k chunks per request.
+export interface RetrievalConfig {
+  chunkTokens: number;
+  topK: number;
+  embeddingPrice1k: number;
+  // Full re-embeddings of the corpus over the simulated period.
+  reindexCount: number;
+}
+
+// Enabled policies, each with the side of the exchange it screens.
+export interface GuardrailsConfig {
+  policies: Partial<Record<GuardrailPolicy, GuardrailDirection>>;
+  rates: GuardrailRates;
+}
+
+export interface GuardrailPolicyMeta {
+  label: string;
+  description: string;
+  directions: GuardrailDirection[];
+}
+
+export interface GuardrailsCost {
+  byPolicy: Record<GuardrailPolicy, number>;
+  total: number;
+}
+
+// A spoken session is sized in minutes; the talk ratio is the student's share
+// of the speaking time. Turns split the session into exchanges.
+export interface SpeechSession {
+  sessionMinutes: number;
+  talkRatio: number;
+}
+
+// Images or PDF pages attached to the prompt. Shared ones sit in the cached
+// context prefix; per-request ones travel with the student's submission.
+export interface VisionInput {
+  kind: VisionInputKind;
+  perRequest: number;
+  shared: number;
+  width: number;
+  height: number;
+}
+
+export interface VisionTokens {
+  perItem: number;
+  perRequest: number;
+  shared: number;
+}
+
+// Tool definitions travel ahead of the system prompt on every call. A
+// structured-output schema is a single tool the model is forced to call once,
+// with no round trip.
+export interface ToolConfig {
+  toolCount: number;
+  schemaTokens: number;
+  callsPerTurn: number;
+  resultTokens: number;
+}
+
+export interface ToolOverhead {
+  definitionTokens: number;
+  // Extra model invocations per user request, one per tool call.
+  roundTrips: number;
+  // tool_use/tool_result tokens re-sent across a request's follow-up calls.
+  exchangeTokens: number;
+  callOutputTokens: number;
+}
+
+export interface CacheWriteCounts {
+  assignment: number;
+  student: number;
+}
+
+export interface CacheLayer {
+  segments: PromptSegmentKey[];
+  tokens: number;
+  scope: CacheScope;
+  writes: number;
+  reads: number;
+}
+
 export interface CostBreakdown {
   cacheWrite: number;
   cacheRead: number;
   freshInput: number;
   output: number;
+  reasoning: number;
   guardrails: number;
   total: number;
 }
@@ -59,6 +183,33 @@ export interface SumStrategyBreakdown extends CostBreakdown {
   summarizationCalls: number;
 }
 
+export interface RetrievalBreakdown extends CostBreakdown {
+  embedding: number;
+}
+
+export interface SpeechBreakdown extends CostBreakdown {
+  speech: number;
+}
+
+export interface BreakdownTokens {
+  freshInput: number;
+  cacheWrite: number;
+  cacheRead: number;
+  output: number;
+  reasoning: number;
+}
+
+export type LatencyMode = "interactive" | "realtime" | "async";
+
+export interface StrategyLatency {
+  mode: LatencyMode;
+  // Seconds from sending a turn to the complete response; null for async jobs.
+  turnSeconds: number | null;
+  // Wall-clock seconds until every student's requests are answered, with
+  // students working in parallel and each one's turns in sequence.
+  classSeconds: number;
+}
+
 export interface SummarizationSim {
   historyPerTurn: number[];
   summarizationTurns: number[];
@@ -86,207 +237,27 @@ export interface SummarizationCostResult {
 // Constants
 // ---------------------------------------------------------------------------
 
-export const TEMPLATES: Record<TemplateKey, TemplateMeta> = {
-  "graf-simple": {
-    label: "GRAF+ Simple",
-    shortLabel: "GRAF+",
-    description:
-      "GRAF+ Literary Analysis — template represents a typical example in David Adamson's demo for first-pass feedback.",
-    strategyNote: null,
-    submissionCacheable: true,
-    conversational: false,
-    progressiveSubmission: false,
-    defaultSummarizationEnabled: false,
-    defaultSummarySize: 500,
-    defaultSensitivityParam: "ctxTokens",
-    defaultCacheTTL: "5min",
-    preset: {
-      students: 30,
-      reqsPerStudent: 5,
-      sysTokens: 1000,
-      ctxTokens: 500,
-      subTokens: 2000,
-      instTokens: 200,
-      outputTokens: 500,
-    },
-    fieldLabels: {
-      students: { label: "Class Size (Students)" },
-      reqsPerStudent: { label: "Requests per Student" },
-      sysTokens: { label: "System Prompt", tooltip: "The shared system instructions sent with every request." },
-      ctxTokens: { label: "Shared Context (Book/Rubric)", tooltip: "Reference material shared across all students (e.g., the book or grading rubric)." },
-      subTokens: { label: "Student Submission", tooltip: "The unique essay text for each student." },
-      instTokens: { label: "Variable Instruction", tooltip: "The specific grading command for each turn." },
-      outputTokens: { label: "Expected Output", tooltip: "Estimated output tokens per response." },
-    },
-    visualizerLabels: {
-      system: "System Prompt",
-      context: "Context/Rubric",
-      submission: "Submission",
-      instruction: "Instruction",
-    },
-  },
-  "graf-literary": {
-    label: "GRAF+ w/ Context",
-    shortLabel: "GRAF+ w/ Context",
-    description:
-      "GRAF+ Literary Analysis with full source text attached — represents a use case where the entire text of an average novel (e.g., The Great Gatsby, ~60K tokens) is included as shared context for assessment-level grading.",
-    strategyNote: null,
-    submissionCacheable: true,
-    conversational: false,
-    progressiveSubmission: false,
-    defaultSummarizationEnabled: false,
-    defaultSummarySize: 500,
-    defaultSensitivityParam: "ctxTokens",
-    defaultCacheTTL: "5min",
-    preset: {
-      students: 30,
-      reqsPerStudent: 5,
-      sysTokens: 1000,
-      ctxTokens: 60000,
-      subTokens: 2000,
-      instTokens: 200,
-      outputTokens: 500,
-    },
-    fieldLabels: {
-      students: { label: "Class Size (Students)" },
-      reqsPerStudent: { label: "Requests per Student" },
-      sysTokens: { label: "System Prompt", tooltip: "The shared system instructions sent with every request." },
-      ctxTokens: { label: "Shared Context (Full Text)", tooltip: "The entire source text shared across all students (e.g., The Great Gatsby, ~60K tokens)." },
-      subTokens: { label: "Student Submission", tooltip: "The unique essay text for each student." },
-      instTokens: { label: "Variable Instruction", tooltip: "The specific grading command for each turn." },
-      outputTokens: { label: "Expected Output", tooltip: "Estimated output tokens per response." },
-    },
-    visualizerLabels: {
-      system: "System Prompt",
-      context: "Full Text Context",
-      submission: "Submission",
-      instruction: "Instruction",
-    },
-  },
-  "clarity-chat": {
-    label: "Clarity Chat",
-    shortLabel: "Clarity",
-    description:
-      "Simulate a writing-assistant chatbot workload and explore caching optimization levers.",
-    strategyNote: null,
-    submissionCacheable: false,
-    conversational: true,
-    progressiveSubmission: true,
-    defaultSummarizationEnabled: false,
-    defaultSummarySize: 500,
-    defaultSensitivityParam: "ctxTokens",
-    defaultCacheTTL: "1hour",
-    preset: {
-      students: 30,
-      reqsPerStudent: 12,
-      sysTokens: 1000,
-      ctxTokens: 1000,
-      subTokens: 2000,
-      instTokens: 2000,
-      outputTokens: 400,
-    },
-    fieldLabels: {
-      students: { label: "Class Size (Students)" },
-      reqsPerStudent: { label: "Messages per Student" },
-      sysTokens: { label: "System Prompt", tooltip: "Writing assistant instructions and persona." },
-      ctxTokens: { label: "Assignment Context", tooltip: "Assignment description, rubric, and reference materials (cacheable)." },
-      subTokens: { label: "Student Text Length", tooltip: "Total token count of the student's completed paper. The simulation models progressive writing — the draft grows from 0 tokens on the first message to this value on the last." },
-      instTokens: { label: "Chat History (Capped)", tooltip: "Recent conversation history, capped at last ~4-5 exchanges for cost control." },
-      outputTokens: { label: "AI Response", tooltip: "Expected AI response length per message." },
-    },
-    visualizerLabels: {
-      system: "System Prompt",
-      context: "Assignment Context",
-      submission: "Student Draft",
-      instruction: "Chat History",
-    },
-  },
-  "clarity-chat-xl": {
-    label: "Clarity Chat XL",
-    shortLabel: "Clarity XL",
-    description:
-      "Extended writing-assistant session — models a long chat where periodic summarization of chat history becomes the optimal cost strategy.",
-    strategyNote: null,
-    submissionCacheable: false,
-    conversational: true,
-    progressiveSubmission: true,
-    defaultSummarizationEnabled: true,
-    defaultSummarySize: 1000,
-    defaultSensitivityParam: "reqsPerStudent",
-    defaultCacheTTL: "1hour",
-    preset: {
-      students: 30,
-      reqsPerStudent: 40,
-      sysTokens: 1000,
-      ctxTokens: 1000,
-      subTokens: 1500,
-      instTokens: 3650,
-      outputTokens: 300,
-    },
-    fieldLabels: {
-      students: { label: "Class Size (Students)" },
-      reqsPerStudent: { label: "Messages per Student" },
-      sysTokens: { label: "System Prompt", tooltip: "Writing assistant instructions and persona." },
-      ctxTokens: { label: "Assignment Context", tooltip: "Assignment description and rubric (cacheable)." },
-      subTokens: { label: "Student Text Length", tooltip: "Total token count of the student's completed paper. The simulation models progressive writing — the draft grows from 0 tokens on the first message to this value on the last." },
-      instTokens: { label: "Chat History (Capped)", tooltip: "Recent conversation history cap — with a long session, periodic summarization becomes cost-effective." },
-      outputTokens: { label: "AI Response", tooltip: "Expected AI response length per message." },
-    },
-    visualizerLabels: {
-      system: "System Prompt",
-      context: "Assignment Context",
-      submission: "Student Draft",
-      instruction: "Chat History",
-    },
-  },
-  "interactive-ai": {
-    label: "Interactive AI Assignment",
-    shortLabel: "Interactive",
-    description:
-      "Simulate a character-interview assignment workload and explore caching optimization levers.",
-    strategyNote: null,
-    submissionCacheable: true,
-    conversational: true,
-    progressiveSubmission: false,
-    defaultSummarizationEnabled: true,
-    defaultSummarySize: 500,
-    defaultSensitivityParam: "ctxTokens",
-    defaultCacheTTL: "1hour",
-    preset: {
-      students: 30,
-      reqsPerStudent: 20,
-      sysTokens: 1000,
-      ctxTokens: 50000,
-      subTokens: 20,
-      instTokens: 1660,
-      outputTokens: 133,
-    },
-    fieldLabels: {
-      students: { label: "Class Size (Students)" },
-      reqsPerStudent: { label: "Interview Turns" },
-      sysTokens: { label: "System Prompt", tooltip: "Character persona, interview rules, and behavioral instructions." },
-      ctxTokens: { label: "Source Material", tooltip: "Textbook chapters, novel text, or primary sources shared across all students (cacheable)." },
-      subTokens: { label: "Student Question", tooltip: "The student's interview question or prompt for the current turn." },
-      instTokens: { label: "Chat History (Capped)", tooltip: "Recent interview exchange history, capped sliding window sent as fresh input." },
-      outputTokens: { label: "AI Response", tooltip: "Expected AI response length per message." },
-    },
-    visualizerLabels: {
-      system: "System Prompt",
-      context: "Source Material",
-      submission: "Question",
-      instruction: "Conv. Context",
-    },
-  },
-};
+// Template definitions are loaded from public/data/templates.json.
+export const BUILT_IN_TEMPLATE_KEYS: BuiltInTemplateKey[] = [
+  "graf-simple", "graf-literary", "clarity-chat", "clarity-chat-xl", "interactive-ai", "rag-assistant", "oral-interview",
+];
+export const DEFAULT_TEMPLATE: BuiltInTemplateKey = "graf-simple";
+export const CUSTOM_TEMPLATE_PREFIX = "custom:";
 
-export const DEFAULT_TEMPLATE: TemplateKey = "graf-simple";
+export const PROMPT_SEGMENTS: PromptSegmentKey[] = ["tools", "system", "context", "submission", "instruction"];
+export const MAX_CACHE_CHECKPOINTS = 4;
+export const DEFAULT_CACHE_CHECKPOINTS: PromptSegmentKey[] = ["system", "context", "submission"];
 
 export const CHART_COLORS = {
   noCaching: "#f97316",
   cachePrefix: "#3b82f6",
   cacheSubmission: "#10b981",
   batch: "#a855f7",
+  multiCheckpoint: "#14b8a6",
   cacheRead: "#60a5fa",
+  reasoning: "#ec4899",
+  retrieval: "#eab308",
+  speech: "#06b6d4",
   guardrails: "#6b7280",
   crossover: "#ef4444",
 } as const;
@@ -311,22 +282,94 @@ export const SENSITIVITY_INSIGHT: Record<SensitivityParamKey, string> = {
   outputTokens: "Output tokens are unaffected by input caching — changes affect both strategies equally.",
 };
 
-export const STRATEGY_TIEBREAK: Record<string, number> = {
-  "Per-Assignment Cache": 0, "Chat Sum. — Cache in Prefix": 0,
-  "Per-Submission Cache": 1, "Chat Sum. — Cache Prefix": 1,
-  "Batch Inference": 2,
-  "No Caching": 3, "Chat Sum. — No Cache": 3,
+export const IMAGE_RESOLUTIONS: { key: string; label: string; width: number; height: number }[] = [
+  { key: "thumbnail", label: "Thumbnail (512 × 512)", width: 512, height: 512 },
+  { key: "scan", label: "Letter scan (850 × 1100)", width: 850, height: 1100 },
+  { key: "screenshot", label: "Screenshot (1280 × 800)", width: 1280, height: 800 },
+  { key: "square", label: "Square (1092 × 1092)", width: 1092, height: 1092 },
+  { key: "phone", label: "Phone photo (3024 × 4032)", width: 3024, height: 4032 },
+];
+
+export const DEFAULT_VISION_INPUT: VisionInput = {
+  kind: "image",
+  perRequest: 0,
+  shared: 0,
+  width: 3024,
+  height: 4032,
 };
 
+export const DEFAULT_TOOL_CONFIG: ToolConfig = {
+  toolCount: 0,
+  schemaTokens: 150,
+  callsPerTurn: 0,
+  resultTokens: 300,
+};
+
+// Hidden system prompt Bedrock adds whenever tools are supplied, and the size
+// of a typical tool_use block the model writes to call one.
+export const TOOL_USE_SYSTEM_TOKENS = 346;
+export const TOOL_CALL_TOKENS = 60;
+
 export const CHARS_PER_TOKEN = 4;
 export const TOKENS_PER_WORD = 4 / 3;
 export const WORDS_PER_TOKEN = 3 / 4;
-export const GUARDRAILS_COST_PER_1K_UNITS = 0.15;
+// Prompt caching cuts time to first token by up to 85% for a fully cached prompt.
+export const CACHE_TTFT_REDUCTION = 0.85;
+export const RETRIEVAL_LATENCY_MS = 300;
+export const BATCH_TURNAROUND_HOURS = 24;
+// Conversational speaking rate used to turn session minutes into a transcript.
+export const SPOKEN_WORDS_PER_MINUTE = 150;
+
+export const GUARDRAIL_POLICIES: Record<GuardrailPolicy, GuardrailPolicyMeta> = {
+  content_filter: {
+    label: "Content filters",
+    description: "Hate, insults, sexual content, violence, misconduct and prompt attacks",
+    directions: ["input", "output", "both"],
+  },
+  denied_topics: {
+    label: "Denied topics",
+    description: "Topics the assistant must refuse, such as writing the graded work itself",
+    directions: ["input", "output", "both"],
+  },
+  sensitive_info: {
+    label: "Sensitive information filters",
+    description: "Detects and masks PII such as names, email addresses and student IDs",
+    directions: ["input", "output", "both"],
+  },
+  contextual_grounding: {
+    label: "Contextual grounding check",
+    description: "Flags responses the source material does not support; the source and question are evaluated with each response",
+    directions: ["output"],
+  },
+  automated_reasoning: {
+    label: "Automated Reasoning checks",
+    description: "Validates responses against a formal policy, billed per policy",
+    directions: ["output"],
+  },
+};
+
+export const GUARDRAIL_DIRECTION_LABELS: Record<GuardrailDirection, string> = {
+  input: "Input",
+  output: "Output",
+  both: "Input & output",
+};
+
+export const DEFAULT_GUARDRAIL_POLICIES: GuardrailsConfig["policies"] = { content_filter: "both" };
+
+export const TIER_MULTIPLIERS: Record<PricingTier, number> = {
+  standard: 1.0,
+  priority: 1.75,
+  flex: 0.5,
+};
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+export function isCustomTemplateKey(key: string): key is CustomTemplateKey {
+  return key.startsWith(CUSTOM_TEMPLATE_PREFIX);
+}
+
 export function formatParamLabel(key: SensitivityParamKey, value: number): string {
   if (key === "students" || key === "reqsPerStudent") return `${value}`;
   return value >= 1000 ? `${value / 1000}K` : `${value}`;
@@ -339,6 +382,13 @@ export function formatCost(value: number): string {
   return `$${value.toFixed(2)}`;
 }
 
+export function formatDuration(seconds: number): string {
+  if (seconds < 10) return `${seconds.toFixed(1)} s`;
+  if (seconds < 60) return `${Math.round(seconds)} s`;
+  if (seconds < 3600) return `${(seconds / 60).toFixed(seconds < 600 ? 1 : 0)} min`;
+  return `${(seconds / 3600).toFixed(seconds < 36000 ? 1 : 0)} h`;
+}
+
 export function getCacheWritePrice(model: BedrockModel, cacheTTL: CacheTTL): number {
   const p = model.pricing;
   if (cacheTTL === "1hour" && p.cache_write_1hour_1k != null) {
@@ -347,22 +397,110 @@ export function getCacheWritePrice(model: BedrockModel, cacheTTL: CacheTTL): num
   return p.cache_write_1k ?? 0;
 }
 
+// Number of cache writes for a prefix that varies at the given scope.
+export function getScopeWrites(input: SimulationInput, scope: CacheScope): number {
+  const totalRequests = input.students * input.reqsPerStudent;
+  if (scope === "request") return totalRequests;
+  // Simulated counts belong to this class size; callers that resize the class clear them.
+  if (input.cacheWrites) return Math.min(input.cacheWrites[scope], totalRequests);
+  return scope === "assignment" ? Math.min(1, totalRequests) : input.students;
+}
+
+// Per-request averages after the progressive-draft and graduated-history
+// models are applied, with image tokens folded into context and submission.
+export function getEffectiveTokens(input: SimulationInput): { toolTokens: number; ctxTokens: number; subTokens: number; instTokens: number } {
+  const vision = getVisionTokens(input);
+  return {
+    toolTokens: getToolOverhead(input).definitionTokens,
+    ctxTokens: input.ctxTokens + vision.shared,
+    subTokens: getEffectiveSubTokens(input.subTokens, input.reqsPerStudent, input.progressiveSubmission) + vision.perRequest,
+    instTokens: getEffectiveInstTokens(input.instTokens, input.reqsPerStudent, input.outputTokens, input.conversational),
+  };
+}
+
+// Models without extended thinking ignore the budget rather than erroring, so
+// switching models keeps the setting but stops billing it.
+export function getReasoningTokens(input: SimulationInput): number {
+  return input.model.constraints.supports_extended_thinking ? input.reasoningTokens : 0;
+}
+
+// ---------------------------------------------------------------------------
+// Vision inputs
+// ---------------------------------------------------------------------------
+
+export function computeImageTokens(formula: VisionTokenFormula, width: number, height: number): number {
+  if (width <= 0 || height <= 0) return 0;
+  const edgeScale = Math.min(1, formula.max_long_edge / Math.max(width, height));
+  const areaScale = Math.min(1, Math.sqrt(formula.max_pixels / (width * height)));
+  const scale = Math.min(edgeScale, areaScale);
+  const w = Math.round(width * scale);
+  const h = Math.round(height * scale);
+  return Math.ceil((w * h) / formula.pixels_per_token);
+}
+
+// Image tokens for one item and for the per-request and shared counts.
+// Models without vision support contribute nothing.
+export function getVisionTokens(input: SimulationInput): VisionTokens {
+  const formula = input.model.vision_token_formula;
+  const { vision } = input;
+  if (!formula || !input.model.constraints.supports_vision) {
+    return { perItem: 0, perRequest: 0, shared: 0 };
+  }
+  const perItem = computeImageTokens(formula, vision.width, vision.height)
+    + (vision.kind === "pdf-page" ? formula.pdf_page_text_tokens : 0);
+  return {
+    perItem,
+    perRequest: vision.perRequest * perItem,
+    shared: vision.shared * perItem,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tool use
+// ---------------------------------------------------------------------------
+
+// A request that calls c tools makes c + 1 model invocations. Follow-up k
+// carries the k tool_use/tool_result pairs before it, so the exchange grows
+// as c(c + 1)/2 pairs per request.
+export function getToolOverhead(input: SimulationInput): ToolOverhead {
+  const { toolCount, schemaTokens, callsPerTurn, resultTokens } = input.tools;
+  if (toolCount <= 0) {
+    return { definitionTokens: 0, roundTrips: 0, exchangeTokens: 0, callOutputTokens: 0 };
+  }
+  return {
+    definitionTokens: TOOL_USE_SYSTEM_TOKENS + toolCount * schemaTokens,
+    roundTrips: callsPerTurn,
+    exchangeTokens: (TOOL_CALL_TOKENS + resultTokens) * callsPerTurn * (callsPerTurn + 1) / 2,
+    callOutputTokens: TOOL_CALL_TOKENS * callsPerTurn,
+  };
+}
+
+// Cost of the follow-up invocations on top of a strategy's one call per
+// request. The cache entry is still warm from the first call, so whatever it
+// covers is read; the rest of the prompt and the tool exchange go fresh.
+export function computeToolRoundTrips(
+  input: SimulationInput,
+  cachedTokens: number,
+  freshTokens: number,
+  prices: { input: number; read: number; output: number },
+): { cacheRead: number; freshInput: number; output: number } {
+  const tools = getToolOverhead(input);
+  const totalRequests = input.students * input.reqsPerStudent;
+  const invocations = totalRequests * tools.roundTrips;
+  return {
+    cacheRead: invocations * (cachedTokens / 1000) * prices.read,
+    freshInput: (invocations * freshTokens + totalRequests * tools.exchangeTokens) / 1000 * prices.input,
+    output: totalRequests * (tools.callOutputTokens / 1000) * prices.output,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Cost calculation functions
 // ---------------------------------------------------------------------------
 
-export function computeStrategyA(
-  model: BedrockModel,
-  students: number,
-  reqsPerStudent: number,
-  sysTokens: number,
-  ctxTokens: number,
-  subTokens: number,
-  instTokens: number,
-  outputTokens: number,
-  tierMultiplier: number,
-  cacheTTL: CacheTTL
-): CostBreakdown {
+export function computeStrategyA(input: SimulationInput): CostBreakdown {
+  const { model, students, reqsPerStudent, sysTokens, outputTokens, tierMultiplier, cacheTTL } = input;
+  const { toolTokens, ctxTokens, subTokens, instTokens } = getEffectiveTokens(input);
   const p = model.pricing;
   const pInput = p.input_1k * tierMultiplier;
   const pOutput = p.output_1k * tierMultiplier;
@@ -370,37 +508,35 @@ export function computeStrategyA(
   const pRead = (p.cache_read_1k ?? 0) * tierMultiplier;
 
   const totalRequests = students * reqsPerStudent;
-  const cachedTokens = sysTokens + ctxTokens;
+  const cachedTokens = toolTokens + sysTokens + ctxTokens;
   const freshTokens = subTokens + instTokens;
 
-  const cacheWrite = (cachedTokens / 1000) * pWrite;
-  const cacheRead = (totalRequests - 1) * (cachedTokens / 1000) * pRead;
-  const freshInput = totalRequests * (freshTokens / 1000) * pInput;
-  const output = totalRequests * (outputTokens / 1000) * pOutput;
+  const writes = getScopeWrites(input, "assignment");
+  const tools = computeToolRoundTrips(input, cachedTokens, freshTokens, { input: pInput, read: pRead, output: pOutput });
+
+  const cacheWrite = writes * (cachedTokens / 1000) * pWrite;
+  const cacheRead = (totalRequests - writes) * (cachedTokens / 1000) * pRead + tools.cacheRead;
+  const freshInput = totalRequests * (freshTokens / 1000) * pInput + tools.freshInput;
+  const output = totalRequests * (outputTokens / 1000) * pOutput + tools.output;
+  const reasoning = totalRequests * (getReasoningTokens(input) / 1000) * pOutput;
 
   return {
     cacheWrite,
     cacheRead,
     freshInput,
     output,
+    reasoning,
     guardrails: 0,
-    total: cacheWrite + cacheRead + freshInput + output,
+    total: cacheWrite + cacheRead + freshInput + output + reasoning,
   };
 }
 
-export function computeStrategyB(
-  model: BedrockModel,
-  students: number,
-  reqsPerStudent: number,
-  sysTokens: number,
-  ctxTokens: number,
-  subTokens: number,
-  instTokens: number,
-  outputTokens: number,
-  tierMultiplier: number,
-  submissionCacheable: boolean,
-  cacheTTL: CacheTTL
-): CostBreakdown {
+export function computeStrategyB(input: SimulationInput): CostBreakdown {
+  const {
+    model, students, reqsPerStudent, sysTokens, outputTokens,
+    tierMultiplier, submissionCacheable, cacheTTL,
+  } = input;
+  const { toolTokens, ctxTokens, subTokens, instTokens } = getEffectiveTokens(input);
   const p = model.pricing;
   const pInput = p.input_1k * tierMultiplier;
   const pOutput = p.output_1k * tierMultiplier;
@@ -408,7 +544,7 @@ export function computeStrategyB(
   const pRead = (p.cache_read_1k ?? 0) * tierMultiplier;
 
   const totalRequests = students * reqsPerStudent;
-  const sharedTokens = sysTokens + ctxTokens;
+  const sharedTokens = toolTokens + sysTokens + ctxTokens;
   const fullCachedTokens = sharedTokens + subTokens;
 
   let cacheWrite: number;
@@ -416,87 +552,295 @@ export function computeStrategyB(
   let freshInput: number;
 
   if (submissionCacheable) {
-    cacheWrite = students * (fullCachedTokens / 1000) * pWrite;
-    cacheRead = students * (reqsPerStudent - 1) * (fullCachedTokens / 1000) * pRead;
+    const writes = getScopeWrites(input, "student");
+    cacheWrite = writes * (fullCachedTokens / 1000) * pWrite;
+    cacheRead = (totalRequests - writes) * (fullCachedTokens / 1000) * pRead;
     freshInput = totalRequests * (instTokens / 1000) * pInput;
   } else {
-    cacheWrite = (sharedTokens / 1000) * pWrite
+    const writes = getScopeWrites(input, "assignment");
+    cacheWrite = writes * (sharedTokens / 1000) * pWrite
       + totalRequests * (subTokens / 1000) * pWrite;
-    cacheRead = (totalRequests - 1) * (sharedTokens / 1000) * pRead;
+    cacheRead = (totalRequests - writes) * (sharedTokens / 1000) * pRead;
     freshInput = totalRequests * (instTokens / 1000) * pInput;
   }
 
-  const output = totalRequests * (outputTokens / 1000) * pOutput;
+  // Either way the submission is cached by the first call, so follow-ups read it.
+  const tools = computeToolRoundTrips(input, fullCachedTokens, instTokens, { input: pInput, read: pRead, output: pOutput });
+  cacheRead += tools.cacheRead;
+  freshInput += tools.freshInput;
+  const output = totalRequests * (outputTokens / 1000) * pOutput + tools.output;
+  const reasoning = totalRequests * (getReasoningTokens(input) / 1000) * pOutput;
 
   return {
     cacheWrite,
     cacheRead,
     freshInput,
     output,
+    reasoning,
     guardrails: 0,
-    total: cacheWrite + cacheRead + freshInput + output,
+    total: cacheWrite + cacheRead + freshInput + output + reasoning,
   };
 }
 
-export function computeNoCaching(
-  model: BedrockModel,
-  students: number,
-  reqsPerStudent: number,
-  sysTokens: number,
-  ctxTokens: number,
-  subTokens: number,
-  instTokens: number,
-  outputTokens: number,
-  tierMultiplier: number
-): CostBreakdown {
+export function computeNoCaching(input: SimulationInput): CostBreakdown {
+  const { model, students, reqsPerStudent, sysTokens, outputTokens, tierMultiplier } = input;
+  const { toolTokens, ctxTokens, subTokens, instTokens } = getEffectiveTokens(input);
   const p = model.pricing;
   const pInput = p.input_1k * tierMultiplier;
   const pOutput = p.output_1k * tierMultiplier;
 
   const totalRequests = students * reqsPerStudent;
-  const allInputTokens = sysTokens + ctxTokens + subTokens + instTokens;
+  const allInputTokens = toolTokens + sysTokens + ctxTokens + subTokens + instTokens;
+  const tools = computeToolRoundTrips(input, 0, allInputTokens, { input: pInput, read: 0, output: pOutput });
 
-  const freshInput = totalRequests * (allInputTokens / 1000) * pInput;
-  const output = totalRequests * (outputTokens / 1000) * pOutput;
+  const freshInput = totalRequests * (allInputTokens / 1000) * pInput + tools.freshInput;
+  const output = totalRequests * (outputTokens / 1000) * pOutput + tools.output;
+  const reasoning = totalRequests * (getReasoningTokens(input) / 1000) * pOutput;
 
   return {
     cacheWrite: 0,
     cacheRead: 0,
     freshInput,
     output,
+    reasoning,
     guardrails: 0,
-    total: freshInput + output,
+    total: freshInput + output + reasoning,
   };
 }
 
-export function computeBatch(
-  model: BedrockModel,
-  students: number,
-  reqsPerStudent: number,
-  sysTokens: number,
-  ctxTokens: number,
-  subTokens: number,
-  instTokens: number,
-  outputTokens: number,
-  tierMultiplier: number
-): CostBreakdown {
+export function computeBatch(input: SimulationInput): CostBreakdown {
+  const { model, students, reqsPerStudent, sysTokens, outputTokens, tierMultiplier } = input;
+  const { toolTokens, ctxTokens, subTokens, instTokens } = getEffectiveTokens(input);
   const p = model.pricing;
   const pInput = (p.batch_input_1k ?? p.input_1k) * tierMultiplier;
   const pOutput = (p.batch_output_1k ?? p.output_1k) * tierMultiplier;
 
   const totalRequests = students * reqsPerStudent;
-  const allInputTokens = sysTokens + ctxTokens + subTokens + instTokens;
+  const allInputTokens = toolTokens + sysTokens + ctxTokens + subTokens + instTokens;
+  const tools = computeToolRoundTrips(input, 0, allInputTokens, { input: pInput, read: 0, output: pOutput });
 
-  const freshInput = totalRequests * (allInputTokens / 1000) * pInput;
-  const output = totalRequests * (outputTokens / 1000) * pOutput;
+  const freshInput = totalRequests * (allInputTokens / 1000) * pInput + tools.freshInput;
+  const output = totalRequests * (outputTokens / 1000) * pOutput + tools.output;
+  const reasoning = totalRequests * (getReasoningTokens(input) / 1000) * pOutput;
 
   return {
     cacheWrite: 0,
     cacheRead: 0,
     freshInput,
     output,
+    reasoning,
+    guardrails: 0,
+    total: freshInput + output + reasoning,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Retrieval-augmented generation
+// ---------------------------------------------------------------------------
+
+// Tokens of corpus text placed in each prompt; never more than the corpus itself.
+export function getRetrievedTokens(input: SimulationInput): number {
+  if (!input.retrieval) return 0;
+  return Math.min(input.ctxTokens, input.retrieval.topK * input.retrieval.chunkTokens);
+}
+
+// Embedding is billed at the embedding model's own price, outside the
+// generation model's tier: the corpus on every re-index, then each question.
+export function computeEmbeddingCost(input: SimulationInput): number {
+  if (!input.retrieval) return 0;
+  const { students, reqsPerStudent, ctxTokens, retrieval } = input;
+  const questionTokens = getEffectiveSubTokens(input.subTokens, reqsPerStudent, input.progressiveSubmission);
+  const embeddedTokens = retrieval.reindexCount * ctxTokens + students * reqsPerStudent * questionTokens;
+  return (embeddedTokens / 1000) * retrieval.embeddingPrice1k;
+}
+
+// Retrieved chunks differ per question, so only the tools and system prompt
+// (and any shared images) can be cached; the chunks go fresh.
+export function computeRetrieval(input: SimulationInput): RetrievalBreakdown {
+  const { model, students, reqsPerStudent, sysTokens, outputTokens, tierMultiplier } = input;
+  const { toolTokens, subTokens, instTokens } = getEffectiveTokens(input);
+  const p = model.pricing;
+  const canCache = model.constraints.supports_caching && p.cache_read_1k != null;
+  const pInput = p.input_1k * tierMultiplier;
+  const pOutput = p.output_1k * tierMultiplier;
+  const pWrite = getCacheWritePrice(model, input.cacheTTL) * tierMultiplier;
+  const pRead = (p.cache_read_1k ?? 0) * tierMultiplier;
+
+  const totalRequests = students * reqsPerStudent;
+  const prefixTokens = toolTokens + sysTokens + getVisionTokens(input).shared;
+  const cachedTokens = canCache ? prefixTokens : 0;
+  const freshTokens = (canCache ? 0 : prefixTokens) + getRetrievedTokens(input) + subTokens + instTokens;
+
+  const writes = canCache ? getScopeWrites(input, "assignment") : 0;
+  const tools = computeToolRoundTrips(input, cachedTokens, freshTokens, { input: pInput, read: pRead, output: pOutput });
+
+  const cacheWrite = writes * (cachedTokens / 1000) * pWrite;
+  const cacheRead = canCache ? (totalRequests - writes) * (cachedTokens / 1000) * pRead + tools.cacheRead : 0;
+  const freshInput = totalRequests * (freshTokens / 1000) * pInput + tools.freshInput;
+  const output = totalRequests * (outputTokens / 1000) * pOutput + tools.output;
+  const reasoning = totalRequests * (getReasoningTokens(input) / 1000) * pOutput;
+  const embedding = computeEmbeddingCost(input);
+
+  return {
+    cacheWrite,
+    cacheRead,
+    freshInput,
+    output,
+    reasoning,
     guardrails: 0,
-    total: freshInput + output,
+    embedding,
+    total: cacheWrite + cacheRead + freshInput + output + reasoning + embedding,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Speech-to-speech
+// ---------------------------------------------------------------------------
+
+// Per-turn transcript of each side of a spoken session; the text strategies
+// cost this as their submission and output.
+export function getSpeechTranscriptTokens(speech: SpeechSession, turns: number): { student: number; ai: number } {
+  if (turns <= 0) return { student: 0, ai: 0 };
+  const turnTokens = (speech.sessionMinutes / turns) * SPOKEN_WORDS_PER_MINUTE * TOKENS_PER_WORD;
+  return {
+    student: Math.round(turnTokens * speech.talkRatio),
+    ai: Math.round(turnTokens * (1 - speech.talkRatio)),
+  };
+}
+
+// Sessions longer than the model's limit are reopened, resending the context.
+export function getSpeechConnections(speech: SpeechSession, speechModel: SpeechModel): number {
+  return Math.max(1, Math.ceil(speech.sessionMinutes / speechModel.max_session_minutes));
+}
+
+// Audio is billed at the speech model's own rates, outside the generation
+// model's tier. The prompt is sent as text once per connection (with the
+// capped history on reconnects) and the AI's transcript is billed as text output.
+export function computeSpeechToSpeech(input: SimulationInput): SpeechBreakdown {
+  const { speech, speechModel } = input;
+  if (!speech || !speechModel) {
+    return { cacheWrite: 0, cacheRead: 0, freshInput: 0, output: 0, reasoning: 0, guardrails: 0, speech: 0, total: 0 };
+  }
+  const { students, reqsPerStudent, sysTokens, ctxTokens, instTokens } = input;
+  const p = speechModel.pricing;
+  const connections = getSpeechConnections(speech, speechModel);
+
+  const speechInputTokens = speech.sessionMinutes * speech.talkRatio * speechModel.speech_tokens_per_minute;
+  const speechOutputTokens = speech.sessionMinutes * (1 - speech.talkRatio) * speechModel.speech_tokens_per_minute;
+  const promptTokens = getToolOverhead(input).definitionTokens + sysTokens + ctxTokens;
+  const textInputTokens = connections * promptTokens + (connections - 1) * instTokens;
+  const textOutputTokens = reqsPerStudent * getSpeechTranscriptTokens(speech, reqsPerStudent).ai;
+
+  const speechCost = students * (
+    (speechInputTokens / 1000) * p.speech_input_1k + (speechOutputTokens / 1000) * p.speech_output_1k
+  );
+  const freshInput = students * (textInputTokens / 1000) * p.text_input_1k;
+  const output = students * (textOutputTokens / 1000) * p.text_output_1k;
+
+  return {
+    cacheWrite: 0,
+    cacheRead: 0,
+    freshInput,
+    output,
+    reasoning: 0,
+    guardrails: 0,
+    speech: speechCost,
+    total: freshInput + output + speechCost,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Multi-checkpoint caching
+// ---------------------------------------------------------------------------
+
+const SCOPE_BREADTH: Record<CacheScope, number> = { assignment: 0, student: 1, request: 2 };
+
+// How often a segment's content changes: shared material is identical for the
+// whole class, a fixed submission is stable per student, anything else is new
+// on every request.
+export function getSegmentScope(segment: PromptSegmentKey, input: SimulationInput): CacheScope {
+  switch (segment) {
+    case "tools":
+    case "system":
+    case "context":
+      return "assignment";
+    case "submission":
+      return input.submissionCacheable && !input.progressiveSubmission ? "student" : "request";
+    case "instruction":
+      return "request";
+  }
+}
+
+export function normalizeCacheCheckpoints(checkpoints: PromptSegmentKey[]): PromptSegmentKey[] {
+  return PROMPT_SEGMENTS.filter((seg) => checkpoints.includes(seg)).slice(0, MAX_CACHE_CHECKPOINTS);
+}
+
+// Splits the prompt into one layer per checkpoint. A prefix is only as stable
+// as its most volatile segment, so a layer can never be broader in scope than
+// the layers in front of it.
+export function buildCacheLayers(input: SimulationInput): CacheLayer[] {
+  const { students, reqsPerStudent, sysTokens } = input;
+  const { toolTokens, ctxTokens, subTokens, instTokens } = getEffectiveTokens(input);
+  const segmentTokens: Record<PromptSegmentKey, number> = {
+    tools: toolTokens,
+    system: sysTokens,
+    context: ctxTokens,
+    submission: subTokens,
+    instruction: instTokens,
+  };
+  const totalRequests = students * reqsPerStudent;
+
+  const checkpoints = normalizeCacheCheckpoints(input.cacheCheckpoints);
+  const layers: CacheLayer[] = [];
+  let pending: PromptSegmentKey[] = [];
+  let scope: CacheScope = "assignment";
+  for (const seg of PROMPT_SEGMENTS) {
+    pending.push(seg);
+    const segScope = getSegmentScope(seg, input);
+    if (SCOPE_BREADTH[segScope] > SCOPE_BREADTH[scope]) scope = segScope;
+    if (!checkpoints.includes(seg)) continue;
+    const writes = getScopeWrites(input, scope);
+    layers.push({
+      segments: pending,
+      tokens: pending.reduce((sum, s) => sum + segmentTokens[s], 0),
+      scope,
+      writes,
+      reads: totalRequests - writes,
+    });
+    pending = [];
+  }
+  return layers;
+}
+
+export function computeMultiCheckpoint(input: SimulationInput): CostBreakdown {
+  const { model, students, reqsPerStudent, sysTokens, outputTokens, tierMultiplier, cacheTTL } = input;
+  const { toolTokens, ctxTokens, subTokens, instTokens } = getEffectiveTokens(input);
+  const p = model.pricing;
+  const pInput = p.input_1k * tierMultiplier;
+  const pOutput = p.output_1k * tierMultiplier;
+  const pWrite = getCacheWritePrice(model, cacheTTL) * tierMultiplier;
+  const pRead = (p.cache_read_1k ?? 0) * tierMultiplier;
+
+  const totalRequests = students * reqsPerStudent;
+  const layers = buildCacheLayers(input);
+  const cachedTokens = layers.reduce((sum, l) => sum + l.tokens, 0);
+  const freshTokens = toolTokens + sysTokens + ctxTokens + subTokens + instTokens - cachedTokens;
+  const tools = computeToolRoundTrips(input, cachedTokens, freshTokens, { input: pInput, read: pRead, output: pOutput });
+
+  const cacheWrite = layers.reduce((sum, l) => sum + l.writes * (l.tokens / 1000) * pWrite, 0);
+  const cacheRead = layers.reduce((sum, l) => sum + l.reads * (l.tokens / 1000) * pRead, 0) + tools.cacheRead;
+  const freshInput = totalRequests * (freshTokens / 1000) * pInput + tools.freshInput;
+  const output = totalRequests * (outputTokens / 1000) * pOutput + tools.output;
+  const reasoning = totalRequests * (getReasoningTokens(input) / 1000) * pOutput;
+
+  return {
+    cacheWrite,
+    cacheRead,
+    freshInput,
+    output,
+    reasoning,
+    guardrails: 0,
+    total: cacheWrite + cacheRead + freshInput + output + reasoning,
   };
 }
 
@@ -606,19 +950,14 @@ export function simulateSummarization(
 }
 
 export function computeSummarizationCost(
-  model: BedrockModel,
-  students: number,
-  reqsPerStudent: number,
-  sysTokens: number,
-  ctxTokens: number,
-  subTokens: number,
-  instTokens: number,
-  outputTokens: number,
-  summarySize: number,
-  tierMultiplier: number,
-  cacheTTL: CacheTTL,
+  input: SimulationInput,
   windowCostTotal: number,
 ): SummarizationCostResult {
+  const {
+    model, students, reqsPerStudent, sysTokens, instTokens, outputTokens,
+    summarySize, tierMultiplier, cacheTTL,
+  } = input;
+  const { toolTokens, ctxTokens, subTokens } = getEffectiveTokens(input);
   const p = model.pricing;
   const pInput = p.input_1k * tierMultiplier;
   const pOutput = p.output_1k * tierMultiplier;
@@ -626,15 +965,18 @@ export function computeSummarizationCost(
   const pWrite = getCacheWritePrice(model, cacheTTL) * tierMultiplier;
 
   const sim = simulateSummarization(reqsPerStudent, instTokens, outputTokens, summarySize);
-  const cachedPrefix = sysTokens + ctxTokens;
+  const cachedPrefix = toolTokens + sysTokens + ctxTokens;
   const totalReqs = students * reqsPerStudent;
+  const writes = getScopeWrites(input, "assignment");
+  const tools = computeToolRoundTrips(input, cachedPrefix, subTokens + sim.avgHistoryPerTurn, { input: pInput, read: pRead, output: pOutput });
 
-  const cacheWrite = (cachedPrefix / 1000) * pWrite;
-  const cacheRead = (totalReqs - 1) * (cachedPrefix / 1000) * pRead;
+  const cacheWrite = writes * (cachedPrefix / 1000) * pWrite;
+  const cacheRead = (totalReqs - writes) * (cachedPrefix / 1000) * pRead + tools.cacheRead;
   const freshInput = students * (sim.totalHistoryTokensSent / 1000) * pInput
-    + totalReqs * (subTokens / 1000) * pInput;
-  const output = totalReqs * (outputTokens / 1000) * pOutput;
-  const mainCallCost = cacheWrite + cacheRead + freshInput + output;
+    + totalReqs * (subTokens / 1000) * pInput + tools.freshInput;
+  const output = totalReqs * (outputTokens / 1000) * pOutput + tools.output;
+  const reasoning = totalReqs * (getReasoningTokens(input) / 1000) * pOutput;
+  const mainCallCost = cacheWrite + cacheRead + freshInput + output + reasoning;
 
   const perSumInput = (sysTokens + instTokens) / 1000 * pInput;
   const perSumOutput = (summarySize / 1000) * pOutput;
@@ -678,18 +1020,9 @@ export function computeSummarizationCost(
 // Summarization strategy compute functions
 // ---------------------------------------------------------------------------
 
-export function computeSumNoCaching(
-  model: BedrockModel,
-  students: number,
-  reqsPerStudent: number,
-  sysTokens: number,
-  ctxTokens: number,
-  subTokens: number,
-  instTokens: number,
-  outputTokens: number,
-  summarySize: number,
-  tierMultiplier: number,
-): SumStrategyBreakdown {
+export function computeSumNoCaching(input: SimulationInput): SumStrategyBreakdown {
+  const { model, students, reqsPerStudent, sysTokens, instTokens, outputTokens, summarySize, tierMultiplier } = input;
+  const { toolTokens, ctxTokens, subTokens } = getEffectiveTokens(input);
   const p = model.pricing;
   const pInput = p.input_1k * tierMultiplier;
   const pOutput = p.output_1k * tierMultiplier;
@@ -697,10 +1030,12 @@ export function computeSumNoCaching(
   const sim = simulateSummarization(reqsPerStudent, instTokens, outputTokens, summarySize);
   const totalReqs = students * reqsPerStudent;
 
-  const fixedPerReq = sysTokens + ctxTokens + subTokens;
+  const fixedPerReq = toolTokens + sysTokens + ctxTokens + subTokens;
+  const tools = computeToolRoundTrips(input, 0, fixedPerReq + sim.avgHistoryPerTurn, { input: pInput, read: 0, output: pOutput });
   const freshInput = totalReqs * (fixedPerReq / 1000) * pInput
-    + students * (sim.totalHistoryTokensSent / 1000) * pInput;
-  const output = totalReqs * (outputTokens / 1000) * pOutput;
+    + students * (sim.totalHistoryTokensSent / 1000) * pInput + tools.freshInput;
+  const output = totalReqs * (outputTokens / 1000) * pOutput + tools.output;
+  const reasoning = totalReqs * (getReasoningTokens(input) / 1000) * pOutput;
 
   const perSumInput = (sysTokens + instTokens) / 1000 * pInput;
   const perSumOutput = (summarySize / 1000) * pOutput;
@@ -711,25 +1046,19 @@ export function computeSumNoCaching(
     cacheRead: 0,
     freshInput,
     output,
+    reasoning,
     guardrails: 0,
     summarizationCalls,
-    total: freshInput + output + summarizationCalls,
+    total: freshInput + output + reasoning + summarizationCalls,
   };
 }
 
-export function computeSumCacheAssessment(
-  model: BedrockModel,
-  students: number,
-  reqsPerStudent: number,
-  sysTokens: number,
-  ctxTokens: number,
-  subTokens: number,
-  instTokens: number,
-  outputTokens: number,
-  summarySize: number,
-  tierMultiplier: number,
-  cacheTTL: CacheTTL,
-): SumStrategyBreakdown {
+export function computeSumCacheAssessment(input: SimulationInput): SumStrategyBreakdown {
+  const {
+    model, students, reqsPerStudent, sysTokens, instTokens, outputTokens,
+    summarySize, tierMultiplier, cacheTTL,
+  } = input;
+  const { toolTokens, ctxTokens, subTokens } = getEffectiveTokens(input);
   const p = model.pricing;
   const pInput = p.input_1k * tierMultiplier;
   const pOutput = p.output_1k * tierMultiplier;
@@ -737,14 +1066,17 @@ export function computeSumCacheAssessment(
   const pRead = (p.cache_read_1k ?? 0) * tierMultiplier;
 
   const sim = simulateSummarization(reqsPerStudent, instTokens, outputTokens, summarySize);
-  const cachedPrefix = sysTokens + ctxTokens;
+  const cachedPrefix = toolTokens + sysTokens + ctxTokens;
   const totalReqs = students * reqsPerStudent;
+  const writes = getScopeWrites(input, "assignment");
+  const tools = computeToolRoundTrips(input, cachedPrefix, subTokens + sim.avgHistoryPerTurn, { input: pInput, read: pRead, output: pOutput });
 
-  const cacheWrite = (cachedPrefix / 1000) * pWrite;
-  const cacheRead = (totalReqs - 1) * (cachedPrefix / 1000) * pRead;
+  const cacheWrite = writes * (cachedPrefix / 1000) * pWrite;
+  const cacheRead = (totalReqs - writes) * (cachedPrefix / 1000) * pRead + tools.cacheRead;
   const freshInput = students * (sim.totalHistoryTokensSent / 1000) * pInput
-    + totalReqs * (subTokens / 1000) * pInput;
-  const output = totalReqs * (outputTokens / 1000) * pOutput;
+    + totalReqs * (subTokens / 1000) * pInput + tools.freshInput;
+  const output = totalReqs * (outputTokens / 1000) * pOutput + tools.output;
+  const reasoning = totalReqs * (getReasoningTokens(input) / 1000) * pOutput;
 
   const perSumInput = (sysTokens + instTokens) / 1000 * pInput;
   const perSumOutput = (summarySize / 1000) * pOutput;
@@ -755,25 +1087,19 @@ export function computeSumCacheAssessment(
     cacheRead,
     freshInput,
     output,
+    reasoning,
     guardrails: 0,
     summarizationCalls,
-    total: cacheWrite + cacheRead + freshInput + output + summarizationCalls,
+    total: cacheWrite + cacheRead + freshInput + output + reasoning + summarizationCalls,
   };
 }
 
-export function computeSumCacheSummary(
-  model: BedrockModel,
-  students: number,
-  reqsPerStudent: number,
-  sysTokens: number,
-  ctxTokens: number,
-  subTokens: number,
-  instTokens: number,
-  outputTokens: number,
-  summarySize: number,
-  tierMultiplier: number,
-  cacheTTL: CacheTTL,
-): SumStrategyBreakdown {
+export function computeSumCacheSummary(input: SimulationInput): SumStrategyBreakdown {
+  const {
+    model, students, reqsPerStudent, sysTokens, instTokens, outputTokens,
+    summarySize, tierMultiplier, cacheTTL,
+  } = input;
+  const { toolTokens, ctxTokens, subTokens } = getEffectiveTokens(input);
   const p = model.pricing;
   const pInput = p.input_1k * tierMultiplier;
   const pOutput = p.output_1k * tierMultiplier;
@@ -781,13 +1107,15 @@ export function computeSumCacheSummary(
   const pRead = (p.cache_read_1k ?? 0) * tierMultiplier;
 
   const sim = simulateSummarization(reqsPerStudent, instTokens, outputTokens, summarySize);
-  const assessmentPrefix = sysTokens + ctxTokens;
+  const assessmentPrefix = toolTokens + sysTokens + ctxTokens;
   const fullPrefix = assessmentPrefix + summarySize;
   const totalReqs = students * reqsPerStudent;
 
   let perStudentCacheWrite = 0;
   let perStudentCacheRead = 0;
   let perStudentFreshInput = 0;
+  let perStudentPrefixTokens = 0;
+  let perStudentFreshTokens = 0;
 
   const sumTurns = new Set(sim.summarizationTurns);
   let hasSummary = false;
@@ -809,19 +1137,30 @@ export function computeSumCacheSummary(
 
     const freshHistory = hasSummary ? Math.max(0, history - summarySize) : history;
     perStudentFreshInput += ((subTokens + freshHistory) / 1000) * pInput;
+    perStudentPrefixTokens += prefix;
+    perStudentFreshTokens += subTokens + freshHistory;
   }
 
-  const sharedPrefixWriteCorrection = (students > 1)
-    ? (students - 1) * (assessmentPrefix / 1000) * pWrite
-    : 0;
-  const sharedPrefixReadCorrection = (students > 1)
-    ? (students - 1) * (assessmentPrefix / 1000) * pRead
-    : 0;
+  // The loop writes the shared assessment prefix on every student's first turn;
+  // it is really written once per assignment-scope write.
+  const sharedWrites = getScopeWrites(input, "assignment");
+  const sharedPrefixWriteCorrection = (students - sharedWrites) * (assessmentPrefix / 1000) * pWrite;
+  const sharedPrefixReadCorrection = (students - sharedWrites) * (assessmentPrefix / 1000) * pRead;
+
+  const tools = reqsPerStudent > 0
+    ? computeToolRoundTrips(
+        input,
+        perStudentPrefixTokens / reqsPerStudent,
+        perStudentFreshTokens / reqsPerStudent,
+        { input: pInput, read: pRead, output: pOutput },
+      )
+    : { cacheRead: 0, freshInput: 0, output: 0 };
 
   const cacheWrite = students * perStudentCacheWrite - sharedPrefixWriteCorrection;
-  const cacheRead = students * perStudentCacheRead + sharedPrefixReadCorrection;
-  const freshInput = students * perStudentFreshInput;
-  const output = totalReqs * (outputTokens / 1000) * pOutput;
+  const cacheRead = students * perStudentCacheRead + sharedPrefixReadCorrection + tools.cacheRead;
+  const freshInput = students * perStudentFreshInput + tools.freshInput;
+  const output = totalReqs * (outputTokens / 1000) * pOutput + tools.output;
+  const reasoning = totalReqs * (getReasoningTokens(input) / 1000) * pOutput;
 
   const perSumInput = (sysTokens + instTokens) / 1000 * pInput;
   const perSumOutput = (summarySize / 1000) * pOutput;
@@ -832,18 +1171,454 @@ export function computeSumCacheSummary(
     cacheRead,
     freshInput,
     output,
+    reasoning,
     guardrails: 0,
     summarizationCalls,
-    total: cacheWrite + cacheRead + freshInput + output + summarizationCalls,
+    total: cacheWrite + cacheRead + freshInput + output + reasoning + summarizationCalls,
   };
 }
 
-export function computeGuardrailsCost(
-  totalRequests: number,
-  studentInputTokensPerRequest: number,
-  outputTokensPerRequest: number
-): number {
-  const evaluatedChars = (studentInputTokensPerRequest + outputTokensPerRequest) * CHARS_PER_TOKEN;
-  const textUnits = evaluatedChars / 1000;
-  return totalRequests * (textUnits / 1000) * GUARDRAILS_COST_PER_1K_UNITS;
+// Each policy bills the text it screens. Trusted prompt segments are not
+// screened, except the source a grounding check evaluates responses against.
+// Attached images are not billed as text units.
+export function computeGuardrailsCost(input: SimulationInput): GuardrailsCost {
+  const policies = Object.keys(GUARDRAIL_POLICIES) as GuardrailPolicy[];
+  const byPolicy = Object.fromEntries(policies.map((p) => [p, 0])) as Record<GuardrailPolicy, number>;
+  if (!input.guardrails) return { byPolicy, total: 0 };
+
+  const totalRequests = input.students * input.reqsPerStudent;
+  const studentTokens = getEffectiveSubTokens(input.subTokens, input.reqsPerStudent, input.progressiveSubmission);
+  const sourceTokens = input.retrieval ? getRetrievedTokens(input) : input.ctxTokens;
+
+  let total = 0;
+  for (const policy of policies) {
+    const direction = input.guardrails.policies[policy];
+    if (!direction) continue;
+    const screenedTokens = policy === "contextual_grounding"
+      ? sourceTokens + studentTokens + input.outputTokens
+      : (direction !== "output" ? studentTokens : 0) + (direction !== "input" ? input.outputTokens : 0);
+    const textUnits = (screenedTokens * CHARS_PER_TOKEN) / 1000;
+    byPolicy[policy] = totalRequests * (textUnits / 1000) * input.guardrails.rates[policy];
+    total += byPolicy[policy];
+  }
+  return { byPolicy, total };
+}
+
+// ---------------------------------------------------------------------------
+// Strategy registry
+// ---------------------------------------------------------------------------
+
+export type StrategyGroup = "standard" | "summarization";
+export type StrategyKind = "baseline" | "cache" | "batch" | "retrieval" | "speech";
+
+export interface StrategyContext {
+  supportsCaching: boolean;
+  batchIncluded: boolean;
+  retrievalEnabled: boolean;
+  speechEnabled: boolean;
+  displayMode: DisplayMode;
+}
+
+export interface Strategy {
+  key: string;
+  label: string;
+  shortLabel: string;
+  description: string;
+  group: StrategyGroup;
+  kind: StrategyKind;
+  color: string;
+  // Lower wins when two strategies cost the same.
+  tiebreak: number;
+  note?: string;
+  isAvailable: (ctx: StrategyContext) => boolean;
+  compute: (input: SimulationInput) => CostBreakdown;
+}
+
+export interface StrategyResult {
+  strategy: Strategy;
+  breakdown: CostBreakdown;
+}
+
+export interface WinnerSummary {
+  winner: StrategyResult;
+  savings: { amount: number; percentage: number; vsLabel: string };
+}
+
+const STRATEGY_REGISTRY: Strategy[] = [];
+
+export function registerStrategy(strategy: Strategy): void {
+  if (STRATEGY_REGISTRY.some((s) => s.key === strategy.key)) {
+    throw new Error(`Strategy already registered: ${strategy.key}`);
+  }
+  STRATEGY_REGISTRY.push(strategy);
+}
+
+export function getStrategy(key: string): Strategy | undefined {
+  return STRATEGY_REGISTRY.find((s) => s.key === key);
+}
+
+export function getStrategies(group: StrategyGroup, ctx: StrategyContext): Strategy[] {
+  return STRATEGY_REGISTRY.filter((s) => s.group === group && s.isAvailable(ctx));
+}
+
+export function computeStrategyCost(strategy: Strategy, input: SimulationInput): CostBreakdown {
+  const breakdown = strategy.compute(input);
+  if (!input.guardrails) return breakdown;
+  const guardrails = computeGuardrailsCost(input).total;
+  return { ...breakdown, guardrails, total: breakdown.total + guardrails };
+}
+
+export function runStrategies(input: SimulationInput, strategies: Strategy[]): StrategyResult[] {
+  return strategies.map((strategy) => ({ strategy, breakdown: computeStrategyCost(strategy, input) }));
+}
+
+export function rankStrategyResults(results: StrategyResult[]): StrategyResult[] {
+  return [...results].sort(
+    (a, b) => a.breakdown.total - b.breakdown.total || a.strategy.tiebreak - b.strategy.tiebreak
+  );
+}
+
+export function findWinner(results: StrategyResult[]): WinnerSummary | null {
+  if (results.length <= 1) return null;
+  const ranked = rankStrategyResults(results);
+  const best = ranked[0];
+  const worst = ranked[ranked.length - 1];
+  const diff = worst.breakdown.total - best.breakdown.total;
+  const pct = worst.breakdown.total > 0 ? (diff / worst.breakdown.total) * 100 : 0;
+  return {
+    winner: best,
+    savings: { amount: diff, percentage: pct, vsLabel: worst.strategy.label },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Model scenarios
+// ---------------------------------------------------------------------------
+
+// Deployment choices that are resolved per model, since not every model
+// offers every tier, profile or cache TTL.
+export interface ScenarioSettings {
+  regionId: string;
+  profile: InferenceProfile;
+  tier: PricingTier;
+  cacheTTL: CacheTTL;
+  batchEnabled: boolean;
+}
+
+export interface ModelScenario {
+  input: SimulationInput;
+  context: StrategyContext;
+  profile: InferenceProfile;
+  tier: PricingTier;
+}
+
+export function getEffectiveTier(model: BedrockModel, tier: PricingTier): PricingTier {
+  return model.constraints.supported_tiers.includes(tier) ? tier : "standard";
+}
+
+// Amazon models only batch at the Standard tier.
+export function isBatchIncluded(model: BedrockModel, tier: PricingTier, batchEnabled: boolean): boolean {
+  const supportsBatch = model.constraints.supports_batch && model.pricing.batch_input_1k != null;
+  return supportsBatch && batchEnabled && (model.provider !== "Amazon" || tier === "standard");
+}
+
+// The same workload run on another model, with the settings that model
+// cannot honour falling back the way the simulator's controls do.
+export function buildModelScenario(
+  base: SimulationInput,
+  baseContext: StrategyContext,
+  model: BedrockModel,
+  settings: ScenarioSettings
+): ModelScenario {
+  const profile = getEffectiveProfile(model, settings.profile);
+  const tier = getEffectiveTier(model, settings.tier);
+  const resolved = resolveModelPricing(model, settings.regionId, profile);
+  const { constraints } = resolved;
+  return {
+    input: {
+      ...base,
+      model: resolved,
+      tierMultiplier: TIER_MULTIPLIERS[tier],
+      cacheTTL: settings.cacheTTL === "1hour" && constraints.supports_1hour_cache ? "1hour" : "5min",
+    },
+    context: {
+      ...baseContext,
+      supportsCaching: constraints.supports_caching,
+      batchIncluded: isBatchIncluded(resolved, tier, settings.batchEnabled),
+    },
+    profile,
+    tier,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Latency
+// ---------------------------------------------------------------------------
+
+// Tokens behind each line of an on-demand breakdown. Every line is linear in
+// its token class, so dividing by the price it was billed at recovers them.
+export function getBreakdownTokens(input: SimulationInput, breakdown: CostBreakdown): BreakdownTokens {
+  const p = input.model.pricing;
+  const tokens = (cost: number, price1k: number | null) =>
+    price1k ? (cost / (price1k * input.tierMultiplier)) * 1000 : 0;
+  return {
+    freshInput: tokens(breakdown.freshInput, p.input_1k),
+    cacheWrite: tokens(breakdown.cacheWrite, getCacheWritePrice(input.model, input.cacheTTL)),
+    cacheRead: tokens(breakdown.cacheRead, p.cache_read_1k),
+    output: tokens(breakdown.output, p.output_1k),
+    reasoning: tokens(breakdown.reasoning, p.output_1k),
+  };
+}
+
+// Time to first token shrinks with the share of the prompt read from cache;
+// tool round trips wait for a first token each. Batch jobs finish within the
+// turnaround window and spoken sessions run in real time.
+export function estimateLatency(strategy: Strategy, input: SimulationInput, breakdown: CostBreakdown): StrategyLatency {
+  const { students, reqsPerStudent } = input;
+  if (strategy.kind === "batch") {
+    return { mode: "async", turnSeconds: null, classSeconds: BATCH_TURNAROUND_HOURS * 3600 };
+  }
+  if (strategy.kind === "speech" && input.speech) {
+    return { mode: "realtime", turnSeconds: null, classSeconds: input.speech.sessionMinutes * 60 };
+  }
+  const totalRequests = students * reqsPerStudent;
+  if (totalRequests === 0) return { mode: "interactive", turnSeconds: 0, classSeconds: 0 };
+
+  const { performance } = input.model;
+  const tokens = getBreakdownTokens(input, breakdown);
+  const promptTokens = tokens.freshInput + tokens.cacheWrite + tokens.cacheRead;
+  const cachedShare = promptTokens > 0 ? tokens.cacheRead / promptTokens : 0;
+  const ttft = (performance.time_to_first_token_ms / 1000) * (1 - CACHE_TTFT_REDUCTION * cachedShare);
+  const outputPerTurn = (tokens.output + tokens.reasoning) / totalRequests;
+  const retrieval = strategy.kind === "retrieval" ? RETRIEVAL_LATENCY_MS / 1000 : 0;
+
+  const turnSeconds = retrieval
+    + (1 + getToolOverhead(input).roundTrips) * ttft
+    + outputPerTurn / performance.output_tokens_per_second;
+  return { mode: "interactive", turnSeconds, classSeconds: reqsPerStudent * turnSeconds };
+}
+
+registerStrategy({
+  key: "noCaching",
+  label: "No Caching",
+  shortLabel: "No Caching",
+  description: "On-demand baseline",
+  group: "standard",
+  kind: "baseline",
+  color: CHART_COLORS.noCaching,
+  tiebreak: 4,
+  isAvailable: () => true,
+  compute: computeNoCaching,
+});
+
+registerStrategy({
+  key: "strategyA",
+  label: "Per-Assignment Cache",
+  shortLabel: "Per-Assignment",
+  description: "Caches shared context across all students",
+  group: "standard",
+  kind: "cache",
+  color: CHART_COLORS.cachePrefix,
+  tiebreak: 0,
+  isAvailable: (ctx) => ctx.supportsCaching,
+  compute: computeStrategyA,
+});
+
+registerStrategy({
+  key: "strategyB",
+  label: "Per-Submission Cache",
+  shortLabel: "Per-Submission",
+  description: "Writes cache for each student's submission",
+  group: "standard",
+  kind: "cache",
+  color: CHART_COLORS.cacheSubmission,
+  tiebreak: 1,
+  isAvailable: (ctx) => ctx.supportsCaching && ctx.displayMode === "strategy-comparison",
+  compute: computeStrategyB,
+});
+
+registerStrategy({
+  key: "multiCheckpoint",
+  label: "Multi-Checkpoint Cache",
+  shortLabel: "Multi-Checkpoint",
+  description: "Separate cache checkpoints per prompt layer, each written at its own scope",
+  group: "standard",
+  kind: "cache",
+  color: CHART_COLORS.multiCheckpoint,
+  tiebreak: 2,
+  isAvailable: (ctx) => ctx.supportsCaching && ctx.displayMode === "strategy-comparison",
+  compute: computeMultiCheckpoint,
+});
+
+registerStrategy({
+  key: "batch",
+  label: "Batch Inference",
+  shortLabel: "Batch",
+  description: "Async via S3, 50% off input & output, no caching",
+  group: "standard",
+  kind: "batch",
+  color: CHART_COLORS.batch,
+  tiebreak: 3,
+  note: "Up to 24-hour turnaround",
+  isAvailable: (ctx) => ctx.batchIncluded && ctx.displayMode === "strategy-comparison",
+  compute: computeBatch,
+});
+
+registerStrategy({
+  key: "retrieval",
+  label: "Retrieve Top-k",
+  shortLabel: "Retrieval",
+  description: "Knowledge Base retrieval; only the top-k chunks are sent, as fresh input",
+  group: "standard",
+  kind: "retrieval",
+  color: CHART_COLORS.retrieval,
+  tiebreak: 5,
+  note: "Vector store charges not included",
+  isAvailable: (ctx) => ctx.retrievalEnabled,
+  compute: computeRetrieval,
+});
+
+registerStrategy({
+  key: "speechToSpeech",
+  label: "Speech-to-Speech",
+  shortLabel: "Voice",
+  description: "Spoken session on Nova Sonic, billed as audio tokens",
+  group: "standard",
+  kind: "speech",
+  color: CHART_COLORS.speech,
+  tiebreak: 6,
+  note: "Audio tokens estimated from session minutes",
+  isAvailable: (ctx) => ctx.speechEnabled,
+  compute: computeSpeechToSpeech,
+});
+
+registerStrategy({
+  key: "sumNoCaching",
+  label: "Chat Sum. — No Cache",
+  shortLabel: "No Caching",
+  description: "Compress chat history, all tokens as fresh input",
+  group: "summarization",
+  kind: "baseline",
+  color: CHART_COLORS.noCaching,
+  tiebreak: 3,
+  isAvailable: () => true,
+  compute: computeSumNoCaching,
+});
+
+registerStrategy({
+  key: "sumCacheAssessment",
+  label: "Chat Sum. — Cache Prefix",
+  shortLabel: "Cache Prefix",
+  description: "Cache assessment context; chat summary sent as fresh input",
+  group: "summarization",
+  kind: "cache",
+  color: CHART_COLORS.cachePrefix,
+  tiebreak: 1,
+  isAvailable: (ctx) => ctx.supportsCaching,
+  compute: computeSumCacheAssessment,
+});
+
+registerStrategy({
+  key: "sumCacheSummary",
+  label: "Chat Sum. — Cache in Prefix",
+  shortLabel: "Cache Prefix + Chat Summary",
+  description: "Cache assessment context with chat summary; periodic cache rewrites when summary updates",
+  group: "summarization",
+  kind: "cache",
+  color: CHART_COLORS.batch,
+  tiebreak: 0,
+  isAvailable: (ctx) => ctx.supportsCaching,
+  compute: computeSumCacheSummary,
+});
+
+// ---------------------------------------------------------------------------
+// Parameter sensitivity sweep
+// ---------------------------------------------------------------------------
+
+export interface SensitivityPoint {
+  value: number;
+  label: string;
+  isCurrent: boolean;
+  winner: string;
+  winnerColor: string;
+  [strategy: string]: number | string | boolean;
+}
+
+const SENSITIVITY_NUM_POINTS = 40;
+const SENSITIVITY_TIE_THRESHOLD = 0.005;
+
+export function computeParamSensitivity(
+  input: SimulationInput,
+  param: SensitivityParamKey,
+  strategies: Strategy[],
+): SensitivityPoint[] {
+  const range = SENSITIVITY_SAMPLE_POINTS[param];
+  const min = range[0];
+  const max = range[range.length - 1];
+  const step = (max - min) / (SENSITIVITY_NUM_POINTS - 1);
+  const samplePoints: number[] = [];
+  for (let i = 0; i < SENSITIVITY_NUM_POINTS; i++) {
+    samplePoints.push(Math.round(min + step * i));
+  }
+  const currentValue = input[param];
+  if (!samplePoints.includes(currentValue)) {
+    samplePoints.push(currentValue);
+    samplePoints.sort((a, b) => a - b);
+  }
+
+  // The expiry simulation's write counts were run for the current class only;
+  // other class sizes assume entries stay warm, as the budget solver does.
+  const resized = param === "students" || param === "reqsPerStudent";
+  const points: SensitivityPoint[] = samplePoints.map((val) => {
+    const cacheWrites = resized && val !== currentValue ? null : input.cacheWrites;
+    const results = runStrategies({ ...input, [param]: val, cacheWrites }, strategies);
+    const point: SensitivityPoint = {
+      value: val,
+      label: formatParamLabel(param, val),
+      isCurrent: val === currentValue,
+      winner: "",
+      winnerColor: "#999",
+    };
+    for (const r of results) {
+      point[r.strategy.label] = r.breakdown.total;
+    }
+    const best = rankStrategyResults(results)[0];
+    if (best) {
+      point.winner = best.strategy.label;
+      point.winnerColor = best.strategy.color;
+    }
+    return point;
+  });
+
+  // Near-ties flicker between winners; carry the next decisive winner back through them.
+  const gapAt = (pt: SensitivityPoint) => {
+    const sorted = strategies.map((s) => pt[s.label] as number).sort((a, b) => a - b);
+    return sorted.length >= 2 ? sorted[1] - sorted[0] : Infinity;
+  };
+  let ri = 0;
+  while (ri < points.length) {
+    if (gapAt(points[ri]) < SENSITIVITY_TIE_THRESHOLD) {
+      let rj = ri + 1;
+      while (rj < points.length && gapAt(points[rj]) < SENSITIVITY_TIE_THRESHOLD) rj++;
+      const resolved = points[rj < points.length ? rj : points.length - 1];
+      for (let k = ri; k < rj; k++) {
+        points[k].winner = resolved.winner;
+        points[k].winnerColor = resolved.winnerColor;
+      }
+      ri = rj;
+    } else {
+      ri++;
+    }
+  }
+  return points;
+}
+
+export function findCrossovers(points: SensitivityPoint[]): number[] {
+  const crossovers: number[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    if (points[i].winner !== points[i + 1].winner) {
+      crossovers.push(points[i + 1].value);
+    }
+  }
+  return crossovers;
 }
@@ -0,0 +1,391 @@
+import {
+  INFERENCE_PROFILES, DEFAULT_REGION, DEFAULT_INFERENCE_PROFILE, DEFAULT_EMBEDDING_MODEL, DEFAULT_SPEECH_MODEL,
+  type InferenceProfile, type PricingData,
+} from "./pricing-data";
+import {
+  PROMPT_SEGMENTS, GUARDRAIL_POLICIES, DEFAULT_CACHE_CHECKPOINTS, DEFAULT_GUARDRAIL_POLICIES, DEFAULT_VISION_INPUT, DEFAULT_TOOL_CONFIG,
+  isCustomTemplateKey, getSpeechTranscriptTokens,
+  buildModelScenario, getStrategies, runStrategies, rankStrategyResults,
+  type CacheTTL, type GuardrailDirection, type GuardrailsConfig, type InputMode, type PricingTier, type PromptSegmentKey,
+  type RetrievalConfig, type SensitivityParamKey, type SimulationInput, type SpeechSession, type StrategyContext,
+  type StrategyResult, type TemplateKey, type TemplateMeta, type ToolConfig, type VisionInput,
+} from "./simulator-engine";
+import {
+  ARRIVAL_PATTERNS, countSectionStudents, generateArrivals, generateSectionArrivals, simulateCacheWrites, splitIntoSections,
+  type ArrivalPattern, type ClassSection,
+} from "./cache-timeline";
+import { Checker, PRESET_FIELDS, getTemplate, isRecord, isTemplateKey, validateTemplate } from "./template-data";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+// Everything the Workload Simulator needs to reproduce a scenario. Models and
+// regions are stored by id so a restored scenario is priced with current data.
+export interface SimulatorScenario {
+  template: TemplateKey;
+  // Carried along for custom templates, which may not exist where the link is opened.
+  customTemplate: TemplateMeta | null;
+  modelId: string;
+  regionId: string;
+  inferenceProfile: InferenceProfile;
+  pricingTier: PricingTier;
+  batchEnabled: boolean;
+  students: number;
+  reqsPerStudent: number;
+  sysTokens: number;
+  ctxTokens: number;
+  subTokens: number;
+  instTokens: number;
+  outputTokens: number;
+  cacheTTL: CacheTTL;
+  cacheCheckpoints: PromptSegmentKey[];
+  guardrailsEnabled: boolean;
+  guardrailPolicies: GuardrailsConfig["policies"];
+  thinkingEnabled: boolean;
+  reasoningBudget: number;
+  summarizationEnabled: boolean;
+  summarySize: number;
+  sensitivityParam: SensitivityParamKey;
+  inputMode: InputMode;
+  expirySimEnabled: boolean;
+  arrivalPattern: ArrivalPattern;
+  sectionsEnabled: boolean;
+  sections: ClassSection[];
+  vision: VisionInput;
+  tools: ToolConfig;
+  retrieval: RetrievalConfig | null;
+  embeddingModelId: string;
+  speech: SpeechSession | null;
+  speechModelId: string;
+}
+
+export interface ScenarioEvaluation {
+  input: SimulationInput;
+  context: StrategyContext;
+  // Strategies the simulator would compare, cheapest first.
+  results: StrategyResult[];
+  best: StrategyResult | null;
+  summarization: boolean;
+}
+
+export type ScenarioDecode =
+  | { ok: true; scenario: SimulatorScenario }
+  | { ok: false; errors: string[] };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const SCENARIO_VERSION = 1;
+export const SCENARIO_URL_PARAM = "s";
+
+// Short wire names keep shared links compact.
+const WIRE_KEYS: Record<keyof SimulatorScenario, string> = {
+  template: "t",
+  customTemplate: "ct",
+  modelId: "m",
+  regionId: "r",
+  inferenceProfile: "ip",
+  pricingTier: "pt",
+  batchEnabled: "b",
+  students: "st",
+  reqsPerStudent: "rq",
+  sysTokens: "sy",
+  ctxTokens: "cx",
+  subTokens: "su",
+  instTokens: "in",
+  outputTokens: "ou",
+  cacheTTL: "ttl",
+  cacheCheckpoints: "cp",
+  guardrailsEnabled: "g",
+  guardrailPolicies: "gp",
+  thinkingEnabled: "th",
+  reasoningBudget: "rb",
+  summarizationEnabled: "se",
+  summarySize: "ss",
+  sensitivityParam: "sp",
+  inputMode: "im",
+  expirySimEnabled: "x",
+  arrivalPattern: "ap",
+  sectionsEnabled: "sc",
+  sections: "sec",
+  vision: "vi",
+  tools: "to",
+  retrieval: "rt",
+  embeddingModelId: "em",
+  speech: "sh",
+  speechModelId: "sm",
+};
+
+const GUARDRAIL_DIRECTIONS: GuardrailDirection[] = ["input", "output", "both"];
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+function toBase64Url(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+// "<version>.<base64url JSON>"; the version prefix lets later formats coexist.
+export function encodeScenario(scenario: SimulatorScenario): string {
+  const wire: Record<string, unknown> = {};
+  for (const key of Object.keys(WIRE_KEYS) as (keyof SimulatorScenario)[]) {
+    if (key === "customTemplate" && !scenario.customTemplate) continue;
+    wire[WIRE_KEYS[key]] = scenario[key];
+  }
+  return `${SCENARIO_VERSION}.${toBase64Url(JSON.stringify(wire))}`;
+}
+
+export function decodeScenario(encoded: string): ScenarioDecode {
+  const dot = encoded.indexOf(".");
+  const version = dot > 0 ? Number(encoded.slice(0, dot)) : NaN;
+  if (version !== SCENARIO_VERSION) {
+    return { ok: false, errors: [`Unsupported link version: ${dot > 0 ? encoded.slice(0, dot) : "none"}`] };
+  }
+  let wire: unknown;
+  try {
+    wire = JSON.parse(fromBase64Url(encoded.slice(dot + 1)));
+  } catch {
+    return { ok: false, errors: ["The link is truncated or corrupted"] };
+  }
+  if (!isRecord(wire)) return { ok: false, errors: ["The link is truncated or corrupted"] };
+
+  const data: Record<string, unknown> = {};
+  for (const [key, short] of Object.entries(WIRE_KEYS)) data[key] = wire[short];
+  data.customTemplate ??= null;
+  return validateScenario(data);
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export function validateScenario(value: unknown, path: string = "scenario"): ScenarioDecode {
+  const c = new Checker();
+  const s = c.record(value, path);
+  if (!s) return { ok: false, errors: c.errors };
+
+  let customTemplate: TemplateMeta | null = null;
+  if (s.customTemplate !== null) {
+    const result = validateTemplate(s.customTemplate, `${path}.customTemplate`);
+    if (result.ok) customTemplate = result.template;
+    else c.errors.push(...result.errors);
+  }
+  const template = s.template;
+  if (typeof template !== "string" || !(isCustomTemplateKey(template) ? customTemplate : isTemplateKey(template))) {
+    c.errors.push(`${path}.template is not a known template`);
+  }
+
+  for (const key of ["modelId", "regionId", "embeddingModelId", "speechModelId"]) c.string(s, key, path);
+  c.oneOf(s, "inferenceProfile", path, Object.keys(INFERENCE_PROFILES));
+  c.oneOf(s, "pricingTier", path, ["standard", "priority", "flex"]);
+  c.oneOf(s, "cacheTTL", path, ["5min", "1hour"]);
+  c.oneOf(s, "sensitivityParam", path, PRESET_FIELDS);
+  c.oneOf(s, "inputMode", path, ["simple", "technical"]);
+  c.oneOf(s, "arrivalPattern", path, Object.keys(ARRIVAL_PATTERNS));
+  for (const key of ["batchEnabled", "guardrailsEnabled", "thinkingEnabled", "summarizationEnabled", "expirySimEnabled", "sectionsEnabled"]) {
+    c.boolean(s, key, path);
+  }
+  for (const field of PRESET_FIELDS) c.number(s, field, path);
+  c.number(s, "reasoningBudget", path);
+  c.number(s, "summarySize", path);
+
+  if (!Array.isArray(s.cacheCheckpoints) || s.cacheCheckpoints.some((seg) => !PROMPT_SEGMENTS.includes(seg))) {
+    c.errors.push(`${path}.cacheCheckpoints must list prompt segments`);
+  }
+
+  const policies = c.record(s.guardrailPolicies, `${path}.guardrailPolicies`);
+  if (policies) {
+    for (const policy of Object.keys(policies)) {
+      if (!(policy in GUARDRAIL_POLICIES)) c.errors.push(`${path}.guardrailPolicies.${policy} is not a Guardrails policy`);
+      else c.oneOf(policies, policy, `${path}.guardrailPolicies`, GUARDRAIL_DIRECTIONS);
+    }
+  }
+
+  if (!Array.isArray(s.sections)) {
+    c.errors.push(`${path}.sections must be a list`);
+  } else {
+    s.sections.forEach((item, i) => {
+      const section = c.record(item, `${path}.sections[${i}]`);
+      if (!section) return;
+      c.string(section, "name", `${path}.sections[${i}]`, { required: false });
+      c.number(section, "startMinutes", `${path}.sections[${i}]`);
+      c.number(section, "students", `${path}.sections[${i}]`, { integer: true });
+    });
+  }
+
+  const vision = c.record(s.vision, `${path}.vision`);
+  if (vision) {
+    c.oneOf(vision, "kind", `${path}.vision`, ["image", "pdf-page"]);
+    for (const key of ["perRequest", "shared", "width", "height"]) c.number(vision, key, `${path}.vision`);
+  }
+  const tools = c.record(s.tools, `${path}.tools`);
+  if (tools) {
+    for (const key of ["toolCount", "schemaTokens", "callsPerTurn", "resultTokens"]) c.number(tools, key, `${path}.tools`);
+  }
+  if (s.retrieval !== null) {
+    const retrieval = c.record(s.retrieval, `${path}.retrieval`);
+    if (retrieval) {
+      for (const key of ["chunkTokens", "topK", "embeddingPrice1k", "reindexCount"]) c.number(retrieval, key, `${path}.retrieval`);
+    }
+  }
+  if (s.speech !== null) {
+    const speech = c.record(s.speech, `${path}.speech`);
+    if (speech) {
+      c.number(speech, "sessionMinutes", `${path}.speech`);
+      c.number(speech, "talkRatio", `${path}.speech`, { max: 1 });
+    }
+  }
+
+  if (c.errors.length > 0) return { ok: false, errors: c.errors };
+  return { ok: true, scenario: { ...(s as unknown as SimulatorScenario), customTemplate } };
+}
+
+// ---------------------------------------------------------------------------
+// Template defaults
+// ---------------------------------------------------------------------------
+
+// The scenario the simulator shows right after picking a template, on the given model.
+export function createTemplateScenario(
+  template: TemplateKey,
+  customTemplate: TemplateMeta | null,
+  modelId: string
+): SimulatorScenario {
+  const meta = getTemplate(template, customTemplate && isCustomTemplateKey(template) ? { [template]: customTemplate } : {});
+  const p = meta.preset;
+  const transcript = meta.speech ? getSpeechTranscriptTokens(meta.speech, p.reqsPerStudent) : null;
+  return {
+    template,
+    customTemplate: isCustomTemplateKey(template) ? customTemplate : null,
+    modelId,
+    regionId: DEFAULT_REGION,
+    inferenceProfile: DEFAULT_INFERENCE_PROFILE,
+    pricingTier: "standard",
+    batchEnabled: true,
+    ...p,
+    subTokens: transcript ? transcript.student : p.subTokens,
+    outputTokens: transcript ? transcript.ai : p.outputTokens,
+    cacheTTL: meta.defaultCacheTTL,
+    cacheCheckpoints: DEFAULT_CACHE_CHECKPOINTS,
+    guardrailsEnabled: false,
+    guardrailPolicies: DEFAULT_GUARDRAIL_POLICIES,
+    thinkingEnabled: false,
+    reasoningBudget: meta.defaultReasoningBudget,
+    summarizationEnabled: meta.defaultSummarizationEnabled,
+    summarySize: meta.defaultSummarySize,
+    sensitivityParam: meta.defaultSensitivityParam,
+    inputMode: "simple",
+    expirySimEnabled: false,
+    arrivalPattern: "class-period",
+    sectionsEnabled: false,
+    sections: splitIntoSections(p.students),
+    vision: DEFAULT_VISION_INPUT,
+    tools: DEFAULT_TOOL_CONFIG,
+    retrieval: meta.retrieval,
+    embeddingModelId: DEFAULT_EMBEDDING_MODEL,
+    speech: meta.speech,
+    speechModelId: DEFAULT_SPEECH_MODEL,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Pricing references
+// ---------------------------------------------------------------------------
+
+// Ids in a saved scenario that the current pricing data no longer has.
+export function findMissingReferences(scenario: SimulatorScenario, pricingData: PricingData): string[] {
+  const missing: string[] = [];
+  if (!pricingData.models.some((m) => m.id === scenario.modelId)) {
+    missing.push(`Model ${scenario.modelId} is no longer in the pricing data`);
+  }
+  if (!pricingData.regions.some((r) => r.id === scenario.regionId)) {
+    missing.push(`Region ${scenario.regionId} is no longer in the pricing data`);
+  }
+  if (scenario.retrieval && !pricingData.embedding_models.some((m) => m.id === scenario.embeddingModelId)) {
+    missing.push(`Embedding model ${scenario.embeddingModelId} is no longer in the pricing data`);
+  }
+  if (scenario.speech && !pricingData.speech_models.some((m) => m.id === scenario.speechModelId)) {
+    missing.push(`Speech model ${scenario.speechModelId} is no longer in the pricing data`);
+  }
+  return missing;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+// Prices a scenario the way the Workload Simulator would show it, against
+// whatever pricing data is loaded now.
+export function evaluateScenario(scenario: SimulatorScenario, pricingData: PricingData): ScenarioEvaluation {
+  const meta = getTemplate(
+    scenario.template,
+    scenario.customTemplate && isCustomTemplateKey(scenario.template) ? { [scenario.template]: scenario.customTemplate } : {}
+  );
+  const model = pricingData.models.find((m) => m.id === scenario.modelId) ?? pricingData.models[0];
+  const embeddingModel = pricingData.embedding_models.find((m) => m.id === scenario.embeddingModelId) ?? pricingData.embedding_models[0];
+  const speechModel = pricingData.speech_models.find((m) => m.id === scenario.speechModelId) ?? pricingData.speech_models[0] ?? null;
+
+  const base: SimulationInput = {
+    model,
+    students: scenario.students,
+    reqsPerStudent: scenario.reqsPerStudent,
+    sysTokens: scenario.sysTokens,
+    ctxTokens: scenario.ctxTokens,
+    subTokens: scenario.subTokens,
+    instTokens: scenario.instTokens,
+    outputTokens: scenario.outputTokens,
+    tierMultiplier: 1.0,
+    cacheTTL: scenario.cacheTTL,
+    submissionCacheable: meta.submissionCacheable,
+    conversational: meta.conversational,
+    progressiveSubmission: meta.progressiveSubmission,
+    summarySize: scenario.summarySize,
+    guardrails: scenario.guardrailsEnabled
+      ? { policies: scenario.guardrailPolicies, rates: pricingData.metadata.guardrails_1k_units }
+      : null,
+    cacheCheckpoints: scenario.cacheCheckpoints,
+    cacheWrites: null,
+    vision: scenario.vision,
+    tools: scenario.tools,
+    reasoningTokens: scenario.thinkingEnabled ? scenario.reasoningBudget : 0,
+    retrieval: scenario.retrieval && embeddingModel
+      ? { ...scenario.retrieval, embeddingPrice1k: embeddingModel.pricing.input_1k }
+      : scenario.retrieval,
+    speech: scenario.speech,
+    speechModel,
+  };
+  const baseContext: StrategyContext = {
+    supportsCaching: false,
+    batchIncluded: false,
+    retrievalEnabled: scenario.retrieval != null,
+    speechEnabled: scenario.speech != null && speechModel != null,
+    displayMode: meta.displayMode,
+  };
+  const { input, context } = buildModelScenario(base, baseContext, model, {
+    regionId: scenario.regionId,
+    profile: scenario.inferenceProfile,
+    tier: scenario.pricingTier,
+    cacheTTL: scenario.cacheTTL,
+    batchEnabled: scenario.batchEnabled,
+  });
+
+  if (scenario.expirySimEnabled) {
+    const arrivals = scenario.sectionsEnabled && countSectionStudents(scenario.sections) > 0
+      ? generateSectionArrivals(scenario.sections, scenario.reqsPerStudent, scenario.arrivalPattern)
+      : generateArrivals(scenario.students, scenario.reqsPerStudent, scenario.arrivalPattern);
+    input.cacheWrites = simulateCacheWrites(arrivals, input.cacheTTL);
+  }
+
+  const summarization = meta.conversational && scenario.summarizationEnabled;
+  const results = rankStrategyResults(runStrategies(input, getStrategies(summarization ? "summarization" : "standard", context)));
+  return { input, context, results, best: results[0] ?? null, summarization };
+}
@@ -0,0 +1,229 @@
+import {
+  BUILT_IN_TEMPLATE_KEYS, DEFAULT_TEMPLATE, PROMPT_SEGMENTS, isCustomTemplateKey,
+  type BuiltInTemplateKey, type CustomTemplates, type DisplayMode, type SensitivityParamKey, type TemplateKey, type TemplateMeta,
+} from "./simulator-engine";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TemplateData {
+  version: 1;
+  templates: Record<BuiltInTemplateKey, TemplateMeta>;
+}
+
+export type TemplateValidation =
+  | { ok: true; template: TemplateMeta }
+  | { ok: false; errors: string[] };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const TEMPLATE_DATA_VERSION = 1;
+
+export const PRESET_FIELDS: SensitivityParamKey[] = [
+  "students", "reqsPerStudent", "sysTokens", "ctxTokens", "subTokens", "instTokens", "outputTokens",
+];
+
+// Class-size fields carry a label only; token fields also carry a tooltip.
+const COUNT_FIELDS: SensitivityParamKey[] = ["students", "reqsPerStudent"];
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+type JsonObject = Record<string, unknown>;
+
+export function isRecord(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Collects every problem with a path, so an import can report them all at once.
+export class Checker {
+  errors: string[] = [];
+
+  record(value: unknown, path: string): JsonObject | null {
+    if (isRecord(value)) return value;
+    this.errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  string(obj: JsonObject, key: string, path: string, { required = true } = {}): void {
+    const value = obj[key];
+    if (typeof value !== "string") this.errors.push(`${path}.${key} must be a string`);
+    else if (required && !value.trim()) this.errors.push(`${path}.${key} must not be empty`);
+  }
+
+  boolean(obj: JsonObject, key: string, path: string): void {
+    if (typeof obj[key] !== "boolean") this.errors.push(`${path}.${key} must be true or false`);
+  }
+
+  number(obj: JsonObject, key: string, path: string, { min = 0, max = Infinity, integer = false } = {}): void {
+    const value = obj[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.errors.push(`${path}.${key} must be a number`);
+    } else if (value < min || value > max) {
+      this.errors.push(max === Infinity
+        ? `${path}.${key} must be at least ${min}`
+        : `${path}.${key} must be between ${min} and ${max}`);
+    } else if (integer && !Number.isInteger(value)) {
+      this.errors.push(`${path}.${key} must be a whole number`);
+    }
+  }
+
+  oneOf(obj: JsonObject, key: string, path: string, allowed: readonly string[]): void {
+    if (!allowed.includes(obj[key] as string)) {
+      this.errors.push(`${path}.${key} must be one of ${allowed.join(", ")}`);
+    }
+  }
+}
+
+export function validateTemplate(value: unknown, path: string = "template"): TemplateValidation {
+  const c = new Checker();
+  const t = c.record(value, path);
+  if (!t) return { ok: false, errors: c.errors };
+
+  c.string(t, "label", path);
+  c.string(t, "shortLabel", path);
+  c.string(t, "description", path, { required: false });
+  if (t.strategyNote !== null) c.string(t, "strategyNote", path, { required: false });
+  for (const flag of ["submissionCacheable", "conversational", "progressiveSubmission", "defaultSummarizationEnabled"]) {
+    c.boolean(t, flag, path);
+  }
+  c.number(t, "defaultSummarySize", path);
+  c.number(t, "defaultReasoningBudget", path);
+  c.oneOf(t, "defaultSensitivityParam", path, PRESET_FIELDS);
+  c.oneOf(t, "defaultCacheTTL", path, ["5min", "1hour"]);
+  // Templates saved or exported before displayMode existed fall back to the old rule.
+  if (t.displayMode !== undefined) c.oneOf(t, "displayMode", path, ["strategy-comparison", "caching-insights"]);
+
+  const preset = c.record(t.preset, `${path}.preset`);
+  if (preset) {
+    for (const field of PRESET_FIELDS) {
+      const isCount = COUNT_FIELDS.includes(field);
+      c.number(preset, field, `${path}.preset`, { min: isCount ? 1 : 0, integer: true });
+    }
+  }
+
+  const fieldLabels = c.record(t.fieldLabels, `${path}.fieldLabels`);
+  if (fieldLabels) {
+    for (const field of PRESET_FIELDS) {
+      const entry = c.record(fieldLabels[field], `${path}.fieldLabels.${field}`);
+      if (!entry) continue;
+      c.string(entry, "label", `${path}.fieldLabels.${field}`);
+      if (!COUNT_FIELDS.includes(field)) c.string(entry, "tooltip", `${path}.fieldLabels.${field}`, { required: false });
+    }
+  }
+
+  const visualizerLabels = c.record(t.visualizerLabels, `${path}.visualizerLabels`);
+  if (visualizerLabels) {
+    for (const segment of PROMPT_SEGMENTS) c.string(visualizerLabels, segment, `${path}.visualizerLabels`);
+  }
+
+  if (t.retrieval !== null) {
+    const retrieval = c.record(t.retrieval, `${path}.retrieval`);
+    if (retrieval) {
+      c.number(retrieval, "chunkTokens", `${path}.retrieval`, { min: 1 });
+      c.number(retrieval, "topK", `${path}.retrieval`, { min: 1, integer: true });
+      c.number(retrieval, "embeddingPrice1k", `${path}.retrieval`);
+      c.number(retrieval, "reindexCount", `${path}.retrieval`, { integer: true });
+    }
+  }
+  if (t.speech !== null) {
+    const speech = c.record(t.speech, `${path}.speech`);
+    if (speech) {
+      c.number(speech, "sessionMinutes", `${path}.speech`, { min: 1 });
+      c.number(speech, "talkRatio", `${path}.speech`, { max: 1 });
+    }
+  }
+
+  if (c.errors.length > 0) return { ok: false, errors: c.errors };
+  return { ok: true, template: pickTemplateFields({ ...t, displayMode: t.displayMode ?? getDefaultDisplayMode(t) } as unknown as TemplateMeta) };
+}
+
+// Text conversations show caching insights; everything else compares strategies.
+function getDefaultDisplayMode(t: JsonObject): DisplayMode {
+  return t.conversational && !t.speech ? "caching-insights" : "strategy-comparison";
+}
+
+// Drops anything outside TemplateMeta, such as an exported file's `key`.
+function pickTemplateFields(t: TemplateMeta): TemplateMeta {
+  return {
+    label: t.label,
+    shortLabel: t.shortLabel,
+    description: t.description,
+    strategyNote: t.strategyNote,
+    submissionCacheable: t.submissionCacheable,
+    conversational: t.conversational,
+    progressiveSubmission: t.progressiveSubmission,
+    defaultSummarizationEnabled: t.defaultSummarizationEnabled,
+    displayMode: t.displayMode,
+    defaultSummarySize: t.defaultSummarySize,
+    defaultReasoningBudget: t.defaultReasoningBudget,
+    defaultSensitivityParam: t.defaultSensitivityParam,
+    defaultCacheTTL: t.defaultCacheTTL,
+    retrieval: t.retrieval,
+    speech: t.speech,
+    preset: t.preset,
+    fieldLabels: t.fieldLabels,
+    visualizerLabels: t.visualizerLabels,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+// Every built-in template must be present, since the app refers to them by key.
+export function parseTemplateData(data: unknown): TemplateData {
+  if (!isRecord(data) || data.version !== TEMPLATE_DATA_VERSION || !isRecord(data.templates)) {
+    throw new Error(`Template data must be an object with version ${TEMPLATE_DATA_VERSION} and a templates map`);
+  }
+  const errors: string[] = [];
+  const templates = {} as Record<BuiltInTemplateKey, TemplateMeta>;
+  for (const [key, value] of Object.entries(data.templates)) {
+    if (!(BUILT_IN_TEMPLATE_KEYS as string[]).includes(key)) {
+      errors.push(`templates.${key} is not a known template`);
+      continue;
+    }
+    const result = validateTemplate(value, `templates.${key}`);
+    if (result.ok) templates[key as BuiltInTemplateKey] = result.template;
+    else errors.push(...result.errors);
+  }
+  for (const key of BUILT_IN_TEMPLATE_KEYS) {
+    if (!(key in data.templates)) errors.push(`templates.${key} is missing`);
+  }
+  if (errors.length > 0) throw new Error(`Invalid template data: ${errors.join("; ")}`);
+  return { version: TEMPLATE_DATA_VERSION, templates };
+}
+
+let cachedData: TemplateData | null = null;
+
+export async function fetchTemplateData(): Promise<TemplateData> {
+  if (cachedData) return cachedData;
+  const resp = await fetch(`${import.meta.env.BASE_URL}data/templates.json`);
+  if (!resp.ok) throw new Error(`Failed to load template data: ${resp.status}`);
+  cachedData = parseTemplateData(await resp.json());
+  return cachedData;
+}
+
+export function getTemplateData(): TemplateData {
+  if (!cachedData) throw new Error("Template data not loaded. Call fetchTemplateData() first.");
+  return cachedData;
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+export function isTemplateKey(key: string, custom: CustomTemplates = {}): key is TemplateKey {
+  return isCustomTemplateKey(key) ? key in custom : (BUILT_IN_TEMPLATE_KEYS as string[]).includes(key);
+}
+
+// A custom template that was deleted falls back to the default template.
+export function getTemplate(key: TemplateKey, custom: CustomTemplates = {}): TemplateMeta {
+  const { templates } = getTemplateData();
+  if (isCustomTemplateKey(key)) return custom[key] ?? templates[DEFAULT_TEMPLATE];
+  return templates[key];
+}
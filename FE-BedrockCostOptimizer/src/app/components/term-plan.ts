@@ -0,0 +1,316 @@
+import {
+  DEFAULT_INFERENCE_PROFILE, DEFAULT_REGION,
+  type BedrockModel, type SpeechModel,
+} from "./pricing-data";
+import {
+  DEFAULT_CACHE_CHECKPOINTS, DEFAULT_VISION_INPUT, DEFAULT_TOOL_CONFIG,
+  buildModelScenario, getSpeechTranscriptTokens, getStrategies, runStrategies, rankStrategyResults,
+  type CustomTemplates, type SimulationInput, type Strategy, type StrategyContext, type TemplateKey,
+} from "./simulator-engine";
+import { getTemplate } from "./template-data";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TermCalendar {
+  name: string;
+  // ISO date (yyyy-mm-dd) of the first day of week 1.
+  startDate: string;
+  weeks: number;
+  // 1-based weeks without classes; work in progress pauses over them.
+  breakWeeks: number[];
+}
+
+export interface TermSection {
+  id: string;
+  name: string;
+  students: number;
+}
+
+export interface TermAssignment {
+  id: string;
+  name: string;
+  template: TemplateKey;
+  // 1-based week the assignment opens.
+  week: number;
+  // Teaching weeks its requests are spread over.
+  durationWeeks: number;
+  reqsPerStudent: number;
+  sectionIds: string[];
+}
+
+export interface TermPlan {
+  version: 1;
+  calendar: TermCalendar;
+  modelId: string;
+  sections: TermSection[];
+  assignments: TermAssignment[];
+}
+
+// Each section runs the assignment on its own, so each pays its own cache writes.
+export interface AssignmentProjection {
+  assignment: TermAssignment;
+  students: number;
+  // The winner shared by every section; null when sections differ or none is priced.
+  strategy: Strategy | null;
+  sectionStrategies: { sectionId: string; strategy: Strategy }[];
+  cost: number;
+  baselineCost: number;
+  // Teaching weeks the cost lands in.
+  weeks: number[];
+  // Why the assignment has no teaching weeks; its cost is then left out of the totals.
+  problem: string | null;
+}
+
+export interface TermWeek {
+  week: number;
+  startDate: string;
+  isBreak: boolean;
+  cost: number;
+  baselineCost: number;
+  cumulative: number;
+  cumulativeBaseline: number;
+}
+
+export interface TermProjection {
+  assignments: AssignmentProjection[];
+  weeks: TermWeek[];
+  total: number;
+  baselineTotal: number;
+  // Cost of assignments that fall outside the term, not included in the total.
+  unscheduledCost: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const TERM_PLAN_VERSION = 1;
+
+// Presets come from the loaded template data, so the default plan is built on demand.
+export function createDefaultTermPlan(): TermPlan {
+  const reqs = (template: TemplateKey) => getTemplate(template).preset.reqsPerStudent;
+  return {
+    version: TERM_PLAN_VERSION,
+    calendar: { name: "Fall semester", startDate: "2026-08-24", weeks: 16, breakWeeks: [12] },
+    modelId: "anthropic.claude-sonnet-4-6-20260115-v1:0",
+    sections: [
+      { id: "s1", name: "Section 1", students: 30 },
+      { id: "s2", name: "Section 2", students: 28 },
+      { id: "s3", name: "Section 3", students: 25 },
+    ],
+    assignments: [
+      { id: "a1", name: "Essay 1 feedback", template: "graf-literary", week: 3, durationWeeks: 1, reqsPerStudent: reqs("graf-literary"), sectionIds: ["s1", "s2", "s3"] },
+      { id: "a2", name: "Writing tutor", template: "clarity-chat", week: 5, durationWeeks: 3, reqsPerStudent: reqs("clarity-chat"), sectionIds: ["s1", "s2", "s3"] },
+      { id: "a3", name: "Essay 2 feedback", template: "graf-literary", week: 9, durationWeeks: 1, reqsPerStudent: reqs("graf-literary"), sectionIds: ["s1", "s2", "s3"] },
+      { id: "a4", name: "Final project help", template: "interactive-ai", week: 13, durationWeeks: 2, reqsPerStudent: reqs("interactive-ai"), sectionIds: ["s1", "s2", "s3"] },
+    ],
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Calendar
+// ---------------------------------------------------------------------------
+
+export function getWeekStartDate(calendar: TermCalendar, week: number): string {
+  const start = new Date(`${calendar.startDate}T00:00:00Z`);
+  if (Number.isNaN(start.getTime())) return "";
+  return new Date(start.getTime() + (week - 1) * 7 * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Teaching weeks from the opening week on, skipping breaks and stopping at
+// the end of term.
+export function getAssignmentWeeks(calendar: TermCalendar, assignment: TermAssignment): number[] {
+  const weeks: number[] = [];
+  for (let w = assignment.week; w <= calendar.weeks && weeks.length < assignment.durationWeeks; w++) {
+    if (!calendar.breakWeeks.includes(w)) weeks.push(w);
+  }
+  return weeks;
+}
+
+export function getAssignmentWeekProblem(calendar: TermCalendar, assignment: TermAssignment): string | null {
+  if (assignment.week > calendar.weeks) {
+    return `Opens in week ${assignment.week}, after the term ends in week ${calendar.weeks}`;
+  }
+  if (getAssignmentWeeks(calendar, assignment).length === 0) {
+    return `Week ${assignment.week} to the end of term is all break weeks`;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Projection
+// ---------------------------------------------------------------------------
+
+// A template at its preset values, as the simulator opens it, for one section.
+export function buildAssignmentInput(
+  template: TemplateKey,
+  model: BedrockModel,
+  speechModel: SpeechModel | null,
+  students: number,
+  reqsPerStudent: number,
+  customTemplates: CustomTemplates = {}
+): { input: SimulationInput; context: StrategyContext; summarization: boolean } {
+  const meta = getTemplate(template, customTemplates);
+  const transcript = meta.speech ? getSpeechTranscriptTokens(meta.speech, reqsPerStudent) : null;
+  const input: SimulationInput = {
+    model,
+    ...meta.preset,
+    students,
+    reqsPerStudent,
+    subTokens: transcript?.student ?? meta.preset.subTokens,
+    outputTokens: transcript?.ai ?? meta.preset.outputTokens,
+    tierMultiplier: 1.0,
+    cacheTTL: meta.defaultCacheTTL,
+    submissionCacheable: meta.submissionCacheable,
+    conversational: meta.conversational,
+    progressiveSubmission: meta.progressiveSubmission,
+    summarySize: meta.defaultSummarySize,
+    guardrails: null,
+    cacheCheckpoints: DEFAULT_CACHE_CHECKPOINTS,
+    cacheWrites: null,
+    vision: DEFAULT_VISION_INPUT,
+    tools: DEFAULT_TOOL_CONFIG,
+    reasoningTokens: 0,
+    retrieval: meta.retrieval,
+    speech: meta.speech,
+    speechModel,
+  };
+  const context: StrategyContext = {
+    supportsCaching: false,
+    batchIncluded: false,
+    retrievalEnabled: meta.retrieval != null,
+    speechEnabled: meta.speech != null && speechModel != null,
+    displayMode: meta.displayMode,
+  };
+  const scenario = buildModelScenario(input, context, model, {
+    regionId: DEFAULT_REGION,
+    profile: DEFAULT_INFERENCE_PROFILE,
+    tier: "standard",
+    cacheTTL: meta.defaultCacheTTL,
+    batchEnabled: true,
+  });
+  return {
+    input: scenario.input,
+    context: scenario.context,
+    summarization: meta.conversational && meta.defaultSummarizationEnabled,
+  };
+}
+
+// Cheapest strategy for each section, against the same strategy group's
+// no-caching baseline.
+function projectAssignment(
+  plan: TermPlan,
+  assignment: TermAssignment,
+  model: BedrockModel,
+  speechModel: SpeechModel | null,
+  customTemplates: CustomTemplates
+): AssignmentProjection {
+  const sections = plan.sections.filter((s) => assignment.sectionIds.includes(s.id) && s.students > 0);
+  const sectionStrategies: AssignmentProjection["sectionStrategies"] = [];
+  let cost = 0;
+  let baselineCost = 0;
+
+  for (const section of sections) {
+    const { input, context, summarization } = buildAssignmentInput(
+      assignment.template, model, speechModel, section.students, assignment.reqsPerStudent, customTemplates
+    );
+    const strategies = getStrategies(summarization ? "summarization" : "standard", context);
+    const results = runStrategies(input, strategies);
+    const best = rankStrategyResults(results)[0];
+    if (!best) continue;
+    sectionStrategies.push({ sectionId: section.id, strategy: best.strategy });
+    cost += best.breakdown.total;
+    baselineCost += results.find((r) => r.strategy.kind === "baseline")?.breakdown.total ?? best.breakdown.total;
+  }
+
+  const strategy = sectionStrategies[0]?.strategy ?? null;
+  return {
+    assignment,
+    students: sections.reduce((sum, s) => sum + s.students, 0),
+    strategy: sectionStrategies.every((s) => s.strategy.key === strategy?.key) ? strategy : null,
+    sectionStrategies,
+    cost,
+    baselineCost,
+    weeks: getAssignmentWeeks(plan.calendar, assignment),
+    problem: getAssignmentWeekProblem(plan.calendar, assignment),
+  };
+}
+
+export function projectTerm(
+  plan: TermPlan,
+  model: BedrockModel,
+  speechModel: SpeechModel | null,
+  customTemplates: CustomTemplates = {}
+): TermProjection {
+  const { calendar } = plan;
+  const assignments = plan.assignments.map((a) => projectAssignment(plan, a, model, speechModel, customTemplates));
+
+  const weekly = Array.from({ length: calendar.weeks }, () => ({ cost: 0, baselineCost: 0 }));
+  for (const a of assignments) {
+    for (const w of a.weeks) {
+      weekly[w - 1].cost += a.cost / a.weeks.length;
+      weekly[w - 1].baselineCost += a.baselineCost / a.weeks.length;
+    }
+  }
+
+  let cumulative = 0;
+  let cumulativeBaseline = 0;
+  const weeks = weekly.map((w, i): TermWeek => {
+    cumulative += w.cost;
+    cumulativeBaseline += w.baselineCost;
+    return {
+      week: i + 1,
+      startDate: getWeekStartDate(calendar, i + 1),
+      isBreak: calendar.breakWeeks.includes(i + 1),
+      cost: w.cost,
+      baselineCost: w.baselineCost,
+      cumulative,
+      cumulativeBaseline,
+    };
+  });
+
+  const unscheduledCost = assignments.filter((a) => a.weeks.length === 0).reduce((sum, a) => sum + a.cost, 0);
+  return { assignments, weeks, total: cumulative, baselineTotal: cumulativeBaseline, unscheduledCost };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export function termPlanToJson(plan: TermPlan, projection: TermProjection): string {
+  return JSON.stringify({
+    plan,
+    projection: {
+      total: projection.total,
+      baselineTotal: projection.baselineTotal,
+      unscheduledCost: projection.unscheduledCost,
+      assignments: projection.assignments.map((a) => ({
+        id: a.assignment.id,
+        name: a.assignment.name,
+        students: a.students,
+        strategy: a.strategy?.key ?? null,
+        sectionStrategies: a.sectionStrategies.map((s) => ({ sectionId: s.sectionId, strategy: s.strategy.key })),
+        cost: a.cost,
+        baselineCost: a.baselineCost,
+        weeks: a.weeks,
+        problem: a.problem,
+      })),
+      weeks: projection.weeks,
+    },
+  }, null, 2);
+}
+
+export function termProjectionToCsv(projection: TermProjection): string {
+  const rows = [
+    ["week", "start_date", "break", "cost", "cumulative", "cost_without_caching", "cumulative_without_caching"],
+    ...projection.weeks.map((w) => [
+      w.week, w.startDate, w.isBreak ? "yes" : "no",
+      w.cost.toFixed(4), w.cumulative.toFixed(4), w.baselineCost.toFixed(4), w.cumulativeBaseline.toFixed(4),
+    ]),
+  ];
+  return rows.map((r) => r.join(",")).join("\n");
+}
@@ -0,0 +1,436 @@
+import { useState, useMemo } from "react";
+import {
+  Card, CardHeader, CardTitle, CardDescription, CardContent,
+} from "./ui/card";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "./ui/select";
+import {
+  Table, TableHeader, TableBody, TableHead, TableRow, TableCell,
+} from "./ui/table";
+import { getPricingData, DEFAULT_SPEECH_MODEL } from "./pricing-data";
+import { formatCost, type TemplateKey } from "./simulator-engine";
+import { getTemplate, getTemplateData } from "./template-data";
+import { loadCustomTemplates } from "./custom-templates";
+import { downloadFile, slugify } from "./file-utils";
+import {
+  createDefaultTermPlan, projectTerm, termPlanToJson, termProjectionToCsv,
+  type TermAssignment, type TermCalendar, type TermPlan, type TermSection,
+} from "./term-plan";
+import { TermCostChart } from "./charts/TermCostChart";
+import { AlertTriangle, CalendarDays, Download, Plus, Trash2, Users } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function nextId(prefix: string, items: { id: string }[]): string {
+  const taken = new Set(items.map((i) => i.id));
+  let n = items.length + 1;
+  while (taken.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+// "12, 13" → [12, 13]
+function parseWeekList(text: string, weeks: number): number[] {
+  return [...new Set(
+    text.split(",")
+      .map((part) => parseInt(part.trim()))
+      .filter((w) => Number.isFinite(w) && w >= 1 && w <= weeks)
+  )].sort((a, b) => a - b);
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function TermPlanner() {
+  const pricingData = getPricingData();
+  const [plan, setPlan] = useState<TermPlan>(createDefaultTermPlan);
+  const [breakText, setBreakText] = useState(() => plan.calendar.breakWeeks.join(", "));
+  const [customTemplates] = useState(loadCustomTemplates);
+  const { calendar, sections, assignments } = plan;
+
+  const model = pricingData.models.find((m) => m.id === plan.modelId) ?? pricingData.models[0];
+  const speechModel = pricingData.speech_models.find((m) => m.id === DEFAULT_SPEECH_MODEL) ?? pricingData.speech_models[0] ?? null;
+
+  const projection = useMemo(
+    () => projectTerm(plan, model, speechModel, customTemplates),
+    [plan, model, speechModel, customTemplates]
+  );
+  const totalStudents = sections.reduce((sum, s) => sum + s.students, 0);
+  const savings = projection.baselineTotal - projection.total;
+
+  const updateCalendar = (patch: Partial<TermCalendar>) =>
+    setPlan((p) => ({ ...p, calendar: { ...p.calendar, ...patch } }));
+
+  const updateSection = (id: string, patch: Partial<TermSection>) =>
+    setPlan((p) => ({ ...p, sections: p.sections.map((s) => (s.id === id ? { ...s, ...patch } : s)) }));
+
+  const addSection = () =>
+    setPlan((p) => {
+      const id = nextId("s", p.sections);
+      return { ...p, sections: [...p.sections, { id, name: `Section ${p.sections.length + 1}`, students: 25 }] };
+    });
+
+  const removeSection = (id: string) =>
+    setPlan((p) => ({
+      ...p,
+      sections: p.sections.filter((s) => s.id !== id),
+      assignments: p.assignments.map((a) => ({ ...a, sectionIds: a.sectionIds.filter((sid) => sid !== id) })),
+    }));
+
+  const updateAssignment = (id: string, patch: Partial<TermAssignment>) =>
+    setPlan((p) => ({ ...p, assignments: p.assignments.map((a) => (a.id === id ? { ...a, ...patch } : a)) }));
+
+  const addAssignment = () =>
+    setPlan((p) => {
+      const id = nextId("a", p.assignments);
+      const template: TemplateKey = "graf-simple";
+      return {
+        ...p,
+        assignments: [...p.assignments, {
+          id,
+          name: `Assignment ${p.assignments.length + 1}`,
+          template,
+          week: 1,
+          durationWeeks: 1,
+          reqsPerStudent: getTemplate(template).preset.reqsPerStudent,
+          sectionIds: p.sections.map((s) => s.id),
+        }],
+      };
+    });
+
+  const removeAssignment = (id: string) =>
+    setPlan((p) => ({ ...p, assignments: p.assignments.filter((a) => a.id !== id) }));
+
+  const toggleAssignmentSection = (assignment: TermAssignment, sectionId: string, checked: boolean) =>
+    updateAssignment(assignment.id, {
+      sectionIds: checked
+        ? [...assignment.sectionIds, sectionId]
+        : assignment.sectionIds.filter((sid) => sid !== sectionId),
+    });
+
+  const weekOptions = Array.from({ length: calendar.weeks }, (_, i) => i + 1);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2>Term Planner</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          Place template-based assignments on a semester calendar, set enrollment per section, and project weekly and cumulative cost for the whole term.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+        {/* LEFT PANEL: Calendar and sections */}
+        <div className="lg:col-span-4 space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <span className="flex items-center gap-2">
+                  <CalendarDays className="w-5 h-5 text-primary" />
+                  Term Calendar
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Term name</Label>
+                <Input value={calendar.name} onChange={(e) => updateCalendar({ name: e.target.value })} className="h-8 text-xs" />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label className="text-xs">First day</Label>
+                  <Input
+                    type="date"
+                    value={calendar.startDate}
+                    onChange={(e) => updateCalendar({ startDate: e.target.value })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Weeks</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={52}
+                    value={calendar.weeks}
+                    onChange={(e) => {
+                      const weeks = Math.min(52, Math.max(1, parseInt(e.target.value) || 1));
+                      updateCalendar({ weeks, breakWeeks: calendar.breakWeeks.filter((w) => w <= weeks) });
+                    }}
+                    className="h-8 text-xs"
+                  />
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Break weeks (comma-separated)</Label>
+                <Input
+                  value={breakText}
+                  onChange={(e) => {
+                    setBreakText(e.target.value);
+                    updateCalendar({ breakWeeks: parseWeekList(e.target.value, calendar.weeks) });
+                  }}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Model</Label>
+                <Select value={model.id} onValueChange={(modelId) => setPlan((p) => ({ ...p, modelId }))}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pricingData.models.map((m) => (
+                      <SelectItem key={m.id} value={m.id} className="text-xs">
+                        {m.name} <span className="text-muted-foreground">({m.provider})</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <span className="flex items-center gap-2">
+                  <Users className="w-5 h-5 text-primary" />
+                  Sections
+                </span>
+              </CardTitle>
+              <CardDescription className="text-sm">{totalStudents.toLocaleString()} students enrolled</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {sections.map((s) => (
+                <div key={s.id} className="flex items-center gap-2">
+                  <Input value={s.name} onChange={(e) => updateSection(s.id, { name: e.target.value })} className="h-8 text-xs flex-1" />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={s.students}
+                    onChange={(e) => updateSection(s.id, { students: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="h-8 text-xs w-20"
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeSection(s.id)} aria-label={`Remove ${s.name}`}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" className="text-xs" onClick={addSection}>
+                <Plus className="w-3.5 h-3.5" /> Add section
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* RIGHT PANEL: Assignments and projection */}
+        <div className="lg:col-span-8 space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Assignments</CardTitle>
+              <CardDescription className="text-sm">
+                Each assignment uses its template's preset token sizes; requests are spread evenly over its teaching weeks
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {assignments.map((a) => {
+                const projected = projection.assignments.find((p) => p.assignment.id === a.id);
+                return (
+                  <div key={a.id} className="rounded-md border border-border p-3 space-y-2">
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+                      <div className="space-y-1 col-span-2">
+                        <Label className="text-xs">Name</Label>
+                        <Input value={a.name} onChange={(e) => updateAssignment(a.id, { name: e.target.value })} className="h-8 text-xs" />
+                      </div>
+                      <div className="space-y-1 col-span-2">
+                        <Label className="text-xs">Template</Label>
+                        <Select
+                          value={a.template}
+                          onValueChange={(v) => {
+                            const template = v as TemplateKey;
+                            updateAssignment(a.id, { template, reqsPerStudent: getTemplate(template, customTemplates).preset.reqsPerStudent });
+                          }}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {([...Object.keys(getTemplateData().templates), ...Object.keys(customTemplates)] as TemplateKey[]).map((key) => (
+                              <SelectItem key={key} value={key} className="text-xs">{getTemplate(key, customTemplates).label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Opens</Label>
+                        <Select value={String(a.week)} onValueChange={(v) => updateAssignment(a.id, { week: parseInt(v) })}>
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {weekOptions.map((w) => (
+                              <SelectItem key={w} value={String(w)} className="text-xs">
+                                Week {w}{calendar.breakWeeks.includes(w) ? " (break)" : ""}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Weeks</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={a.durationWeeks}
+                          onChange={(e) => updateAssignment(a.id, { durationWeeks: Math.max(1, parseInt(e.target.value) || 1) })}
+                          className="h-8 text-xs"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                      <div className="flex items-center gap-2">
+                        <Label className="text-xs whitespace-nowrap">{getTemplate(a.template, customTemplates).fieldLabels.reqsPerStudent.label}</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={a.reqsPerStudent}
+                          onChange={(e) => updateAssignment(a.id, { reqsPerStudent: Math.max(1, parseInt(e.target.value) || 1) })}
+                          className="h-8 text-xs w-20"
+                        />
+                      </div>
+                      {sections.map((s) => (
+                        <div key={s.id} className="flex items-center gap-1.5">
+                          <Checkbox
+                            id={`${a.id}-${s.id}`}
+                            checked={a.sectionIds.includes(s.id)}
+                            onCheckedChange={(c) => toggleAssignmentSection(a, s.id, c === true)}
+                          />
+                          <Label htmlFor={`${a.id}-${s.id}`} className="cursor-pointer text-xs">{s.name}</Label>
+                        </div>
+                      ))}
+                      <Button variant="ghost" size="icon" className="h-8 w-8 ml-auto" onClick={() => removeAssignment(a.id)} aria-label={`Remove ${a.name}`}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {projected && (
+                      <p className="text-muted-foreground text-xs">
+                        {projected.students.toLocaleString()} students
+                        {projected.strategy
+                          ? <> · {projected.strategy.label}</>
+                          : projected.sectionStrategies.length > 0 && (
+                            <> · {projected.sectionStrategies
+                              .map((s) => `${sections.find((sec) => sec.id === s.sectionId)?.name}: ${s.strategy.label}`)
+                              .join(", ")}</>
+                          )}
+                        {" "}· <strong className="text-foreground">{formatCost(projected.cost)}</strong>
+                        {projected.weeks.length > 0 && <> over week{projected.weeks.length > 1 ? "s" : ""} {projected.weeks.join(", ")}</>}
+                      </p>
+                    )}
+                    {projected?.problem && (
+                      <p className="text-amber-700 dark:text-amber-400 text-xs">
+                        {projected.problem}; its cost is not in the term totals.
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+              <Button variant="outline" size="sm" className="text-xs" onClick={addAssignment}>
+                <Plus className="w-3.5 h-3.5" /> Add assignment
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between flex-wrap gap-2">
+                <div>
+                  <CardTitle>Term Projection</CardTitle>
+                  <CardDescription className="text-sm">
+                    {model.name}, cheapest strategy per assignment, against sending every request without caching
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs"
+                    onClick={() => downloadFile(`${slugify(calendar.name, "term-plan")}.json`, termPlanToJson(plan, projection), "application/json")}
+                  >
+                    <Download className="w-3.5 h-3.5" /> Plan (JSON)
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs"
+                    onClick={() => downloadFile(`${slugify(calendar.name, "term-plan")}-weekly.csv`, termProjectionToCsv(projection), "text/csv")}
+                  >
+                    <Download className="w-3.5 h-3.5" /> Weekly costs (CSV)
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="rounded-md border border-border p-3">
+                  <p className="text-muted-foreground text-xs">Term total</p>
+                  <p className="text-xl font-medium">{formatCost(projection.total)}</p>
+                </div>
+                <div className="rounded-md border border-border p-3">
+                  <p className="text-muted-foreground text-xs">Without caching</p>
+                  <p className="text-xl font-medium">{formatCost(projection.baselineTotal)}</p>
+                </div>
+                <div className="rounded-md border border-border p-3">
+                  <p className="text-muted-foreground text-xs">Per enrolled student</p>
+                  <p className="text-xl font-medium">{totalStudents > 0 ? formatCost(projection.total / totalStudents) : "—"}</p>
+                </div>
+              </div>
+              {projection.unscheduledCost > 0 && (
+                <div className="flex items-start gap-3 rounded-md border border-amber-500/30 bg-amber-50 dark:bg-amber-900/10 p-3 text-xs">
+                  <AlertTriangle className="w-4 h-4 text-amber-600 shrink-0" />
+                  <p>
+                    {formatCost(projection.unscheduledCost)} of assignments fall outside the term and are not included. Move them to a teaching week to count them.
+                  </p>
+                </div>
+              )}
+              {savings > 0 && (
+                <p className="text-xs text-emerald-700 dark:text-emerald-400">
+                  Caching and batch save {formatCost(savings)} over the term ({((savings / projection.baselineTotal) * 100).toFixed(0)}%).
+                </p>
+              )}
+
+              <TermCostChart weeks={projection.weeks} />
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Week</TableHead>
+                    <TableHead>Starts</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Cumulative</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {projection.weeks.filter((w) => w.cost > 0 || w.isBreak).map((w) => (
+                    <TableRow key={w.week} className={w.isBreak ? "text-muted-foreground" : undefined}>
+                      <TableCell>Week {w.week}{w.isBreak ? " (break)" : ""}</TableCell>
+                      <TableCell>{w.startDate}</TableCell>
+                      <TableCell className="text-right">{formatCost(w.cost)}</TableCell>
+                      <TableCell className="text-right">{formatCost(w.cumulative)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState, useMemo } from "react";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import type { BedrockModel } from "./pricing-data";
+import { TOKENIZER_PROFILES, getTokenizerFamily, measureSample } from "./token-estimator";
+import { Ruler, Upload } from "lucide-react";
+
+interface TokenEstimatorDialogProps {
+  fieldLabel: string;
+  model: BedrockModel;
+  min: number;
+  max: number;
+  onApply: (tokens: number) => void;
+}
+
+export function TokenEstimatorDialog({ fieldLabel, model, min, max, onApply }: TokenEstimatorDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const family = getTokenizerFamily(model);
+  const estimate = useMemo(() => measureSample(text, family), [text, family]);
+  const clamped = Math.min(max, Math.max(min, estimate.tokens));
+  const ratioDiff = estimate.wordRatioTokens > 0
+    ? (estimate.tokens - estimate.wordRatioTokens) / estimate.wordRatioTokens
+    : 0;
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setFileName(file.name);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-primary transition-colors cursor-pointer"
+          aria-label={`Measure ${fieldLabel} from a sample`}
+          title="Measure from sample"
+        >
+          <Ruler className="w-3.5 h-3.5" />
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Measure {fieldLabel}</DialogTitle>
+          <DialogDescription>
+            Paste a real sample or drop a text file. It is tokenized in your browser with an estimator tuned to the {TOKENIZER_PROFILES[family].label} tokenizer — nothing is uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          className={`relative rounded-md border ${dragging ? "border-primary bg-primary/5" : "border-border"}`}
+          onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            loadFile(e.dataTransfer.files[0]);
+          }}
+        >
+          <textarea
+            value={text}
+            onChange={(e) => { setText(e.target.value); setFileName(null); }}
+            placeholder="Paste text here, or drop a .txt / .md file…"
+            className="w-full h-56 resize-y bg-transparent p-3 text-sm font-mono outline-none"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <label className="inline-flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary cursor-pointer">
+            <Upload className="w-3.5 h-3.5" />
+            {fileName ?? "Choose a file"}
+            <input
+              type="file"
+              accept=".txt,.md,.csv,.json,.html,text/*"
+              className="hidden"
+              onChange={(e) => loadFile(e.target.files?.[0])}
+            />
+          </label>
+          <span className="text-xs text-muted-foreground">
+            {estimate.characters.toLocaleString()} characters · {estimate.words.toLocaleString()} words
+          </span>
+        </div>
+
+        {text.trim() && (
+          <div className="rounded-md bg-muted/50 p-3 space-y-1">
+            <p className="text-sm">
+              <strong className="text-lg">{estimate.tokens.toLocaleString()}</strong> tokens
+              <Badge variant="secondary" className="ml-2 text-[10px]">{TOKENIZER_PROFILES[family].label}</Badge>
+            </p>
+            <p className="text-muted-foreground text-xs">
+              The words-based estimate would be {estimate.wordRatioTokens.toLocaleString()} tokens
+              {Math.abs(ratioDiff) >= 0.01 && (
+                <> ({ratioDiff > 0 ? "+" : ""}{(ratioDiff * 100).toFixed(0)}% from this sample)</>
+              )}.
+              Tables, numbering, markup and names tokenize less efficiently than plain prose.
+            </p>
+            {clamped !== estimate.tokens && (
+              <p className="text-amber-700 dark:text-amber-400 text-xs">
+                Outside the slider range — {clamped.toLocaleString()} tokens will be used.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            disabled={!text.trim()}
+            onClick={() => {
+              onApply(clamped);
+              setOpen(false);
+            }}
+          >
+            Use {clamped.toLocaleString()} tokens
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
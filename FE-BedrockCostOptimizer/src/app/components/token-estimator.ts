@@ -0,0 +1,119 @@
+import type { BedrockModel } from "./pricing-data";
+import { TOKENS_PER_WORD } from "./simulator-engine";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TokenizerFamily = "claude" | "nova";
+
+// Shape of a family's BPE vocabulary, reduced to the few numbers that drive
+// token counts: how long a word can be before it splits, how long the
+// resulting subword pieces run, and how digits, symbols and whitespace merge.
+export interface TokenizerProfile {
+  label: string;
+  wholeWordMax: number;
+  subwordLength: number;
+  capitalizedPenalty: number;
+  digitGroup: number;
+  symbolRun: number;
+  mergesIndentation: boolean;
+}
+
+export interface TokenEstimate {
+  tokens: number;
+  words: number;
+  characters: number;
+  // What the fixed words-to-tokens ratio would have guessed for the same text.
+  wordRatioTokens: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const TOKENIZER_PROFILES: Record<TokenizerFamily, TokenizerProfile> = {
+  claude: {
+    label: "Claude",
+    wholeWordMax: 8,
+    subwordLength: 4,
+    capitalizedPenalty: 0.15,
+    digitGroup: 3,
+    symbolRun: 2,
+    mergesIndentation: true,
+  },
+  nova: {
+    label: "Amazon Nova",
+    wholeWordMax: 7,
+    subwordLength: 3.5,
+    capitalizedPenalty: 0.25,
+    digitGroup: 1,
+    symbolRun: 1,
+    mergesIndentation: false,
+  },
+};
+
+// Pre-tokenizer pieces, GPT-style: an optional leading space glued to a word,
+// digit runs, symbol runs, newline runs, other whitespace.
+const PIECE_PATTERN = /'(?:s|t|re|ve|m|ll|d)| ?[A-Za-z]+| ?[0-9]+| ?[^\sA-Za-z0-9]+|\n+|[^\S\n]+/g;
+
+// Scripts with no spaces between words, where BPE vocabularies spend roughly one token per character.
+const WIDE_SCRIPT_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯]/;
+
+// ---------------------------------------------------------------------------
+// Estimation
+// ---------------------------------------------------------------------------
+
+export function getTokenizerFamily(model: BedrockModel): TokenizerFamily {
+  return model.provider === "Anthropic" ? "claude" : "nova";
+}
+
+function wordTokens(word: string, profile: TokenizerProfile): number {
+  const base = word.length <= profile.wholeWordMax
+    ? 1
+    : 1 + Math.ceil((word.length - profile.wholeWordMax) / profile.subwordLength);
+  // All-caps and CamelCase words are rarer in the training text and split more.
+  if (word.length > 1 && word !== word.toLowerCase() && word.slice(1) !== word.slice(1).toLowerCase()) {
+    return base + Math.ceil(word.length / profile.subwordLength);
+  }
+  return word[0] !== word[0].toLowerCase() ? base + profile.capitalizedPenalty : base;
+}
+
+function symbolTokens(symbols: string, profile: TokenizerProfile): number {
+  let tokens = 0;
+  for (const ch of symbols) {
+    // Accented Latin letters and other non-ASCII characters are split into their UTF-8 bytes.
+    if (WIDE_SCRIPT_PATTERN.test(ch)) tokens += 1;
+    else if (ch.charCodeAt(0) > 127) tokens += 1.5;
+  }
+  const ascii = symbols.replace(/[^\x00-\x7f]/g, "");
+  return tokens + Math.ceil(ascii.length / profile.symbolRun);
+}
+
+function pieceTokens(piece: string, profile: TokenizerProfile): number {
+  if (piece.startsWith("\n")) return 1;
+  if (/^[^\S\n]+$/.test(piece)) {
+    return profile.mergesIndentation ? 1 : Math.ceil(piece.length / 4);
+  }
+  const body = piece.startsWith(" ") ? piece.slice(1) : piece;
+  if (/^[A-Za-z]+$/.test(body)) return wordTokens(body, profile);
+  if (/^[0-9]+$/.test(body)) return Math.ceil(body.length / profile.digitGroup);
+  if (/^'/.test(body)) return 1;
+  return symbolTokens(body, profile);
+}
+
+export function estimateTokens(text: string, family: TokenizerFamily): number {
+  const profile = TOKENIZER_PROFILES[family];
+  const pieces = text.match(PIECE_PATTERN) ?? [];
+  return Math.round(pieces.reduce((sum, piece) => sum + pieceTokens(piece, profile), 0));
+}
+
+export function measureSample(text: string, family: TokenizerFamily): TokenEstimate {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return {
+    tokens: estimateTokens(text, family),
+    words,
+    characters: text.length,
+    wordRatioTokens: Math.round(words * TOKENS_PER_WORD),
+  };
+}
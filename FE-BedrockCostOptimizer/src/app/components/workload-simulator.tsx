@@ -1,5 +1,5 @@
 import { useState, useMemo, useCallback, useEffect, useRef } from "react";
-import { useSearchParams } from "react-router";
+import { Link, useSearchParams } from "react-router";
 import {
   Card, CardHeader, CardTitle, CardDescription, CardContent,
 } from "./ui/card";
@@ -8,38 +8,67 @@ import { Input } from "./ui/input";
 import { Slider } from "./ui/slider";
 import { Checkbox } from "./ui/checkbox";
 import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
 import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from "./ui/select";
 import { Tooltip, TooltipTrigger, TooltipContent } from "./ui/tooltip";
+import {
+  Table, TableHeader, TableBody, TableHead, TableRow, TableCell,
+} from "./ui/table";
 import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
-import { getPricingData } from "./pricing-data";
-import { PromptVisualizer } from "./prompt-visualizer";
 import {
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend,
-  ResponsiveContainer, Tooltip as RechartsTooltip,
-  LineChart, Line, ReferenceDot, ReferenceLine,
-} from "recharts";
+  getPricingData, resolveModelPricing, getEffectiveProfile, getInferenceProfileId,
+  INFERENCE_PROFILES, DEFAULT_REGION, DEFAULT_INFERENCE_PROFILE, DEFAULT_EMBEDDING_MODEL, DEFAULT_SPEECH_MODEL, type InferenceProfile, type GuardrailPolicy,
+} from "./pricing-data";
+import { PromptVisualizer } from "./prompt-visualizer";
 import {
   TrendingDown, Info, Zap, Award, Users, MessageSquare,
-  BookOpen, FileText, PenLine, Terminal, Shield, Timer,
+  BookOpen, FileText, PenLine, Terminal, Shield, Timer, ImageIcon, Wrench, Brain, Library, Mic,
+  Plus, Pencil, Trash2, Download, Upload, Link2, AlertTriangle, GitCompareArrows,
 } from "lucide-react";
 import {
-  type TemplateKey, type CacheTTL, type DisplayMode, type InputMode,
-  type SensitivityParamKey, type CostBreakdown,
-  TEMPLATES, DEFAULT_TEMPLATE, CHART_COLORS,
-  SENSITIVITY_SAMPLE_POINTS, SENSITIVITY_INSIGHT, STRATEGY_TIEBREAK,
-  TOKENS_PER_WORD, WORDS_PER_TOKEN,
-  formatParamLabel, formatCost, getCacheWritePrice,
-  computeStrategyA, computeStrategyB, computeNoCaching, computeBatch,
+  type TemplateKey, type CustomTemplateKey, type CustomTemplates, type TemplateMeta, type CacheTTL, type DisplayMode, type InputMode,
+  type SensitivityParamKey, type SimulationInput, type PromptSegmentKey, type Strategy, type StrategyContext, type StrategyResult, type StrategyLatency,
+  type VisionInput, type VisionInputKind, type ToolConfig, type RetrievalConfig, type SpeechSession,
+  type GuardrailsConfig, type GuardrailDirection, type PricingTier, type ScenarioSettings,
+  DEFAULT_TEMPLATE, DEFAULT_CACHE_CHECKPOINTS, DEFAULT_GUARDRAIL_POLICIES, GUARDRAIL_POLICIES, GUARDRAIL_DIRECTION_LABELS, DEFAULT_VISION_INPUT, IMAGE_RESOLUTIONS, DEFAULT_TOOL_CONFIG,
+  SENSITIVITY_INSIGHT,
+  TOKENS_PER_WORD, WORDS_PER_TOKEN, SPOKEN_WORDS_PER_MINUTE,
+  TIER_MULTIPLIERS,
+  formatCost, isCustomTemplateKey, getCacheWritePrice, getEffectiveTier, isBatchIncluded,
   computeTokensPerExchange, computeHistoryAtTurn,
   getEffectiveInstTokens, getEffectiveSubTokens, computeSubTokensAtTurn,
   simulateSummarization, computeSummarizationCost,
-  computeSumNoCaching, computeSumCacheAssessment, computeSumCacheSummary,
-  computeGuardrailsCost,
+  buildCacheLayers, getVisionTokens, getToolOverhead, getReasoningTokens, getRetrievedTokens, getSpeechTranscriptTokens, getSpeechConnections, getStrategy, getStrategies, runStrategies, rankStrategyResults, findWinner, computeStrategyCost, computeGuardrailsCost, estimateLatency,
+  computeParamSensitivity, findCrossovers,
 } from "./simulator-engine";
-import { CostComparisonBarChart } from "./charts/CostComparisonBarChart";
+import {
+  type ArrivalPattern, type ClassSection, ARRIVAL_PATTERNS, generateArrivals, simulateCacheWrites,
+  splitIntoSections, countSectionStudents, generateSectionArrivals, analyzeSectionCache, getCacheHitRatio, formatClockTime,
+} from "./cache-timeline";
+import { MonteCarloPanel } from "./monte-carlo-panel";
+import { TokenEstimatorDialog } from "./token-estimator-dialog";
+import { getTemplate, getTemplateData, isTemplateKey } from "./template-data";
+import { CustomTemplateDialog } from "./custom-template-dialog";
+import { SaveScenarioDialog } from "./save-scenario-dialog";
+import {
+  loadCustomTemplates, saveCustomTemplates, createCustomTemplateKey, exportTemplates, parseTemplateFile, withoutTemplate,
+} from "./custom-templates";
+import { downloadFile } from "./file-utils";
+import {
+  SCENARIO_URL_PARAM, encodeScenario, decodeScenario, findMissingReferences,
+  type SimulatorScenario,
+} from "./simulator-scenario";
+import { ProvisionedThroughputPanel } from "./provisioned-throughput-panel";
+import { RateLimitPanel } from "./rate-limit-panel";
+import { BudgetSolverPanel } from "./budget-solver-panel";
+import { OptimizerPanel } from "./optimizer-panel";
+import type { OptimizerCandidate } from "./optimizer";
+import { CostComparisonBarChart, toBarChartDatum } from "./charts/CostComparisonBarChart";
+import { ParameterSensitivityChart } from "./charts/ParameterSensitivityChart";
 import { PerTurnCostChart, type PerTurnDatum } from "./charts/PerTurnCostChart";
+import { LatencyLines } from "./charts/CostSummaryCards";
 
 // Types, constants, and computation functions are imported from simulator-engine.ts
 
@@ -61,8 +90,12 @@ export function WorkloadSimulator() {
   );
 
   // --- Template state ---
+  const [customTemplates, setCustomTemplates] = useState<CustomTemplates>(loadCustomTemplates);
+  // Templates carried by an opened link last for the session unless saved.
+  const [linkTemplates, setLinkTemplates] = useState<CustomTemplates>({});
+  const templates = useMemo(() => ({ ...linkTemplates, ...customTemplates }), [linkTemplates, customTemplates]);
   const [simulationTemplate, setSimulationTemplate] = useState<TemplateKey>(DEFAULT_TEMPLATE);
-  const activeTemplateMeta = TEMPLATES[simulationTemplate];
+  const activeTemplateMeta = getTemplate(simulationTemplate, templates);
   const labels = activeTemplateMeta.fieldLabels;
   const vizLabels = activeTemplateMeta.visualizerLabels;
 
@@ -73,7 +106,8 @@ export function WorkloadSimulator() {
     if (preferred) return preferred.id;
     return cachingModels[0]?.id ?? pricingData.models[0].id;
   });
-  const defaultPreset = TEMPLATES[DEFAULT_TEMPLATE].preset;
+  const defaultTemplateMeta = getTemplate(DEFAULT_TEMPLATE);
+  const defaultPreset = defaultTemplateMeta.preset;
   const [students, setStudents] = useState(defaultPreset.students);
   const [reqsPerStudent, setReqsPerStudent] = useState(defaultPreset.reqsPerStudent);
   const [sysTokens, setSysTokens] = useState(defaultPreset.sysTokens);
@@ -81,23 +115,37 @@ export function WorkloadSimulator() {
   const [subTokens, setSubTokens] = useState(defaultPreset.subTokens);
   const [instTokens, setInstTokens] = useState(defaultPreset.instTokens);
   const [outputTokens, setOutputTokens] = useState(defaultPreset.outputTokens);
-  const [cacheTTL, setCacheTTL] = useState<CacheTTL>(TEMPLATES[DEFAULT_TEMPLATE].defaultCacheTTL);
+  const [cacheTTL, setCacheTTL] = useState<CacheTTL>(defaultTemplateMeta.defaultCacheTTL);
   const [guardrailsEnabled, setGuardrailsEnabled] = useState(false);
-  const [pricingTier, setPricingTier] = useState<"standard" | "priority" | "flex">("standard");
+  const [guardrailPolicies, setGuardrailPolicies] = useState<GuardrailsConfig["policies"]>(DEFAULT_GUARDRAIL_POLICIES);
+  const [thinkingEnabled, setThinkingEnabled] = useState(false);
+  const [reasoningBudget, setReasoningBudget] = useState(defaultTemplateMeta.defaultReasoningBudget);
+  const [regionId, setRegionId] = useState(DEFAULT_REGION);
+  const [inferenceProfile, setInferenceProfile] = useState<InferenceProfile>(DEFAULT_INFERENCE_PROFILE);
+  const [pricingTier, setPricingTier] = useState<PricingTier>("standard");
   const [batchEnabled, setBatchEnabled] = useState(true);
   const [sensitivityParam, setSensitivityParam] = useState<SensitivityParamKey>("ctxTokens");
-  const [paramChartZoomDomain, setParamChartZoomDomain] = useState<[number, number] | null>(null);
-  const paramChartContainerRef = useRef<HTMLDivElement>(null);
   const [inputMode, setInputMode] = useState<InputMode>("simple");
   const [summarizationEnabled, setSummarizationEnabled] = useState(false);
   const [summarySize, setSummarySize] = useState(500);
+  const [expirySimEnabled, setExpirySimEnabled] = useState(false);
+  const [arrivalPattern, setArrivalPattern] = useState<ArrivalPattern>("class-period");
+  const [sectionsEnabled, setSectionsEnabled] = useState(false);
+  const [sections, setSections] = useState<ClassSection[]>(() => splitIntoSections(defaultPreset.students));
+  const [cacheCheckpoints, setCacheCheckpoints] = useState<PromptSegmentKey[]>(DEFAULT_CACHE_CHECKPOINTS);
+  const [vision, setVision] = useState<VisionInput>(DEFAULT_VISION_INPUT);
+  const [tools, setTools] = useState<ToolConfig>(DEFAULT_TOOL_CONFIG);
+  const [retrieval, setRetrieval] = useState<RetrievalConfig | null>(defaultTemplateMeta.retrieval);
+  const [embeddingModelId, setEmbeddingModelId] = useState(DEFAULT_EMBEDDING_MODEL);
+  const [speech, setSpeech] = useState<SpeechSession | null>(defaultTemplateMeta.speech);
+  const [speechModelId, setSpeechModelId] = useState(DEFAULT_SPEECH_MODEL);
   const [tornadoSumStrategy, setTornadoSumStrategy] = useState<"cacheAssessment" | "cacheSummary">("cacheAssessment");
 
   // --- Template selection handler ---
   // Clicking a new template switches to it and resets parameters.
   // Clicking the already-active template resets its parameters to defaults.
   const resetToTemplate = useCallback((tmpl: TemplateKey) => {
-    const t = TEMPLATES[tmpl];
+    const t = getTemplate(tmpl, templates);
     const p = t.preset;
     setStudents(p.students);
     setReqsPerStudent(p.reqsPerStudent);
@@ -109,8 +157,15 @@ export function WorkloadSimulator() {
     setCacheTTL(t.defaultCacheTTL);
     setSummarizationEnabled(t.defaultSummarizationEnabled);
     setSummarySize(t.defaultSummarySize);
+    setReasoningBudget(t.defaultReasoningBudget);
     setSensitivityParam(t.defaultSensitivityParam);
-  }, []);
+    setCacheCheckpoints(DEFAULT_CACHE_CHECKPOINTS);
+    setVision(DEFAULT_VISION_INPUT);
+    setTools(DEFAULT_TOOL_CONFIG);
+    setRetrieval(t.retrieval);
+    setSpeech(t.speech);
+    setSections(splitIntoSections(p.students));
+  }, [templates]);
 
   const handleTemplateChange = useCallback(
     (value: string) => {
@@ -127,7 +182,7 @@ export function WorkloadSimulator() {
 
   useEffect(() => {
     const tmplParam = searchParams.get("template");
-    if (tmplParam && tmplParam in TEMPLATES) {
+    if (tmplParam && isTemplateKey(tmplParam, templates)) {
       const key = tmplParam as TemplateKey;
       setSimulationTemplate(key);
       resetToTemplate(key);
@@ -137,6 +192,200 @@ export function WorkloadSimulator() {
     }
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // --- Scenario state ---
+  // The whole scenario round-trips through the URL so a link restores it exactly.
+  const scenario = useMemo((): SimulatorScenario => ({
+    template: simulationTemplate,
+    customTemplate: isCustomTemplateKey(simulationTemplate) ? activeTemplateMeta : null,
+    modelId: selectedModelId,
+    regionId,
+    inferenceProfile,
+    pricingTier,
+    batchEnabled,
+    students,
+    reqsPerStudent,
+    sysTokens,
+    ctxTokens,
+    subTokens,
+    instTokens,
+    outputTokens,
+    cacheTTL,
+    cacheCheckpoints,
+    guardrailsEnabled,
+    guardrailPolicies,
+    thinkingEnabled,
+    reasoningBudget,
+    summarizationEnabled,
+    summarySize,
+    sensitivityParam,
+    inputMode,
+    expirySimEnabled,
+    arrivalPattern,
+    sectionsEnabled,
+    sections,
+    vision,
+    tools,
+    retrieval,
+    embeddingModelId,
+    speech,
+    speechModelId,
+  }), [
+    simulationTemplate, activeTemplateMeta, selectedModelId, regionId, inferenceProfile, pricingTier, batchEnabled,
+    students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens,
+    cacheTTL, cacheCheckpoints, guardrailsEnabled, guardrailPolicies, thinkingEnabled, reasoningBudget,
+    summarizationEnabled, summarySize, sensitivityParam, inputMode, expirySimEnabled, arrivalPattern,
+    sectionsEnabled, sections, vision, tools, retrieval, embeddingModelId, speech, speechModelId,
+  ]);
+  const [scenarioWarnings, setScenarioWarnings] = useState<string[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Ids the current pricing data lacks keep the simulator's current choice. A
+  // link's custom template is used as sent; if the library holds a different
+  // template under the same key, the link's copy gets a fresh key.
+  const applyScenario = useCallback((s: SimulatorScenario): string[] => {
+    const missing = findMissingReferences(s, pricingData);
+    let key = s.template;
+    if (s.customTemplate && isCustomTemplateKey(s.template)) {
+      const meta = s.customTemplate;
+      const known = templates[s.template];
+      if (!known || JSON.stringify(known) !== JSON.stringify(meta)) {
+        const linkKey = known ? createCustomTemplateKey(meta.label, templates) : s.template;
+        setLinkTemplates((prev) => ({ ...prev, [linkKey]: meta }));
+        key = linkKey;
+      }
+    }
+    setSimulationTemplate(key);
+    if (pricingData.models.some((m) => m.id === s.modelId)) setSelectedModelId(s.modelId);
+    if (pricingData.regions.some((r) => r.id === s.regionId)) setRegionId(s.regionId);
+    setInferenceProfile(s.inferenceProfile);
+    setPricingTier(s.pricingTier);
+    setBatchEnabled(s.batchEnabled);
+    setStudents(s.students);
+    setReqsPerStudent(s.reqsPerStudent);
+    setSysTokens(s.sysTokens);
+    setCtxTokens(s.ctxTokens);
+    setSubTokens(s.subTokens);
+    setInstTokens(s.instTokens);
+    setOutputTokens(s.outputTokens);
+    setCacheTTL(s.cacheTTL);
+    setCacheCheckpoints(s.cacheCheckpoints);
+    setGuardrailsEnabled(s.guardrailsEnabled);
+    setGuardrailPolicies(s.guardrailPolicies);
+    setThinkingEnabled(s.thinkingEnabled);
+    setReasoningBudget(s.reasoningBudget);
+    setSummarizationEnabled(s.summarizationEnabled);
+    setSummarySize(s.summarySize);
+    setSensitivityParam(s.sensitivityParam);
+    setInputMode(s.inputMode);
+    setExpirySimEnabled(s.expirySimEnabled);
+    setArrivalPattern(s.arrivalPattern);
+    setSectionsEnabled(s.sectionsEnabled);
+    setSections(s.sections);
+    setVision(s.vision);
+    setTools(s.tools);
+    setRetrieval(s.retrieval);
+    if (pricingData.embedding_models.some((m) => m.id === s.embeddingModelId)) setEmbeddingModelId(s.embeddingModelId);
+    setSpeech(s.speech);
+    if (pricingData.speech_models.some((m) => m.id === s.speechModelId)) setSpeechModelId(s.speechModelId);
+    return missing;
+  }, [pricingData, templates]);
+
+  useEffect(() => {
+    const encoded = searchParams.get(SCENARIO_URL_PARAM);
+    if (!encoded) return;
+    const result = decodeScenario(encoded);
+    if (result.ok) {
+      const missing = applyScenario(result.scenario);
+      setScenarioWarnings(missing.map((m) => `${m}; the current selection is used instead.`));
+    } else {
+      setScenarioWarnings([`This link could not be restored: ${result.errors[0]}`]);
+    }
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Debounced so dragging a slider doesn't rewrite the URL on every step.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchParams({ [SCENARIO_URL_PARAM]: encodeScenario(scenario) }, { replace: true });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [scenario]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleCopyLink = async () => {
+    const url = new URL(window.location.href);
+    url.hash = `#/simulator?${SCENARIO_URL_PARAM}=${encodeScenario(scenario)}`;
+    await navigator.clipboard.writeText(url.toString());
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  // --- Custom templates ---
+  const [templateDialog, setTemplateDialog] = useState<{ key: CustomTemplateKey | null } | null>(null);
+  const [templateImportMessage, setTemplateImportMessage] = useState<{ imported: number; errors: string[] } | null>(null);
+
+  useEffect(() => {
+    saveCustomTemplates(customTemplates);
+  }, [customTemplates]);
+
+  // A new template starts from the active one with the current parameters as its preset.
+  const templateDraft: TemplateMeta = templateDialog?.key
+    ? templates[templateDialog.key]
+    : {
+        ...activeTemplateMeta,
+        label: `${activeTemplateMeta.label} (copy)`,
+        shortLabel: `${activeTemplateMeta.shortLabel} (copy)`,
+        preset: { students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens },
+        defaultCacheTTL: cacheTTL,
+        defaultSummarizationEnabled: summarizationEnabled,
+        defaultSummarySize: summarySize,
+        defaultReasoningBudget: reasoningBudget,
+        defaultSensitivityParam: sensitivityParam,
+        retrieval,
+        speech,
+      };
+
+  const handleSaveTemplate = (template: TemplateMeta) => {
+    const key = templateDialog?.key ?? createCustomTemplateKey(template.label, templates);
+    setCustomTemplates((prev) => ({ ...prev, [key]: template }));
+    setLinkTemplates((prev) => withoutTemplate(prev, key));
+    setSimulationTemplate(key);
+  };
+
+  const handleDeleteTemplate = (key: CustomTemplateKey) => {
+    setCustomTemplates((prev) => withoutTemplate(prev, key));
+    setLinkTemplates((prev) => withoutTemplate(prev, key));
+    if (simulationTemplate === key) {
+      setSimulationTemplate(DEFAULT_TEMPLATE);
+      resetToTemplate(DEFAULT_TEMPLATE);
+    }
+  };
+
+  const handleImportTemplates = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseTemplateFile(await file.text(), templates);
+    setCustomTemplates((prev) => ({ ...prev, ...result.templates }));
+    setTemplateImportMessage({ imported: Object.keys(result.templates).length, errors: result.errors });
+  };
+
+  // A spoken session fixes each turn's transcript, which the text strategies
+  // cost as the student's message and the AI's reply.
+  useEffect(() => {
+    if (!speech) return;
+    const transcript = getSpeechTranscriptTokens(speech, reqsPerStudent);
+    setSubTokens(transcript.student);
+    setOutputTokens(transcript.ai);
+  }, [speech, reqsPerStudent]);
+
+  // Sections set the class size while they drive the expiry simulation.
+  const sectionStudents = countSectionStudents(sections);
+  const sectionsActive = expirySimEnabled && sectionsEnabled && sectionStudents > 0;
+  useEffect(() => {
+    if (!sectionsActive) return;
+    setStudents(sectionStudents);
+  }, [sectionsActive, sectionStudents]);
+
+  const updateSection = (index: number, patch: Partial<ClassSection>) =>
+    setSections((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
   // --- Input mode ---
   const handleInputModeChange = useCallback(
     (v: string) => {
@@ -198,19 +447,31 @@ export function WorkloadSimulator() {
   );
 
   // --- Derived model state ---
-  const selectedModel = useMemo(
+  const baseModel = useMemo(
     () => pricingData.models.find((m) => m.id === selectedModelId) ?? pricingData.models[0],
     [pricingData, selectedModelId]
   );
+  const selectedRegion = pricingData.regions.find((r) => r.id === regionId);
+  const effectiveProfile = getEffectiveProfile(baseModel, inferenceProfile);
+  const selectedModel = useMemo(
+    () => resolveModelPricing(baseModel, regionId, effectiveProfile),
+    [baseModel, regionId, effectiveProfile]
+  );
+  const profilePremium = baseModel.pricing.input_1k > 0
+    ? selectedModel.pricing.input_1k / baseModel.pricing.input_1k - 1
+    : 0;
   const supportsCaching = selectedModel.constraints.supports_caching;
   const supportsBatch = selectedModel.constraints.supports_batch && selectedModel.pricing.batch_input_1k != null;
+  const supportsThinking = selectedModel.constraints.supports_extended_thinking;
+  const embeddingModel = pricingData.embedding_models.find((m) => m.id === embeddingModelId) ?? pricingData.embedding_models[0];
+  const speechModel = pricingData.speech_models.find((m) => m.id === speechModelId) ?? pricingData.speech_models[0] ?? null;
   const hasMissingCachePrices = supportsCaching && (selectedModel.pricing.cache_write_1k === null || selectedModel.pricing.cache_read_1k === null);
   const supportsTiers = selectedModel.constraints.supported_tiers.length > 1;
-  const effectiveTier = selectedModel.constraints.supported_tiers.includes(pricingTier) ? pricingTier : "standard";
-  const tierMultiplier = effectiveTier === "priority" ? 1.75 : effectiveTier === "flex" ? 0.5 : 1.0;
+  const effectiveTier = getEffectiveTier(selectedModel, pricingTier);
+  const tierMultiplier = TIER_MULTIPLIERS[effectiveTier];
   const isAmazonModel = selectedModel.provider === "Amazon";
   const batchAvailableForTier = !isAmazonModel || effectiveTier === "standard";
-  const batchIncluded = supportsBatch && batchEnabled && batchAvailableForTier;
+  const batchIncluded = isBatchIncluded(selectedModel, effectiveTier, batchEnabled);
 
   const supports1Hour = selectedModel.constraints.supports_1hour_cache;
   const effectiveCacheTTL: CacheTTL = cacheTTL === "1hour" && supports1Hour ? "1hour" : "5min";
@@ -236,140 +497,118 @@ export function WorkloadSimulator() {
   const chatHistoryWords = Math.round(instTokens * WORDS_PER_TOKEN);
   const studentTextWordsOnly = Math.round(subTokens * WORDS_PER_TOKEN);
 
-  const displayMode: DisplayMode = useMemo(() => {
-    if (simulationTemplate === "clarity-chat" || simulationTemplate === "clarity-chat-xl" || simulationTemplate === "interactive-ai") {
-      return "caching-insights";
-    }
-    return "strategy-comparison";
-  }, [simulationTemplate]);
+  const displayMode: DisplayMode = activeTemplateMeta.displayMode;
 
   const strategyNote = activeTemplateMeta.strategyNote;
   const pageDescription = activeTemplateMeta.description;
 
-  // --- Cost calculations ---
-  const results = useMemo(() => {
-    const guardrailsCost = guardrailsEnabled
-      ? computeGuardrailsCost(totalRequests, effectiveSubTokens, outputTokens)
-      : 0;
-
-    const noCaching = computeNoCaching(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, effectiveInstTokens, outputTokens, tierMultiplier
-    );
-    noCaching.guardrails = guardrailsCost;
-    noCaching.total += guardrailsCost;
-
-    let batch: CostBreakdown | null = null;
-    if (batchIncluded) {
-      batch = computeBatch(
-        selectedModel, students, reqsPerStudent,
-        sysTokens, ctxTokens, effectiveSubTokens, effectiveInstTokens, outputTokens, tierMultiplier
-      );
-      batch.guardrails = guardrailsCost;
-      batch.total += guardrailsCost;
-    }
+  // --- Request arrivals (cache expiry simulation) ---
+  const arrivals = useMemo(
+    () => !expirySimEnabled
+      ? null
+      : sectionsActive
+        ? generateSectionArrivals(sections, reqsPerStudent, arrivalPattern)
+        : generateArrivals(students, reqsPerStudent, arrivalPattern),
+    [expirySimEnabled, sectionsActive, sections, students, reqsPerStudent, arrivalPattern]
+  );
+  const cacheWrites = useMemo(
+    () => arrivals ? simulateCacheWrites(arrivals, effectiveCacheTTL) : null,
+    [arrivals, effectiveCacheTTL]
+  );
 
-    if (!supportsCaching) {
-      return { noCaching, strategyA: null, strategyB: null, batch };
-    }
+  // --- Simulation input ---
+  const simulationInput = useMemo((): SimulationInput => ({
+    model: selectedModel,
+    students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens,
+    tierMultiplier,
+    cacheTTL: effectiveCacheTTL,
+    submissionCacheable,
+    conversational: isConversational,
+    progressiveSubmission: isProgressiveSubmission,
+    summarySize,
+    guardrails: guardrailsEnabled
+      ? { policies: guardrailPolicies, rates: pricingData.metadata.guardrails_1k_units }
+      : null,
+    cacheCheckpoints,
+    cacheWrites,
+    vision,
+    tools,
+    reasoningTokens: thinkingEnabled ? reasoningBudget : 0,
+    retrieval: retrieval && embeddingModel
+      ? { ...retrieval, embeddingPrice1k: embeddingModel.pricing.input_1k }
+      : retrieval,
+    speech,
+    speechModel,
+  }), [selectedModel, students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens, tierMultiplier, effectiveCacheTTL, submissionCacheable, isConversational, isProgressiveSubmission, summarySize, guardrailsEnabled, guardrailPolicies, pricingData, cacheCheckpoints, cacheWrites, vision, tools, thinkingEnabled, reasoningBudget, retrieval, embeddingModel, speech, speechModel]);
+
+  const visionTokens = useMemo(() => getVisionTokens(simulationInput), [simulationInput]);
+  const toolOverhead = useMemo(() => getToolOverhead(simulationInput), [simulationInput]);
+  const reasoningTokens = getReasoningTokens(simulationInput);
+  const guardrailsCost = useMemo(() => computeGuardrailsCost(simulationInput), [simulationInput]);
+  const cacheLayers = useMemo(() => buildCacheLayers(simulationInput), [simulationInput]);
+
+  const strategyContext = useMemo((): StrategyContext => ({
+    supportsCaching,
+    batchIncluded,
+    retrievalEnabled: retrieval != null,
+    speechEnabled: speech != null && speechModel != null,
+    displayMode,
+  }), [supportsCaching, batchIncluded, retrieval, speech, speechModel, displayMode]);
 
-    const strategyA = computeStrategyA(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, effectiveInstTokens, outputTokens, tierMultiplier,
-      effectiveCacheTTL
-    );
-    strategyA.guardrails = guardrailsCost;
-    strategyA.total += guardrailsCost;
-
-    const strategyB = computeStrategyB(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, effectiveInstTokens, outputTokens, tierMultiplier,
-      submissionCacheable, effectiveCacheTTL
-    );
-    strategyB.guardrails = guardrailsCost;
-    strategyB.total += guardrailsCost;
-
-    return { noCaching, strategyA, strategyB, batch };
-  }, [selectedModel, students, reqsPerStudent, sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens, supportsCaching, batchIncluded, guardrailsEnabled, totalRequests, effectiveTier, tierMultiplier, submissionCacheable, effectiveCacheTTL, isConversational, effectiveInstTokens]);
-
-  type WinnerKey = "noCaching" | "A" | "B" | "batch";
-
-  const winnerLabels: Record<WinnerKey, string> = {
-    noCaching: "No Caching",
-    A: "Per-Assignment Cache",
-    B: "Per-Submission Cache",
-    batch: "Batch Inference",
-  };
+  // --- Cost calculations ---
+  const standardStrategies = useMemo(() => getStrategies("standard", strategyContext), [strategyContext]);
 
-  const { winner, winnerSavings } = useMemo(() => {
-    const candidates: { key: WinnerKey; total: number }[] = [
-      { key: "noCaching", total: results.noCaching.total },
-    ];
-    if (results.strategyA) candidates.push({ key: "A", total: results.strategyA.total });
-    if (results.strategyB) candidates.push({ key: "B", total: results.strategyB.total });
-    if (results.batch) candidates.push({ key: "batch", total: results.batch.total });
+  const strategyResults = useMemo(
+    () => runStrategies(simulationInput, standardStrategies),
+    [simulationInput, standardStrategies]
+  );
 
-    if (candidates.length <= 1) return { winner: null as WinnerKey | null, winnerSavings: null };
+  const results = useMemo(() => {
+    const byKey = (key: string) => strategyResults.find((r) => r.strategy.key === key)?.breakdown ?? null;
+    return { noCaching: byKey("noCaching")!, strategyA: byKey("strategyA") };
+  }, [strategyResults]);
 
-    candidates.sort((a, b) => a.total - b.total);
-    const best = candidates[0];
-    const worst = candidates[candidates.length - 1];
-    const diff = worst.total - best.total;
-    const pct = worst.total > 0 ? (diff / worst.total) * 100 : 0;
+  const winnerSummary = useMemo(() => findWinner(strategyResults), [strategyResults]);
 
+  // Extra cost of the spoken session over the cheapest way to hold it in text.
+  const voicePremium = useMemo(() => {
+    const voice = strategyResults.find((r) => r.strategy.kind === "speech");
+    const text = rankStrategyResults(strategyResults.filter((r) => r.strategy.kind !== "speech"))[0];
+    if (!voice || !text) return null;
     return {
-      winner: best.key,
-      winnerSavings: { amount: diff, percentage: pct, vsLabel: winnerLabels[worst.key] },
+      amount: voice.breakdown.total - text.breakdown.total,
+      ratio: text.breakdown.total > 0 ? voice.breakdown.total / text.breakdown.total : null,
+      vsLabel: text.strategy.label,
     };
-  }, [results]);
-
-  const chartData = useMemo(() => {
-    const data: { name: string; "Cache Write": number; "Cache Read": number; "Fresh Input": number; Output: number; Guardrails: number }[] = [];
-
-    data.push({
-      name: "No Caching",
-      "Cache Write": 0,
-      "Cache Read": 0,
-      "Fresh Input": results.noCaching.freshInput,
-      Output: results.noCaching.output,
-      Guardrails: results.noCaching.guardrails,
-    });
-
-    if (results.strategyA) {
-      data.push({
-        name: displayMode === "strategy-comparison" ? "Per-Assignment" : "With Caching",
-        "Cache Write": results.strategyA.cacheWrite,
-        "Cache Read": results.strategyA.cacheRead,
-        "Fresh Input": results.strategyA.freshInput,
-        Output: results.strategyA.output,
-        Guardrails: results.strategyA.guardrails,
-      });
-    }
-
-    if (results.strategyB && displayMode === "strategy-comparison") {
-      data.push({
-        name: "Per-Submission",
-        "Cache Write": results.strategyB.cacheWrite,
-        "Cache Read": results.strategyB.cacheRead,
-        "Fresh Input": results.strategyB.freshInput,
-        Output: results.strategyB.output,
-        Guardrails: results.strategyB.guardrails,
-      });
-    }
-
-    if (results.batch) {
-      data.push({
-        name: "Batch",
-        "Cache Write": 0,
-        "Cache Read": 0,
-        "Fresh Input": results.batch.freshInput,
-        Output: results.batch.output,
-        Guardrails: results.batch.guardrails,
-      });
-    }
+  }, [strategyResults]);
+  const winnerKey = winnerSummary?.winner.strategy.key ?? null;
+
+  const chartData = useMemo(
+    () => strategyResults.map((r) => toBarChartDatum(
+      displayMode === "caching-insights" && r.strategy.kind === "cache" ? "With Caching" : r.strategy.shortLabel,
+      r.breakdown
+    )),
+    [strategyResults, displayMode]
+  );
 
-    return data;
-  }, [results, displayMode]);
+  // --- Cache TTL expiry comparison ---
+  const ttlComparison = useMemo(() => {
+    if (!arrivals || !supportsCaching) return null;
+    const strategies = standardStrategies.filter((s) => s.kind === "cache");
+    const ttls: CacheTTL[] = supports1Hour ? ["5min", "1hour"] : ["5min"];
+    const rows = ttls.map((ttl) => {
+      const writes = simulateCacheWrites(arrivals, ttl);
+      const input: SimulationInput = { ...simulationInput, cacheTTL: ttl, cacheWrites: writes };
+      return {
+        ttl,
+        writes,
+        hitRatio: getCacheHitRatio(writes.assignment, totalRequests),
+        sections: sectionsActive ? analyzeSectionCache(sections, arrivals, ttl) : null,
+        totals: strategies.map((s) => computeStrategyCost(s, input).total),
+      };
+    });
+    return { strategies, rows };
+  }, [arrivals, supportsCaching, supports1Hour, standardStrategies, simulationInput, totalRequests, sectionsActive, sections]);
 
   // --- Caching-insights: savings vs no caching ---
   const insightsSavings = useMemo(() => {
@@ -380,91 +619,40 @@ export function WorkloadSimulator() {
   }, [displayMode, results]);
 
   // --- Summarization analysis (conversational templates) ---
+  const isSumMode = isConversational && summarizationEnabled;
+
   const summarizationResult = useMemo(() => {
-    if (!isConversational || !summarizationEnabled || !results.strategyA) return null;
-    return computeSummarizationCost(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens,
-      summarySize, tierMultiplier, effectiveCacheTTL,
-      results.strategyA.total,
-    );
-  }, [isConversational, summarizationEnabled, selectedModel, students, reqsPerStudent, sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens, summarySize, tierMultiplier, effectiveCacheTTL, results]);
-
-  // --- Summarization strategy comparison (three variants) ---
-  const sumStrategies = useMemo(() => {
-    if (!isConversational || !summarizationEnabled) return null;
-    const guardrailsCost = guardrailsEnabled
-      ? computeGuardrailsCost(totalRequests, effectiveSubTokens, outputTokens)
-      : 0;
-
-    const noCaching = computeSumNoCaching(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens,
-      summarySize, tierMultiplier
-    );
-    noCaching.guardrails = guardrailsCost;
-    noCaching.total += guardrailsCost;
-
-    const cacheAssessment = supportsCaching ? (() => {
-      const r = computeSumCacheAssessment(
-        selectedModel, students, reqsPerStudent,
-        sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens,
-        summarySize, tierMultiplier, effectiveCacheTTL
-      );
-      r.guardrails = guardrailsCost;
-      r.total += guardrailsCost;
-      return r;
-    })() : null;
-
-    const cacheSummary = supportsCaching ? (() => {
-      const r = computeSumCacheSummary(
-        selectedModel, students, reqsPerStudent,
-        sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens,
-        summarySize, tierMultiplier, effectiveCacheTTL
-      );
-      r.guardrails = guardrailsCost;
-      r.total += guardrailsCost;
-      return r;
-    })() : null;
-
-    return { noCaching, cacheAssessment, cacheSummary };
-  }, [isConversational, summarizationEnabled, selectedModel, students, reqsPerStudent, sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens, summarySize, tierMultiplier, effectiveCacheTTL, supportsCaching, guardrailsEnabled, totalRequests]);
-
-  type SumWinnerKey = "sumNoCaching" | "sumCacheAssessment" | "sumCacheSummary";
-  const sumWinnerLabels: Record<SumWinnerKey, string> = {
-    sumNoCaching: "No Caching",
-    sumCacheAssessment: "Cache Prefix",
-    sumCacheSummary: "Cache Prefix + Chat Summary",
-  };
+    if (!isSumMode || !results.strategyA) return null;
+    return computeSummarizationCost(simulationInput, results.strategyA.total);
+  }, [isSumMode, simulationInput, results]);
+
+  // --- Summarization strategy comparison ---
+  // On-demand baselines for the Provisioned Throughput break-even panel.
+  const onDemandStrategies = useMemo(
+    () => ["noCaching", "strategyA"]
+      .map((key) => getStrategy(key))
+      .filter((s): s is Strategy => !!s && s.isAvailable(strategyContext)),
+    [strategyContext]
+  );
 
-  const { sumWinner, sumWinnerSavings } = useMemo(() => {
-    if (!sumStrategies) return { sumWinner: null as SumWinnerKey | null, sumWinnerSavings: null };
-    const candidates: { key: SumWinnerKey; total: number }[] = [
-      { key: "sumNoCaching", total: sumStrategies.noCaching.total },
-    ];
-    if (sumStrategies.cacheAssessment) candidates.push({ key: "sumCacheAssessment", total: sumStrategies.cacheAssessment.total });
-    if (sumStrategies.cacheSummary) candidates.push({ key: "sumCacheSummary", total: sumStrategies.cacheSummary.total });
+  const sumStrategyList = useMemo(() => getStrategies("summarization", strategyContext), [strategyContext]);
 
-    if (candidates.length <= 1) return { sumWinner: null as SumWinnerKey | null, sumWinnerSavings: null };
+  const sumResults = useMemo(
+    () => isSumMode ? runStrategies(simulationInput, sumStrategyList) : [],
+    [isSumMode, simulationInput, sumStrategyList]
+  );
 
-    candidates.sort((a, b) => a.total - b.total);
-    const best = candidates[0];
-    const worst = candidates[candidates.length - 1];
-    const diff = worst.total - best.total;
-    const pct = worst.total > 0 ? (diff / worst.total) * 100 : 0;
+  const sumWinnerSummary = useMemo(() => findWinner(sumResults), [sumResults]);
+  const sumWinnerKey = sumWinnerSummary?.winner.strategy.key ?? null;
 
-    return {
-      sumWinner: best.key,
-      sumWinnerSavings: { amount: diff, percentage: pct, vsLabel: sumWinnerLabels[worst.key] },
-    };
-  }, [sumStrategies]);
+  const sumCacheAssessment = sumResults.find((r) => r.strategy.key === "sumCacheAssessment")?.breakdown ?? null;
+  const sumCacheSummary = sumResults.find((r) => r.strategy.key === "sumCacheSummary")?.breakdown ?? null;
 
   // --- Optimal chat history size for Cache Prefix + Chat Summary ---
   const optimalChatHistory = useMemo(() => {
-    if (!isConversational || !summarizationEnabled || !supportsCaching) return null;
-    const guardrailsCost = guardrailsEnabled
-      ? computeGuardrailsCost(totalRequests, effectiveSubTokens, outputTokens)
-      : 0;
+    if (!isSumMode || !supportsCaching) return null;
+    const strategy = getStrategy("sumCacheSummary");
+    if (!strategy) return null;
     const minCandidate = summarySize + 100;
     const maxCandidate = 10000;
     const step = 50;
@@ -473,29 +661,19 @@ export function WorkloadSimulator() {
     let bestTotal = Infinity;
 
     for (let candidate = minCandidate; candidate <= maxCandidate; candidate += step) {
-      const r = computeSumCacheSummary(
-        selectedModel, students, reqsPerStudent,
-        sysTokens, ctxTokens, effectiveSubTokens, candidate, outputTokens,
-        summarySize, tierMultiplier, effectiveCacheTTL
-      );
-      const total = r.total + guardrailsCost;
+      const total = computeStrategyCost(strategy, { ...simulationInput, instTokens: candidate }).total;
       if (total < bestTotal) {
         bestTotal = total;
         bestTokens = candidate;
       }
     }
 
-    const currentR = computeSumCacheSummary(
-      selectedModel, students, reqsPerStudent,
-      sysTokens, ctxTokens, effectiveSubTokens, instTokens, outputTokens,
-      summarySize, tierMultiplier, effectiveCacheTTL
-    );
-    const currentTotal = currentR.total + guardrailsCost;
+    const currentTotal = computeStrategyCost(strategy, simulationInput).total;
     const savings = currentTotal - bestTotal;
     const savingsPct = currentTotal > 0 ? (savings / currentTotal) * 100 : 0;
 
     return { optimalTokens: bestTokens, optimalTotal: bestTotal, currentTotal, savings, savingsPct };
-  }, [isConversational, summarizationEnabled, supportsCaching, guardrailsEnabled, totalRequests, effectiveSubTokens, outputTokens, summarySize, instTokens, selectedModel, students, reqsPerStudent, sysTokens, ctxTokens, tierMultiplier, effectiveCacheTTL]);
+  }, [isSumMode, supportsCaching, simulationInput, summarySize, instTokens]);
 
   // --- Summarization per-turn data (for chart overlay) ---
   const summarizationPerTurnData = useMemo(() => {
@@ -505,14 +683,14 @@ export function WorkloadSimulator() {
     const pInput = p.input_1k * tierMultiplier;
     const pOutput = p.output_1k * tierMultiplier;
     const pRead = (p.cache_read_1k ?? 0) * tierMultiplier;
-    const cachedPrefix = sysTokens + ctxTokens;
+    const cachedPrefix = toolOverhead.definitionTokens + sysTokens + ctxTokens + visionTokens.shared;
 
     return sim.historyPerTurn.map((history, i) => {
-      const turnSub = computeSubTokensAtTurn(i + 1, reqsPerStudent, subTokens, isProgressiveSubmission);
+      const turnSub = computeSubTokensAtTurn(i + 1, reqsPerStudent, subTokens, isProgressiveSubmission) + visionTokens.perRequest;
       const freshTokens = turnSub + history;
       const withCachingCost = supportsCaching
-        ? (cachedPrefix / 1000) * pRead + (freshTokens / 1000) * pInput + (outputTokens / 1000) * pOutput
-        : ((cachedPrefix + freshTokens) / 1000) * pInput + (outputTokens / 1000) * pOutput;
+        ? (cachedPrefix / 1000) * pRead + (freshTokens / 1000) * pInput + ((outputTokens + reasoningTokens) / 1000) * pOutput
+        : ((cachedPrefix + freshTokens) / 1000) * pInput + ((outputTokens + reasoningTokens) / 1000) * pOutput;
       return {
         turn: i + 1,
         cost: withCachingCost,
@@ -520,281 +698,69 @@ export function WorkloadSimulator() {
         isSummarizationTurn: sim.summarizationTurns.includes(i + 1),
       };
     });
-  }, [isConversational, summarizationEnabled, reqsPerStudent, instTokens, outputTokens, summarySize, sysTokens, ctxTokens, subTokens, selectedModel, tierMultiplier, supportsCaching, isProgressiveSubmission]);
+  }, [isConversational, summarizationEnabled, reqsPerStudent, instTokens, outputTokens, summarySize, sysTokens, ctxTokens, subTokens, selectedModel, tierMultiplier, supportsCaching, isProgressiveSubmission, visionTokens, toolOverhead, reasoningTokens]);
 
   // --- Caching benefit: parameter sensitivity data ---
   // Varies the selected parameter to show how each strategy's cost changes.
-  const paramSensitivityData = useMemo(() => {
-    if (!supportsCaching) return [];
-    const range = SENSITIVITY_SAMPLE_POINTS[sensitivityParam];
-    const min = range[0];
-    const max = range[range.length - 1];
-    const numPoints = 40;
-    const step = (max - min) / (numPoints - 1);
-    const samplePoints: number[] = [];
-    for (let i = 0; i < numPoints; i++) {
-      samplePoints.push(Math.round(min + step * i));
-    }
-    const currentValue: number = { students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens }[sensitivityParam];
-    if (!samplePoints.includes(currentValue)) {
-      samplePoints.push(currentValue);
-      samplePoints.sort((a, b) => a - b);
-    }
+  const sensitivityStrategies = isSumMode ? sumStrategyList : standardStrategies;
 
-    const rawData = samplePoints.map((val) => {
-      const args = {
-        students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens,
-        [sensitivityParam]: val,
-      };
-      const effInst = getEffectiveInstTokens(args.instTokens, args.reqsPerStudent, args.outputTokens, isConversational);
-      const effSub = getEffectiveSubTokens(args.subTokens, args.reqsPerStudent, isProgressiveSubmission);
-      const adjustedTotalReqs = args.students * args.reqsPerStudent;
-      const gr = guardrailsEnabled
-        ? computeGuardrailsCost(adjustedTotalReqs, effSub, args.outputTokens)
-        : 0;
-
-      const noCaching = computeNoCaching(
-        selectedModel, args.students, args.reqsPerStudent,
-        args.sysTokens, args.ctxTokens, effSub, effInst, args.outputTokens,
-        tierMultiplier
-      );
-      const stratA = computeStrategyA(
-        selectedModel, args.students, args.reqsPerStudent,
-        args.sysTokens, args.ctxTokens, effSub, effInst, args.outputTokens,
-        tierMultiplier, effectiveCacheTTL
-      );
-
-      const isSumMode = summarizationEnabled && isConversational;
-
-      const point: Record<string, number | string | boolean> = {
-        value: val,
-        label: formatParamLabel(sensitivityParam, val),
-        isCurrent: val === currentValue,
-      };
+  // Other models are tried with the same deployment choices as the selected one.
+  const scenarioSettings = useMemo((): ScenarioSettings => ({
+    regionId, profile: inferenceProfile, tier: pricingTier, cacheTTL, batchEnabled,
+  }), [regionId, inferenceProfile, pricingTier, cacheTTL, batchEnabled]);
 
-      if (isSumMode) {
-        const sumNone = computeSumNoCaching(
-          selectedModel, args.students, args.reqsPerStudent,
-          args.sysTokens, args.ctxTokens, effSub, args.instTokens, args.outputTokens,
-          summarySize, tierMultiplier
-        );
-        const sumPrefix = computeSumCacheAssessment(
-          selectedModel, args.students, args.reqsPerStudent,
-          args.sysTokens, args.ctxTokens, effSub, args.instTokens, args.outputTokens,
-          summarySize, tierMultiplier, effectiveCacheTTL
-        );
-        const sumFull = computeSumCacheSummary(
-          selectedModel, args.students, args.reqsPerStudent,
-          args.sysTokens, args.ctxTokens, effSub, args.instTokens, args.outputTokens,
-          summarySize, tierMultiplier, effectiveCacheTTL
-        );
-        point["Chat Sum. — No Cache"] = sumNone.total + gr;
-        point["Chat Sum. — Cache Prefix"] = sumPrefix.total + gr;
-        point["Chat Sum. — Cache in Prefix"] = sumFull.total + gr;
-      } else {
-        point["No Caching"] = noCaching.total + gr;
-        point["Per-Assignment Cache"] = stratA.total + gr;
-      }
-
-      if (displayMode === "strategy-comparison") {
-        const stratB = computeStrategyB(
-          selectedModel, args.students, args.reqsPerStudent,
-          args.sysTokens, args.ctxTokens, effSub, effInst, args.outputTokens,
-          tierMultiplier, submissionCacheable, effectiveCacheTTL
-        );
-        point["Per-Submission Cache"] = stratB.total + gr;
-
-        if (batchIncluded) {
-          const batch = computeBatch(
-            selectedModel, args.students, args.reqsPerStudent,
-            args.sysTokens, args.ctxTokens, effSub, effInst, args.outputTokens,
-            tierMultiplier
-          );
-          point["Batch Inference"] = batch.total + gr;
-        }
-      }
-
-      const costKeys = isSumMode
-        ? ["Chat Sum. — No Cache", "Chat Sum. — Cache Prefix", "Chat Sum. — Cache in Prefix"] as const
-        : ["No Caching", "Per-Assignment Cache"] as const;
-      const costs: [string, number][] = costKeys
-        .filter((k) => point[k] != null)
-        .map((k) => [k, point[k] as number]);
-      if (point["Per-Submission Cache"] != null) {
-        costs.push(["Per-Submission Cache", point["Per-Submission Cache"] as number]);
-      }
-      if (point["Batch Inference"] != null) {
-        costs.push(["Batch Inference", point["Batch Inference"] as number]);
-      }
-      costs.sort((a, b) => a[1] - b[1] || (STRATEGY_TIEBREAK[a[0]] ?? 99) - (STRATEGY_TIEBREAK[b[0]] ?? 99));
-      point.winner = costs[0]?.[0] ?? "";
-      const colorMap: Record<string, string> = {
-        "No Caching": CHART_COLORS.noCaching,
-        "Per-Assignment Cache": CHART_COLORS.cachePrefix,
-        "Per-Submission Cache": CHART_COLORS.cacheSubmission,
-        "Batch Inference": CHART_COLORS.batch,
-        "Chat Sum. — No Cache": CHART_COLORS.noCaching,
-        "Chat Sum. — Cache Prefix": CHART_COLORS.cachePrefix,
-        "Chat Sum. — Cache in Prefix": CHART_COLORS.batch,
-      };
-      point.winnerColor = colorMap[costs[0]?.[0] ?? ""] ?? "#999";
+  // --- Configuration optimizer ---
+  const currentBest = useMemo(
+    () => rankStrategyResults(isSumMode ? sumResults : strategyResults)[0] ?? null,
+    [isSumMode, sumResults, strategyResults]
+  );
 
-      return point;
-    });
+  const handleApplyConfiguration = useCallback((c: OptimizerCandidate) => {
+    setSelectedModelId(c.model.id);
+    setPricingTier(c.tier);
+    if (c.cacheTTL) setCacheTTL(c.cacheTTL);
+    if (c.strategy.kind === "batch") setBatchEnabled(true);
+    setSummarizationEnabled(c.summarySize !== null);
+    if (c.summarySize !== null) setSummarySize(c.summarySize);
+  }, []);
 
-    const stabKeys = (summarizationEnabled && isConversational)
-      ? ["Chat Sum. — No Cache", "Chat Sum. — Cache Prefix", "Chat Sum. — Cache in Prefix"]
-      : ["No Caching", "Per-Assignment Cache"];
-    let ri = 0;
-    while (ri < rawData.length) {
-      const pt = rawData[ri];
-      const allKeys = [...stabKeys];
-      if (pt["Per-Submission Cache"] != null) allKeys.push("Per-Submission Cache");
-      if (pt["Batch Inference"] != null) allKeys.push("Batch Inference");
-      const sorted = allKeys
-        .filter(k => pt[k] != null)
-        .map(k => pt[k] as number)
-        .sort((a, b) => a - b);
-      const gap = sorted.length >= 2 ? sorted[1] - sorted[0] : Infinity;
-      if (gap < 0.005) {
-        let rj = ri + 1;
-        while (rj < rawData.length) {
-          const p2 = rawData[rj];
-          const s2 = allKeys
-            .filter(k => p2[k] != null)
-            .map(k => p2[k] as number)
-            .sort((a, b) => a - b);
-          if (s2.length < 2 || s2[1] - s2[0] >= 0.005) break;
-          rj++;
-        }
-        const resolved = rj < rawData.length ? rawData[rj] : rawData[rawData.length - 1];
-        for (let k = ri; k < rj; k++) {
-          rawData[k].winner = resolved.winner;
-          rawData[k].winnerColor = resolved.winnerColor;
-        }
-        ri = rj;
-      } else {
-        ri++;
-      }
-    }
-    return rawData;
-  }, [supportsCaching, sensitivityParam, selectedModel, students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens, tierMultiplier, effectiveCacheTTL, guardrailsEnabled, submissionCacheable, batchIncluded, isConversational, isProgressiveSubmission, displayMode, summarizationEnabled, summarySize]);
-
-  const paramCrossoverLabels = useMemo(() => {
-    const crossovers: number[] = [];
-    for (let i = 0; i < paramSensitivityData.length - 1; i++) {
-      if (paramSensitivityData[i].winner !== paramSensitivityData[i + 1].winner) {
-        crossovers.push(paramSensitivityData[i + 1].value as number);
-      }
-    }
-    return crossovers;
-  }, [paramSensitivityData]);
-
-  useEffect(() => { setParamChartZoomDomain(null); }, [sensitivityParam]);
-
-  const visibleParamData = useMemo(() => {
-    if (!paramChartZoomDomain || paramSensitivityData.length < 2) return paramSensitivityData;
-    const [zMin, zMax] = paramChartZoomDomain;
-    let startIdx = 0;
-    let endIdx = paramSensitivityData.length - 1;
-    for (let i = 0; i < paramSensitivityData.length; i++) {
-      if ((paramSensitivityData[i].value as number) >= zMin) { startIdx = Math.max(0, i - 1); break; }
-    }
-    for (let i = paramSensitivityData.length - 1; i >= 0; i--) {
-      if ((paramSensitivityData[i].value as number) <= zMax) { endIdx = Math.min(paramSensitivityData.length - 1, i + 1); break; }
-    }
-    return paramSensitivityData.slice(startIdx, endIdx + 1);
-  }, [paramSensitivityData, paramChartZoomDomain]);
+  const paramSensitivityData = useMemo(
+    () => supportsCaching ? computeParamSensitivity(simulationInput, sensitivityParam, sensitivityStrategies) : [],
+    [supportsCaching, simulationInput, sensitivityParam, sensitivityStrategies]
+  );
 
-  useEffect(() => {
-    const el = paramChartContainerRef.current;
-    if (!el) return;
-    const handler = (e: WheelEvent) => {
-      if (paramSensitivityData.length < 2) return;
-      e.preventDefault();
-      const dataMin = paramSensitivityData[0].value as number;
-      const dataMax = paramSensitivityData[paramSensitivityData.length - 1].value as number;
-      const fullRange = dataMax - dataMin;
-      if (fullRange <= 0) return;
-      setParamChartZoomDomain(prev => {
-        const currentMin = prev?.[0] ?? dataMin;
-        const currentMax = prev?.[1] ?? dataMax;
-        const currentRange = currentMax - currentMin;
-        const rect = el.getBoundingClientRect();
-        const chartLeft = rect.left + 65;
-        const chartWidth = rect.right - 5 - chartLeft;
-        const cursorRatio = Math.max(0, Math.min(1, (e.clientX - chartLeft) / chartWidth));
-        const cursorValue = currentMin + cursorRatio * currentRange;
-        const zoomFactor = e.deltaY > 0 ? 1.3 : 0.7;
-        let newRange = Math.min(fullRange, Math.max(fullRange * 0.05, currentRange * zoomFactor));
-        if (newRange >= fullRange * 0.98) return null;
-        const leftRatio = currentRange > 0 ? (cursorValue - currentMin) / currentRange : 0.5;
-        let newMin = cursorValue - leftRatio * newRange;
-        let newMax = cursorValue + (1 - leftRatio) * newRange;
-        if (newMin < dataMin) { newMin = dataMin; newMax = newMin + newRange; }
-        if (newMax > dataMax) { newMax = dataMax; newMin = newMax - newRange; }
-        return [Math.max(dataMin, newMin), Math.min(dataMax, newMax)];
-      });
-    };
-    el.addEventListener('wheel', handler, { passive: false });
-    return () => el.removeEventListener('wheel', handler);
-  }, [paramSensitivityData]);
+  const paramCrossoverLabels = useMemo(() => findCrossovers(paramSensitivityData), [paramSensitivityData]);
 
   // --- Caching-insights: sensitivity / tornado chart data ---
   const sensitivityData = useMemo(() => {
     if (displayMode !== "caching-insights") return [];
+    if (!isSumMode && !supportsCaching) return [];
 
-    const isSumMode = summarizationEnabled && isConversational;
-    const baseline = isSumMode
-      ? (sumStrategies
-        ? (tornadoSumStrategy === "cacheSummary"
-            ? (sumStrategies.cacheSummary?.total ?? sumStrategies.cacheAssessment?.total ?? sumStrategies.noCaching.total)
-            : (sumStrategies.cacheAssessment?.total ?? sumStrategies.noCaching.total))
-        : 0)
-      : (results.strategyA?.total ?? 0);
+    const strategyKey = isSumMode
+      ? (supportsCaching
+          ? (tornadoSumStrategy === "cacheSummary" ? "sumCacheSummary" : "sumCacheAssessment")
+          : "sumNoCaching")
+      : "strategyA";
+    const strategy = getStrategy(strategyKey);
+    if (!strategy) return [];
+
+    const baseline = computeStrategyCost(strategy, simulationInput).total;
     if (baseline === 0) return [];
 
     const halfFloor = (val: number, min: number) => Math.max(min, Math.round(val / 2));
 
-    const params: { key: string; label: string; current: number; half: number; double: number }[] = [
-      { key: "students", label: "Class Size", current: students, half: halfFloor(students, 1), double: students * 2 },
-      { key: "reqs", label: activeTemplateMeta.fieldLabels.reqsPerStudent.label, current: reqsPerStudent, half: halfFloor(reqsPerStudent, 1), double: reqsPerStudent * 2 },
-      { key: "ctx", label: activeTemplateMeta.fieldLabels.ctxTokens.label, current: ctxTokens, half: Math.max(Math.min(500, ctxTokens - 1), Math.round(ctxTokens / 2)), double: ctxTokens * 2 },
-      { key: "sub", label: activeTemplateMeta.fieldLabels.subTokens.label, current: subTokens, half: Math.max(1, Math.round(subTokens / 2)), double: subTokens * 2 },
-      { key: "inst", label: activeTemplateMeta.fieldLabels.instTokens.label, current: instTokens, half: Math.max(1, Math.round(instTokens / 2)), double: instTokens * 2 },
-      { key: "output", label: "Output Tokens", current: outputTokens, half: Math.max(1, Math.round(outputTokens / 2)), double: outputTokens * 2 },
+    const params: { key: SensitivityParamKey; label: string; half: number; double: number }[] = [
+      { key: "students", label: "Class Size", half: halfFloor(students, 1), double: students * 2 },
+      { key: "reqsPerStudent", label: activeTemplateMeta.fieldLabels.reqsPerStudent.label, half: halfFloor(reqsPerStudent, 1), double: reqsPerStudent * 2 },
+      { key: "ctxTokens", label: activeTemplateMeta.fieldLabels.ctxTokens.label, half: Math.max(Math.min(500, ctxTokens - 1), Math.round(ctxTokens / 2)), double: ctxTokens * 2 },
+      { key: "subTokens", label: activeTemplateMeta.fieldLabels.subTokens.label, half: Math.max(1, Math.round(subTokens / 2)), double: subTokens * 2 },
+      { key: "instTokens", label: activeTemplateMeta.fieldLabels.instTokens.label, half: Math.max(1, Math.round(instTokens / 2)), double: instTokens * 2 },
+      { key: "outputTokens", label: "Output Tokens", half: Math.max(1, Math.round(outputTokens / 2)), double: outputTokens * 2 },
     ];
 
     return params.map((p) => {
-      const computeForValues = (s: number, r: number, ctx: number, sub: number, inst: number, out: number) => {
-        const effSub = getEffectiveSubTokens(sub, r, isProgressiveSubmission);
-        if (isSumMode) {
-          const gr = guardrailsEnabled ? computeGuardrailsCost(s * r, effSub, out) : 0;
-          if (tornadoSumStrategy === "cacheSummary" && supportsCaching) {
-            return computeSumCacheSummary(selectedModel, s, r, sysTokens, ctx, effSub, inst, out, summarySize, tierMultiplier, effectiveCacheTTL).total + gr;
-          }
-          if (supportsCaching) {
-            return computeSumCacheAssessment(selectedModel, s, r, sysTokens, ctx, effSub, inst, out, summarySize, tierMultiplier, effectiveCacheTTL).total + gr;
-          }
-          return computeSumNoCaching(selectedModel, s, r, sysTokens, ctx, effSub, inst, out, summarySize, tierMultiplier).total + gr;
-        }
-        const effInst = getEffectiveInstTokens(inst, r, out, isConversational);
-        const res = computeStrategyA(selectedModel, s, r, sysTokens, ctx, effSub, effInst, out, tierMultiplier, effectiveCacheTTL);
-        const gr = guardrailsEnabled ? computeGuardrailsCost(s * r, effSub, out) : 0;
-        return res.total + gr;
-      };
-
-      const getArgs = (override: Partial<Record<string, number>>): [number, number, number, number, number, number] => [
-        override.students ?? students,
-        override.reqs ?? reqsPerStudent,
-        override.ctx ?? ctxTokens,
-        override.sub ?? subTokens,
-        override.inst ?? instTokens,
-        override.output ?? outputTokens,
-      ];
-
-      const halfCost = computeForValues(...getArgs({ [p.key]: p.half }));
-      const doubleCost = computeForValues(...getArgs({ [p.key]: p.double }));
+      const halfCost = computeStrategyCost(strategy, { ...simulationInput, [p.key]: p.half }).total;
+      const doubleCost = computeStrategyCost(strategy, { ...simulationInput, [p.key]: p.double }).total;
 
       return {
         label: p.label,
@@ -802,7 +768,7 @@ export function WorkloadSimulator() {
         doubleDelta: ((doubleCost - baseline) / baseline) * 100,
       };
     }).sort((a, b) => Math.abs(b.doubleDelta) - Math.abs(a.doubleDelta));
-  }, [displayMode, results, selectedModel, students, reqsPerStudent, sysTokens, ctxTokens, subTokens, instTokens, outputTokens, tierMultiplier, effectiveCacheTTL, guardrailsEnabled, totalRequests, activeTemplateMeta, isConversational, isProgressiveSubmission, summarizationEnabled, summarySize, supportsCaching, sumStrategies, tornadoSumStrategy]);
+  }, [displayMode, isSumMode, supportsCaching, tornadoSumStrategy, simulationInput, students, reqsPerStudent, ctxTokens, subTokens, instTokens, outputTokens, activeTemplateMeta]);
 
   // --- Per-turn cost data (conversational templates) ---
   const perTurnData = useMemo(() => {
@@ -812,7 +778,7 @@ export function WorkloadSimulator() {
     const pOutput = p.output_1k * tierMultiplier;
     const pRead = (p.cache_read_1k ?? 0) * tierMultiplier;
     const pWrite = getCacheWritePrice(selectedModel, effectiveCacheTTL) * tierMultiplier;
-    const cachedPrefix = sysTokens + ctxTokens;
+    const cachedPrefix = toolOverhead.definitionTokens + sysTokens + ctxTokens + visionTokens.shared;
 
     const sumSim = summarizationEnabled
       ? simulateSummarization(reqsPerStudent, instTokens, outputTokens, summarySize)
@@ -824,16 +790,16 @@ export function WorkloadSimulator() {
 
     return Array.from({ length: reqsPerStudent }, (_, i) => {
       const turn = i + 1;
-      const turnSub = computeSubTokensAtTurn(turn, reqsPerStudent, subTokens, isProgressiveSubmission);
+      const turnSub = computeSubTokensAtTurn(turn, reqsPerStudent, subTokens, isProgressiveSubmission) + visionTokens.perRequest;
       const history = computeHistoryAtTurn(turn, instTokens, outputTokens);
       const freshTokens = turnSub + history;
       const allInput = cachedPrefix + freshTokens;
 
       const prefixPrice = (supportsCaching && turn === 1) ? pWrite : pRead;
 
-      const noCachingCost = (allInput / 1000) * pInput + (outputTokens / 1000) * pOutput;
+      const noCachingCost = (allInput / 1000) * pInput + ((outputTokens + reasoningTokens) / 1000) * pOutput;
       const withCachingCost = supportsCaching
-        ? (cachedPrefix / 1000) * prefixPrice + (freshTokens / 1000) * pInput + (outputTokens / 1000) * pOutput
+        ? (cachedPrefix / 1000) * prefixPrice + (freshTokens / 1000) * pInput + ((outputTokens + reasoningTokens) / 1000) * pOutput
         : noCachingCost;
 
       const point: Record<string, number | string> = {
@@ -849,11 +815,11 @@ export function WorkloadSimulator() {
         const sumFresh = turnSub + sumHistory;
         point.sumHistoryTokens = sumHistory;
 
-        point["Chat Summary — No Cache"] = ((cachedPrefix + sumFresh) / 1000) * pInput + (outputTokens / 1000) * pOutput;
+        point["Chat Summary — No Cache"] = ((cachedPrefix + sumFresh) / 1000) * pInput + ((outputTokens + reasoningTokens) / 1000) * pOutput;
 
         if (supportsCaching) {
           const cachePrefixPrice = (turn === 1) ? pWrite : pRead;
-          point["Chat Summary — Cache Prefix"] = (cachedPrefix / 1000) * cachePrefixPrice + (sumFresh / 1000) * pInput + (outputTokens / 1000) * pOutput;
+          point["Chat Summary — Cache Prefix"] = (cachedPrefix / 1000) * cachePrefixPrice + (sumFresh / 1000) * pInput + ((outputTokens + reasoningTokens) / 1000) * pOutput;
 
           if (turn > 1 && sumTurns.has(turn - 1)) {
             hasSummaryCIP = true;
@@ -863,13 +829,13 @@ export function WorkloadSimulator() {
           const cacheSumFresh = turnSub + freshHistoryForCacheSummary;
           const cacheSumPrefix = hasSummaryCIP ? fullPrefix : cachedPrefix;
           const cacheSumPrefixPrice = (turn === 1 || (hasSummaryCIP && sumTurns.has(turn - 1))) ? pWrite : pRead;
-          point["Chat Summary — Cache in Prefix"] = (cacheSumPrefix / 1000) * cacheSumPrefixPrice + (cacheSumFresh / 1000) * pInput + (outputTokens / 1000) * pOutput;
+          point["Chat Summary — Cache in Prefix"] = (cacheSumPrefix / 1000) * cacheSumPrefixPrice + (cacheSumFresh / 1000) * pInput + ((outputTokens + reasoningTokens) / 1000) * pOutput;
         }
       }
 
       return point;
     });
-  }, [isConversational, reqsPerStudent, instTokens, outputTokens, sysTokens, ctxTokens, subTokens, selectedModel, tierMultiplier, supportsCaching, summarizationEnabled, summarySize, isProgressiveSubmission, effectiveCacheTTL]);
+  }, [isConversational, reqsPerStudent, instTokens, outputTokens, sysTokens, ctxTokens, subTokens, selectedModel, tierMultiplier, supportsCaching, summarizationEnabled, summarySize, isProgressiveSubmission, effectiveCacheTTL, visionTokens, toolOverhead, reasoningTokens]);
 
   // --- Parameter sensitivity chart (rendered in both display modes) ---
   const paramChart = supportsCaching && paramSensitivityData.length > 0 ? (
@@ -900,233 +866,19 @@ export function WorkloadSimulator() {
         </div>
       </CardHeader>
       <CardContent>
-        <div className="h-[320px]" ref={paramChartContainerRef} onDoubleClick={() => setParamChartZoomDomain(null)}>
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={visibleParamData} margin={{ bottom: 20 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
-              <XAxis
-                dataKey="value"
-                type="number"
-                domain={paramChartZoomDomain ?? ['dataMin', 'dataMax']}
-                allowDataOverflow={!!paramChartZoomDomain}
-                tickCount={8}
-                tickFormatter={(v: number) => formatParamLabel(sensitivityParam, v)}
-                tick={{ fill: "var(--muted-foreground)", fontSize: 12 }}
-                label={{
-                  value: labels[sensitivityParam].label + (sensitivityParam !== "students" && sensitivityParam !== "reqsPerStudent" ? " (tokens)" : ""),
-                  position: "insideBottom",
-                  offset: -5,
-                  fill: "var(--muted-foreground)",
-                  fontSize: 12,
-                }}
-              />
-              <YAxis
-                tickFormatter={(v: number) => `$${v.toFixed(2)}`}
-                tick={{ fill: "var(--muted-foreground)", fontSize: 12 }}
-              />
-              <RechartsTooltip
-                content={({ active, payload, label: tipLabel }) => {
-                  if (!active || !payload?.length) return null;
-                  const strategyColorMap: Record<string, string> = {
-                    "No Caching": CHART_COLORS.noCaching,
-                    "Per-Assignment Cache": CHART_COLORS.cachePrefix,
-                    "Per-Submission Cache": CHART_COLORS.cacheSubmission,
-                    "Batch Inference": CHART_COLORS.batch,
-                    "Chat Sum. — No Cache": CHART_COLORS.noCaching,
-                    "Chat Sum. — Cache Prefix": CHART_COLORS.cachePrefix,
-                    "Chat Sum. — Cache in Prefix": CHART_COLORS.batch,
-                  };
-                  const entries = payload
-                    .filter((p) => p.value != null)
-                    .map((p) => ({ name: p.name as string, cost: p.value as number, color: strategyColorMap[p.name as string] ?? "#999" }))
-                    .sort((a, b) => a.cost - b.cost);
-                  if (entries.length === 0) return null;
-                  const cheapest = entries[0].cost;
-                  const mostExpensive = entries[entries.length - 1].cost;
-                  const savings = mostExpensive - cheapest;
-                  const savingsPct = mostExpensive > 0 ? (savings / mostExpensive) * 100 : 0;
-                  return (
-                    <div style={{ backgroundColor: "var(--card)", border: "1px solid var(--border)", borderRadius: "8px", padding: "8px 10px", fontSize: "12px" }}>
-                      <div style={{ fontWeight: 600, marginBottom: 4 }}>{formatParamLabel(sensitivityParam, Number(tipLabel))}{sensitivityParam !== "students" && sensitivityParam !== "reqsPerStudent" ? " tokens" : ""}</div>
-                      {entries.map((e) => (
-                        <div key={e.name} style={{ display: "flex", alignItems: "center", gap: 6, padding: "2px 0" }}>
-                          <span style={{ width: 8, height: 8, borderRadius: "50%", backgroundColor: e.color, flexShrink: 0 }} />
-                          <span style={{ fontWeight: e.cost === cheapest ? 700 : 400, flex: 1 }}>{e.name}</span>
-                          <span style={{ fontWeight: e.cost === cheapest ? 700 : 400, marginLeft: 8 }}>{formatCost(e.cost)}</span>
-                          {e.cost === cheapest && (
-                            <span style={{ fontSize: 9, backgroundColor: e.color, color: "#fff", borderRadius: 3, padding: "1px 4px", marginLeft: 4 }}>Cheapest</span>
-                          )}
-                        </div>
-                      ))}
-                      {savings > 0 && (
-                        <div style={{ borderTop: "1px solid var(--border)", marginTop: 4, paddingTop: 4, fontSize: 11, color: "var(--muted-foreground)" }}>
-                          Best saves {formatCost(savings)} ({savingsPct.toFixed(1)}%) vs. most expensive
-                        </div>
-                      )}
-                    </div>
-                  );
-                }}
-              />
-              <Legend wrapperStyle={{ fontSize: "12px", paddingTop: "8px" }} />
-              {!(summarizationEnabled && isConversational) && (
-                <Line type="monotone" dataKey="No Caching" stroke={CHART_COLORS.noCaching} strokeWidth={2} dot={false} isAnimationActive={false} />
-              )}
-              {!(summarizationEnabled && isConversational) && (
-                <Line type="monotone" dataKey="Per-Assignment Cache" stroke={CHART_COLORS.cachePrefix} strokeWidth={2} dot={false} isAnimationActive={false} />
-              )}
-              {summarizationEnabled && isConversational && (
-                <Line type="monotone" dataKey="Chat Sum. — No Cache" stroke={CHART_COLORS.noCaching} strokeWidth={2} dot={false} isAnimationActive={false} />
-              )}
-              {summarizationEnabled && isConversational && (
-                <Line type="monotone" dataKey="Chat Sum. — Cache Prefix" stroke={CHART_COLORS.cachePrefix} strokeWidth={2} dot={false} isAnimationActive={false} />
-              )}
-              {summarizationEnabled && isConversational && (
-                <Line type="monotone" dataKey="Chat Sum. — Cache in Prefix" stroke={CHART_COLORS.batch} strokeWidth={2} dot={false} isAnimationActive={false} />
-              )}
-              {displayMode === "strategy-comparison" && (
-                <Line type="monotone" dataKey="Per-Submission Cache" stroke={CHART_COLORS.cacheSubmission} strokeWidth={2} dot={false} isAnimationActive={false} />
-              )}
-              {displayMode === "strategy-comparison" && batchIncluded && (
-                <Line type="monotone" dataKey="Batch Inference" stroke={CHART_COLORS.batch} strokeWidth={2} dot={false} isAnimationActive={false} />
-              )}
-              {paramCrossoverLabels.map((lbl) => (
-                <ReferenceLine
-                  key={lbl}
-                  x={lbl}
-                  stroke={CHART_COLORS.crossover}
-                  strokeOpacity={0.6}
-                  strokeDasharray="6 4"
-                  strokeWidth={1.5}
-                  label={{ value: "⬍", position: "insideTopRight", fill: CHART_COLORS.crossover, fontSize: 14, fontWeight: 700 }}
-                />
-              ))}
-              {(() => {
-                const current = paramSensitivityData.find((d) => d.isCurrent);
-                if (!current) return null;
-                const isSumMode = summarizationEnabled && isConversational;
-                return (
-                  <>
-                    {!isSumMode && (
-                      <ReferenceDot x={current.value as number} y={current["No Caching"] as number} r={6} fill={CHART_COLORS.noCaching} stroke="#fff" strokeWidth={2} />
-                    )}
-                    {!isSumMode && (
-                      <ReferenceDot x={current.value as number} y={current["Per-Assignment Cache"] as number} r={6} fill={CHART_COLORS.cachePrefix} stroke="#fff" strokeWidth={2} />
-                    )}
-                    {isSumMode && current["Chat Sum. — No Cache"] != null && (
-                      <ReferenceDot x={current.value as number} y={current["Chat Sum. — No Cache"] as number} r={6} fill={CHART_COLORS.noCaching} stroke="#fff" strokeWidth={2} />
-                    )}
-                    {isSumMode && current["Chat Sum. — Cache Prefix"] != null && (
-                      <ReferenceDot x={current.value as number} y={current["Chat Sum. — Cache Prefix"] as number} r={6} fill={CHART_COLORS.cachePrefix} stroke="#fff" strokeWidth={2} />
-                    )}
-                    {isSumMode && current["Chat Sum. — Cache in Prefix"] != null && (
-                      <ReferenceDot x={current.value as number} y={current["Chat Sum. — Cache in Prefix"] as number} r={6} fill={CHART_COLORS.batch} stroke="#fff" strokeWidth={2} />
-                    )}
-                    {displayMode === "strategy-comparison" && current["Per-Submission Cache"] != null && (
-                      <ReferenceDot x={current.value as number} y={current["Per-Submission Cache"] as number} r={6} fill={CHART_COLORS.cacheSubmission} stroke="#fff" strokeWidth={2} />
-                    )}
-                    {displayMode === "strategy-comparison" && batchIncluded && current["Batch Inference"] != null && (
-                      <ReferenceDot x={current.value as number} y={current["Batch Inference"] as number} r={6} fill={CHART_COLORS.batch} stroke="#fff" strokeWidth={2} />
-                    )}
-                  </>
-                );
-              })()}
-            </LineChart>
-          </ResponsiveContainer>
-        </div>
-        {paramChartZoomDomain && paramSensitivityData.length >= 2 && (() => {
-          const dMin = paramSensitivityData[0].value as number;
-          const dMax = paramSensitivityData[paramSensitivityData.length - 1].value as number;
-          const fullRange = dMax - dMin;
-          const visRange = paramChartZoomDomain[1] - paramChartZoomDomain[0];
-          const thumbPct = Math.max(8, (visRange / fullRange) * 100);
-          const maxLeft = 100 - thumbPct;
-          const leftPct = fullRange > visRange
-            ? ((paramChartZoomDomain[0] - dMin) / (fullRange - visRange)) * maxLeft
-            : 0;
-          return (
-            <div className="mt-1.5 mb-1 flex items-center gap-2 px-[5px]">
-              <div
-                className="flex-1 relative h-2.5 bg-muted rounded-full cursor-pointer select-none"
-                onMouseDown={(e) => {
-                  e.preventDefault();
-                  const track = e.currentTarget;
-                  const rect = track.getBoundingClientRect();
-                  const positionAt = (clientX: number) => {
-                    const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
-                    const centerValue = dMin + ratio * fullRange;
-                    const halfVis = visRange / 2;
-                    let nMin = centerValue - halfVis;
-                    let nMax = centerValue + halfVis;
-                    if (nMin < dMin) { nMin = dMin; nMax = nMin + visRange; }
-                    if (nMax > dMax) { nMax = dMax; nMin = nMax - visRange; }
-                    setParamChartZoomDomain([Math.max(dMin, nMin), Math.min(dMax, nMax)]);
-                  };
-                  positionAt(e.clientX);
-                  const onMove = (me: MouseEvent) => positionAt(me.clientX);
-                  const onUp = () => {
-                    document.removeEventListener('mousemove', onMove);
-                    document.removeEventListener('mouseup', onUp);
-                  };
-                  document.addEventListener('mousemove', onMove);
-                  document.addEventListener('mouseup', onUp);
-                }}
-              >
-                <div
-                  className="absolute h-full bg-muted-foreground/30 rounded-full hover:bg-muted-foreground/50 active:bg-muted-foreground/60 transition-colors"
-                  style={{ left: `${leftPct}%`, width: `${thumbPct}%` }}
-                />
-              </div>
-              <button
-                className="text-[10px] text-muted-foreground hover:text-foreground px-1.5 py-0.5 rounded border border-border hover:bg-muted transition-colors whitespace-nowrap"
-                onClick={() => setParamChartZoomDomain(null)}
-              >
-                Reset
-              </button>
-            </div>
-          );
-        })()}
-        <div className="mt-1 px-[5px]">
-          <div className="flex items-center gap-2">
-            <span className="text-muted-foreground text-[10px] whitespace-nowrap">Cheapest</span>
-            <div className="flex-1 flex h-3 rounded-sm overflow-hidden">
-              {(paramChartZoomDomain
-                ? paramSensitivityData.filter(d => {
-                    const v = d.value as number;
-                    return v >= paramChartZoomDomain[0] && v <= paramChartZoomDomain[1];
-                  })
-                : paramSensitivityData
-              ).map((d, i) => (
-                <div
-                  key={i}
-                  className="flex-1 transition-colors"
-                  style={{ backgroundColor: d.winnerColor as string }}
-                />
-              ))}
-            </div>
-          </div>
-        </div>
+        <ParameterSensitivityChart
+          data={paramSensitivityData}
+          sensitivityParam={sensitivityParam}
+          paramLabel={labels[sensitivityParam].label}
+          strategies={sensitivityStrategies}
+          crossoverLabels={paramCrossoverLabels}
+        />
         {(() => {
           const current = paramSensitivityData.find((d) => d.isCurrent);
           if (!current) return null;
-          const isSumMode = summarizationEnabled && isConversational;
-          const costs: [string, number][] = isSumMode
-            ? ([
-                ["Chat Sum. — No Cache", current["Chat Sum. — No Cache"]],
-                ["Chat Sum. — Cache Prefix", current["Chat Sum. — Cache Prefix"]],
-                ["Chat Sum. — Cache in Prefix", current["Chat Sum. — Cache in Prefix"]],
-              ] as [string, number | undefined][]).filter((c): c is [string, number] => c[1] != null)
-            : [
-                ["No Caching", current["No Caching"] as number],
-                ["Per-Assignment Cache", current["Per-Assignment Cache"] as number],
-              ];
-          if (!isSumMode) {
-            if (current["Per-Submission Cache"] != null) {
-              costs.push(["Per-Submission Cache", current["Per-Submission Cache"] as number]);
-            }
-            if (current["Batch Inference"] != null) {
-              costs.push(["Batch Inference", current["Batch Inference"] as number]);
-            }
-          }
+          const costs: [string, number][] = sensitivityStrategies
+            .filter((s) => current[s.label] != null)
+            .map((s) => [s.label, current[s.label] as number]);
           costs.sort((a, b) => a[1] - b[1]);
           if (costs.length < 2) return null;
           const cheapest = costs[0];
@@ -1149,15 +901,134 @@ export function WorkloadSimulator() {
     </Card>
   ) : null;
 
+  // --- Cache TTL expiry panel ---
+  const ttlPanel = ttlComparison ? (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cache Expiry Over Time</CardTitle>
+        <CardDescription className="text-sm">
+          {ARRIVAL_PATTERNS[arrivalPattern].description}. Entries expire after the TTL and refresh on every read; each expiry forces a new cache write.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>TTL</TableHead>
+              <TableHead className="text-right">Assignment-level writes</TableHead>
+              <TableHead className="text-right">Student-level writes</TableHead>
+              <TableHead className="text-right">Shared-prefix hit ratio</TableHead>
+              {ttlComparison.strategies.map((s) => (
+                <TableHead key={s.key} className="text-right">{s.label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ttlComparison.rows.map((row) => (
+              <TableRow key={row.ttl} className={row.ttl === effectiveCacheTTL ? "bg-muted/50" : ""}>
+                <TableCell className="font-medium">{row.ttl === "1hour" ? "1 hour" : "5 min"}</TableCell>
+                <TableCell className="text-right">{row.writes.assignment.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{row.writes.student.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{(row.hitRatio * 100).toFixed(1)}%</TableCell>
+                {row.totals.map((total, i) => (
+                  <TableCell key={ttlComparison.strategies[i].key} className="text-right">{formatCost(total)}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {sectionsActive && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Section</TableHead>
+                <TableHead>Starts</TableHead>
+                <TableHead className="text-right">Students</TableHead>
+                {ttlComparison.rows.map((row) => (
+                  <TableHead key={row.ttl} className="text-right">{row.ttl === "1hour" ? "1-hour" : "5-min"} cache on arrival</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sections.map((section, i) => (
+                <TableRow key={i}>
+                  <TableCell className="font-medium">{section.name}</TableCell>
+                  <TableCell>{formatClockTime(section.startMinutes)}</TableCell>
+                  <TableCell className="text-right">{section.students}</TableCell>
+                  {ttlComparison.rows.map((row) => {
+                    const report = row.sections?.sections[i];
+                    if (!report || report.requests === 0) return <TableCell key={row.ttl} className="text-right">—</TableCell>;
+                    return (
+                      <TableCell key={row.ttl} className="text-right">
+                        <span className={report.startsWarm ? "text-emerald-600" : "text-amber-600"}>
+                          {report.startsWarm ? "Warm" : "Re-written"}
+                        </span>
+                        <span className="text-muted-foreground"> · {report.writes.toLocaleString()} write{report.writes === 1 ? "" : "s"}</span>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {ttlComparison.rows.length === 2 ? (() => {
+          const [short, long] = ttlComparison.rows;
+          const bestShort = Math.min(...short.totals);
+          const bestLong = Math.min(...long.totals);
+          const diff = bestShort - bestLong;
+          return (
+            <p className="text-muted-foreground text-xs">
+              {diff > 0
+                ? <>The <strong>1-hour TTL</strong> pays off here — it avoids {(short.writes.assignment + short.writes.student - long.writes.assignment - long.writes.student).toLocaleString()} re-writes and saves <strong>{formatCost(diff)}</strong> on the cheapest caching strategy.</>
+                : <>The <strong>5-minute TTL</strong> is cheaper here — its lower write price outweighs the extra re-writes (by {formatCost(-diff)} on the cheapest caching strategy).</>}
+            </p>
+          );
+        })() : (
+          <p className="text-muted-foreground text-xs">
+            {selectedModel.name} only supports the 5-minute TTL.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  ) : null;
+
   return (
     <div className="space-y-6">
-      <div>
-        <h2>Workload Simulator</h2>
-        <p className="text-muted-foreground mt-1 text-sm">
-          {pageDescription}
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2>Workload Simulator</h2>
+          <p className="text-muted-foreground mt-1 text-sm">
+            {pageDescription}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <SaveScenarioDialog scenario={scenario} defaultName={`${activeTemplateMeta.label} · ${baseModel.name}`} />
+          <Button variant="outline" size="sm" asChild>
+            <Link to={`/compare?${SCENARIO_URL_PARAM}=${encodeScenario(scenario)}`}>
+              <GitCompareArrows className="w-4 h-4" />
+              Compare
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleCopyLink}>
+            <Link2 className="w-4 h-4" />
+            {linkCopied ? "Link copied" : "Copy link"}
+          </Button>
+        </div>
       </div>
 
+      {scenarioWarnings.length > 0 && (
+        <div className="flex items-start gap-3 rounded-md border border-amber-500/30 bg-amber-50 dark:bg-amber-900/10 p-3 text-sm">
+          <AlertTriangle className="w-4 h-4 text-amber-600 shrink-0 mt-0.5" />
+          <div className="flex-1 space-y-1">
+            {scenarioWarnings.map((warning) => <p key={warning}>{warning}</p>)}
+          </div>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setScenarioWarnings([])}>
+            Dismiss
+          </Button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
         {/* LEFT PANEL: Inputs */}
         <div className="lg:col-span-4 space-y-4">
@@ -1206,10 +1077,53 @@ export function WorkloadSimulator() {
                 </SelectContent>
               </Select>
 
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <div>
+                  <Label className="mb-2">Region</Label>
+                  <Select value={regionId} onValueChange={setRegionId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pricingData.regions.map((r) => (
+                        <SelectItem key={r.id} value={r.id}>
+                          <span className="flex items-center gap-2">
+                            {r.name}
+                            <span className="text-muted-foreground text-xs">({r.id})</span>
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="mb-2">Inference Profile</Label>
+                  <Select value={effectiveProfile} onValueChange={(v) => setInferenceProfile(v as InferenceProfile)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {baseModel.constraints.supported_inference_profiles.map((profile) => (
+                        <SelectItem key={profile} value={profile}>
+                          {INFERENCE_PROFILES[profile].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-muted-foreground mt-1.5 text-xs">
+                {INFERENCE_PROFILES[effectiveProfile].description}
+                {profilePremium > 0.001 && <> — <strong>+{(profilePremium * 100).toFixed(0)}%</strong> over global pricing</>}.
+                <span className="block font-mono text-[10px] mt-0.5 break-all">
+                  {getInferenceProfileId(baseModel, selectedRegion, effectiveProfile)}
+                </span>
+              </p>
+
               {supportsTiers && (
                 <div className="mt-3">
                   <Label className="mb-2">Pricing Tier</Label>
-                  <Select value={effectiveTier} onValueChange={(v) => setPricingTier(v as "standard" | "priority" | "flex")}>
+                  <Select value={effectiveTier} onValueChange={(v) => setPricingTier(v as PricingTier)}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -1288,16 +1202,96 @@ export function WorkloadSimulator() {
                   Guardrails
                   {guardrailsEnabled && (
                     <Badge className="ml-2" variant="secondary">
-                      +$0.15/1K text units
+                      +{formatCost(guardrailsCost.total)}
                     </Badge>
                   )}
                 </Label>
               </div>
               {guardrailsEnabled && (
+                <div className="mt-2 ml-6 space-y-2">
+                  {(Object.keys(GUARDRAIL_POLICIES) as GuardrailPolicy[]).map((policy) => {
+                    const meta = GUARDRAIL_POLICIES[policy];
+                    const direction = guardrailPolicies[policy];
+                    const rate = pricingData.metadata.guardrails_1k_units[policy];
+                    return (
+                      <div key={policy}>
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id={`guardrail-${policy}`}
+                            checked={direction != null}
+                            onCheckedChange={(checked) => setGuardrailPolicies((prev) => {
+                              const next = { ...prev };
+                              if (checked === true) next[policy] = meta.directions[meta.directions.length - 1];
+                              else delete next[policy];
+                              return next;
+                            })}
+                          />
+                          <Label htmlFor={`guardrail-${policy}`} className="cursor-pointer text-xs flex-1">
+                            {meta.label}
+                          </Label>
+                          {direction && meta.directions.length > 1 && (
+                            <Select
+                              value={direction}
+                              onValueChange={(v) => setGuardrailPolicies((prev) => ({ ...prev, [policy]: v as GuardrailDirection }))}
+                            >
+                              <SelectTrigger size="sm" className="w-[130px] text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {meta.directions.map((d) => (
+                                  <SelectItem key={d} value={d} className="text-xs">{GUARDRAIL_DIRECTION_LABELS[d]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          {direction && (
+                            <span className="text-xs font-medium w-16 text-right">{formatCost(guardrailsCost.byPolicy[policy])}</span>
+                          )}
+                        </div>
+                        <p className="text-muted-foreground text-xs ml-6">
+                          {meta.description} · ${rate.toFixed(2)} per 1,000 text units
+                        </p>
+                      </div>
+                    );
+                  })}
+                  <p className="text-muted-foreground text-xs">
+                    A text unit is up to 1,000 characters (~4 characters per token). Trusted prompt segments (system prompt, shared context, instructions) are not screened; word filters and regex patterns are free.
+                  </p>
+                </div>
+              )}
+
+              <div className="mt-3 flex items-center gap-2">
+                <Checkbox
+                  id="thinking-mode"
+                  checked={thinkingEnabled && supportsThinking}
+                  disabled={!supportsThinking}
+                  onCheckedChange={(checked) => setThinkingEnabled(checked === true)}
+                />
+                <Label htmlFor="thinking-mode" className={`cursor-pointer ${!supportsThinking ? "text-muted-foreground" : ""}`}>
+                  <Brain className="w-3.5 h-3.5 inline mr-1" />
+                  Extended thinking
+                </Label>
+              </div>
+              {!supportsThinking && (
                 <p className="text-muted-foreground mt-1 text-xs">
-                  Adds content filtering cost ($0.15 per 1,000 text units) on student input and model output. Trusted prompt segments (system prompt, shared context, instructions) are excluded. Assumes ~4 characters per token.
+                  {selectedModel.name} does not support extended thinking.
                 </p>
               )}
+              {thinkingEnabled && supportsThinking && (
+                <div className="mt-3">
+                  <SliderInput
+                    icon={<Brain className="w-4 h-4" />}
+                    label="Reasoning Budget"
+                    tooltip="Thinking tokens per request, billed at the output rate. Set it to what the model actually uses — often well under the budget_tokens cap."
+                    value={reasoningBudget}
+                    onChange={setReasoningBudget}
+                    min={1024}
+                    max={64000}
+                    step={256}
+                    suffix="tokens"
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -1321,25 +1315,78 @@ export function WorkloadSimulator() {
                 onValueChange={handleTemplateChange}
                 className="flex flex-wrap w-full"
               >
-                <ToggleGroupItem value="graf-simple" className="flex-1 min-w-0 text-xs">
-                  GRAF+
-                </ToggleGroupItem>
-                <ToggleGroupItem value="graf-literary" className="flex-1 min-w-0 text-xs">
-                  GRAF+ w/ Context
-                </ToggleGroupItem>
-                <ToggleGroupItem value="clarity-chat" className="flex-1 min-w-0 text-xs">
-                  Clarity Chat
-                </ToggleGroupItem>
-                <ToggleGroupItem value="clarity-chat-xl" className="flex-1 min-w-0 text-xs">
-                  Clarity XL
-                </ToggleGroupItem>
-                <ToggleGroupItem value="interactive-ai" className="flex-1 min-w-0 text-xs">
-                  Interactive AI
-                </ToggleGroupItem>
+                {(Object.entries({ ...getTemplateData().templates, ...templates }) as [TemplateKey, TemplateMeta][]).map(([key, meta]) => (
+                  <ToggleGroupItem key={key} value={key} className="flex-1 min-w-0 text-xs">
+                    {meta.shortLabel}
+                  </ToggleGroupItem>
+                ))}
               </ToggleGroup>
               <p className="text-muted-foreground mt-2 text-xs">
                 {activeTemplateMeta.label} — {activeTemplateMeta.description.replace(" and compare caching strategies.", ".")}
               </p>
+              <div className="flex flex-wrap items-center gap-2 mt-3">
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setTemplateDialog({ key: null })}>
+                  <Plus className="w-3.5 h-3.5" />
+                  Save as template
+                </Button>
+                {isCustomTemplateKey(simulationTemplate) && (
+                  <>
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setTemplateDialog({ key: simulationTemplate })}>
+                      <Pencil className="w-3.5 h-3.5" />
+                      Edit
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => handleDeleteTemplate(simulationTemplate)}>
+                      <Trash2 className="w-3.5 h-3.5" />
+                      Delete
+                    </Button>
+                    {simulationTemplate in linkTemplates && (
+                      <span className="text-muted-foreground text-xs">From a shared link, not saved. Edit and save it to keep it.</span>
+                    )}
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={Object.keys(customTemplates).length === 0}
+                  onClick={() => downloadFile("custom-templates.json", exportTemplates(customTemplates), "application/json")}
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  Export
+                </Button>
+                <label className="inline-flex items-center gap-1.5 h-7 px-2 text-xs font-medium rounded-md hover:bg-accent cursor-pointer">
+                  <Upload className="w-3.5 h-3.5" />
+                  Import
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                      handleImportTemplates(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+              </div>
+              {templateImportMessage && (
+                <div className="mt-2 text-xs space-y-1">
+                  <p className="text-muted-foreground">
+                    Imported {templateImportMessage.imported} template{templateImportMessage.imported === 1 ? "" : "s"}.
+                  </p>
+                  {templateImportMessage.errors.length > 0 && (
+                    <ul className="rounded-md border border-red-500/30 bg-red-50 dark:bg-red-900/10 p-3 text-red-700 dark:text-red-400 list-disc pl-6 space-y-0.5">
+                      {templateImportMessage.errors.map((error) => <li key={error}>{error}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+              <CustomTemplateDialog
+                open={templateDialog !== null}
+                onOpenChange={(open) => { if (!open) setTemplateDialog(null); }}
+                title={templateDialog?.key ? "Edit template" : "Save as template"}
+                initial={templateDraft}
+                onSave={handleSaveTemplate}
+              />
             </CardContent>
           </Card>
 
@@ -1353,15 +1400,22 @@ export function WorkloadSimulator() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-5">
-              <SliderInput
-                icon={<Users className="w-4 h-4" />}
-                label={labels.students.label}
-                value={students}
-                onChange={setStudents}
-                min={1}
-                max={200}
-                step={1}
-              />
+              {sectionsActive ? (
+                <p className="text-muted-foreground text-xs flex items-center gap-2">
+                  <Users className="w-4 h-4" />
+                  {labels.students.label}: <strong className="text-foreground">{students}</strong> across {sections.length} sections (set under Cache TTL)
+                </p>
+              ) : (
+                <SliderInput
+                  icon={<Users className="w-4 h-4" />}
+                  label={labels.students.label}
+                  value={students}
+                  onChange={setStudents}
+                  min={1}
+                  max={200}
+                  step={1}
+                />
+              )}
               <SliderInput
                 icon={<MessageSquare className="w-4 h-4" />}
                 label={labels.reqsPerStudent.label}
@@ -1469,6 +1523,105 @@ export function WorkloadSimulator() {
                       5-min cache — write cost is 1.25× base input price.
                     </p>
                   )}
+                  <div className="flex items-center gap-2 pt-1">
+                    <Checkbox
+                      id="expiry-sim"
+                      checked={expirySimEnabled}
+                      onCheckedChange={(checked) => setExpirySimEnabled(checked === true)}
+                    />
+                    <Label htmlFor="expiry-sim" className="cursor-pointer text-sm">
+                      Simulate cache expiry over time
+                    </Label>
+                  </div>
+                  {expirySimEnabled && (
+                    <Select value={arrivalPattern} onValueChange={(v) => setArrivalPattern(v as ArrivalPattern)}>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ARRIVAL_PATTERNS) as ArrivalPattern[]).map((key) => (
+                          <SelectItem key={key} value={key} className="text-xs">{ARRIVAL_PATTERNS[key].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {expirySimEnabled && (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="sections-mode"
+                          checked={sectionsEnabled}
+                          onCheckedChange={(checked) => {
+                            if (checked === true && !sectionsEnabled) setSections(splitIntoSections(students));
+                            setSectionsEnabled(checked === true);
+                          }}
+                        />
+                        <Label htmlFor="sections-mode" className="cursor-pointer text-sm">
+                          Multiple sections of the same assignment
+                        </Label>
+                      </div>
+                      {sectionsEnabled && (
+                        <>
+                          {sections.map((section, i) => (
+                            <div key={i} className="flex items-center gap-2">
+                              <span className="text-xs w-16 shrink-0">{section.name}</span>
+                              <Input
+                                type="time"
+                                value={formatClockTime(section.startMinutes)}
+                                onChange={(e) => {
+                                  const [h, m] = e.target.value.split(":").map((part) => parseInt(part));
+                                  if (Number.isFinite(h) && Number.isFinite(m)) updateSection(i, { startMinutes: h * 60 + m });
+                                }}
+                                className="h-8 text-xs flex-1"
+                              />
+                              <Input
+                                type="number"
+                                min={0}
+                                value={section.students}
+                                onChange={(e) => updateSection(i, { students: Math.max(0, parseInt(e.target.value) || 0) })}
+                                className="h-8 text-xs w-16"
+                                aria-label={`${section.name} students`}
+                              />
+                            </div>
+                          ))}
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 text-xs"
+                              onClick={() => setSections((prev) => {
+                                const last = prev[prev.length - 1];
+                                return [...prev, {
+                                  name: `Section ${prev.length + 1}`,
+                                  startMinutes: last ? last.startMinutes + 60 : 8 * 60,
+                                  students: last?.students ?? 25,
+                                }];
+                              })}
+                            >
+                              Add section
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 text-xs"
+                              disabled={sections.length <= 1}
+                              onClick={() => setSections((prev) => prev.slice(0, -1))}
+                            >
+                              Remove last
+                            </Button>
+                          </div>
+                          <p className="text-muted-foreground text-xs">
+                            Each section follows the arrival pattern from its start time. A section reuses the shared prefix only if the previous one touched it within the TTL.
+                          </p>
+                          {sectionStudents === 0 && (
+                            <p className="text-xs text-amber-600 dark:text-amber-400">
+                              No section has students, so the simulation uses the class size instead.
+                            </p>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
               {inputMode === "simple" ? (
@@ -1486,19 +1639,21 @@ export function WorkloadSimulator() {
                   />
                   {isConversational ? (
                     <>
-                      <SliderInput
-                        icon={<PenLine className="w-4 h-4" />}
-                        label={labels.subTokens.label}
-                        tooltip={isProgressiveSubmission
-                          ? "Total word count of the student's completed paper. The simulation models the student writing progressively across their messages."
-                          : "Approximate word count of each student's input per request (their submission, draft, or question)."}
-                        value={studentTextWordsOnly}
-                        onChange={handleStudentTextWordsOnlyChange}
-                        min={50}
-                        max={15000}
-                        step={50}
-                        suffix="words"
-                      />
+                      {!speech && (
+                        <SliderInput
+                          icon={<PenLine className="w-4 h-4" />}
+                          label={labels.subTokens.label}
+                          tooltip={isProgressiveSubmission
+                            ? "Total word count of the student's completed paper. The simulation models the student writing progressively across their messages."
+                            : "Approximate word count of each student's input per request (their submission, draft, or question)."}
+                          value={studentTextWordsOnly}
+                          onChange={handleStudentTextWordsOnlyChange}
+                          min={50}
+                          max={15000}
+                          step={50}
+                          suffix="words"
+                        />
+                      )}
                       {isProgressiveSubmission && (
                         <p className="text-muted-foreground -mt-1 text-xs">
                           Progressive writing model: the student&apos;s text grows from 0 words on the first message
@@ -1530,17 +1685,19 @@ export function WorkloadSimulator() {
                       suffix="words"
                     />
                   )}
-                  <SliderInput
-                    icon={<FileText className="w-4 h-4" />}
-                    label="AI Response Length"
-                    tooltip="Approximate word count of each AI response."
-                    value={aiResponseWords}
-                    onChange={handleAiResponseWordsChange}
-                    min={50}
-                    max={7500}
-                    step={25}
-                    suffix="words"
-                  />
+                  {!speech && (
+                    <SliderInput
+                      icon={<FileText className="w-4 h-4" />}
+                      label="AI Response Length"
+                      tooltip="Approximate word count of each AI response."
+                      value={aiResponseWords}
+                      onChange={handleAiResponseWordsChange}
+                      min={50}
+                      max={7500}
+                      step={25}
+                      suffix="words"
+                    />
+                  )}
                 </>
               ) : (
                 <>
@@ -1552,6 +1709,15 @@ export function WorkloadSimulator() {
                     onChange={setSysTokens}
                     min={100}
                     max={10000}
+                    action={
+                      <TokenEstimatorDialog
+                        fieldLabel={labels.sysTokens.label}
+                        model={selectedModel}
+                        min={100}
+                        max={10000}
+                        onApply={setSysTokens}
+                      />
+                    }
                     step={100}
                     suffix="tokens"
                   />
@@ -1563,20 +1729,40 @@ export function WorkloadSimulator() {
                     onChange={setCtxTokens}
                     min={1000}
                     max={200000}
+                    action={
+                      <TokenEstimatorDialog
+                        fieldLabel={labels.ctxTokens.label}
+                        model={selectedModel}
+                        min={1000}
+                        max={200000}
+                        onApply={setCtxTokens}
+                      />
+                    }
                     step={500}
                     suffix="tokens"
                   />
-                  <SliderInput
-                    icon={<PenLine className="w-4 h-4" />}
-                    label={labels.subTokens.label}
-                    tooltip={labels.subTokens.tooltip}
-                    value={subTokens}
-                    onChange={setSubTokens}
-                    min={100}
-                    max={20000}
-                    step={100}
-                    suffix="tokens"
-                  />
+                  {!speech && (
+                    <SliderInput
+                      icon={<PenLine className="w-4 h-4" />}
+                      label={labels.subTokens.label}
+                      tooltip={labels.subTokens.tooltip}
+                      value={subTokens}
+                      onChange={setSubTokens}
+                      min={100}
+                      max={20000}
+                      action={
+                        <TokenEstimatorDialog
+                          fieldLabel={labels.subTokens.label}
+                          model={selectedModel}
+                          min={100}
+                          max={20000}
+                          onApply={setSubTokens}
+                        />
+                      }
+                      step={100}
+                      suffix="tokens"
+                    />
+                  )}
                   {isProgressiveSubmission && (
                     <p className="text-muted-foreground -mt-1 text-xs">
                       Progressive writing model: avg. <strong>{Math.round(effectiveSubTokens).toLocaleString()}</strong> tokens/message
@@ -1584,39 +1770,354 @@ export function WorkloadSimulator() {
                     </p>
                   )}
                   <SliderInput
-                    icon={<MessageSquare className="w-4 h-4" />}
-                    label={labels.instTokens.label}
-                    tooltip={labels.instTokens.tooltip}
-                    value={instTokens}
-                    onChange={setInstTokens}
-                    min={50}
-                    max={10000}
-                    step={50}
+                    icon={<MessageSquare className="w-4 h-4" />}
+                    label={labels.instTokens.label}
+                    tooltip={labels.instTokens.tooltip}
+                    value={instTokens}
+                    onChange={setInstTokens}
+                    min={50}
+                    max={10000}
+                    action={
+                      <TokenEstimatorDialog
+                        fieldLabel={labels.instTokens.label}
+                        model={selectedModel}
+                        min={50}
+                        max={10000}
+                        onApply={setInstTokens}
+                      />
+                    }
+                    step={50}
+                    suffix="tokens"
+                  />
+                  {isConversational && (
+                    <p className="text-muted-foreground -mt-1 text-xs">
+                      Graduated model: avg. <strong>{Math.round(effectiveInstTokens).toLocaleString()}</strong> tokens/turn
+                      (ramps from 0 to {instTokens.toLocaleString()} over {turnsUntilCap} turns,
+                      ~{tokensPerExchange.toLocaleString()} per exchange)
+                    </p>
+                  )}
+                  {!speech && (
+                    <SliderInput
+                      icon={<FileText className="w-4 h-4" />}
+                      label={labels.outputTokens.label}
+                      tooltip={labels.outputTokens.tooltip}
+                      value={outputTokens}
+                      onChange={setOutputTokens}
+                      min={100}
+                      max={10000}
+                      step={100}
+                      suffix="tokens"
+                    />
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <span className="flex items-center gap-2">
+                  <ImageIcon className="w-5 h-5 text-primary" />
+                  Images &amp; Documents
+                </span>
+              </CardTitle>
+              <CardDescription className="text-sm">
+                Photos of student work, scanned pages, or reference figures sent with the prompt.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              {selectedModel.constraints.supports_vision && selectedModel.vision_token_formula ? (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className="mb-2">Input Type</Label>
+                      <ToggleGroup
+                        type="single"
+                        value={vision.kind}
+                        onValueChange={(v) => v && setVision((prev) => ({ ...prev, kind: v as VisionInputKind }))}
+                        className="flex w-full"
+                      >
+                        <ToggleGroupItem value="image" className="flex-1 text-xs">Images</ToggleGroupItem>
+                        <ToggleGroupItem value="pdf-page" className="flex-1 text-xs">PDF pages</ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                    <div>
+                      <Label className="mb-2">Resolution</Label>
+                      <Select
+                        value={IMAGE_RESOLUTIONS.find((r) => r.width === vision.width && r.height === vision.height)?.key}
+                        onValueChange={(key) => {
+                          const res = IMAGE_RESOLUTIONS.find((r) => r.key === key);
+                          if (res) setVision((prev) => ({ ...prev, width: res.width, height: res.height }));
+                        }}
+                      >
+                        <SelectTrigger className="text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {IMAGE_RESOLUTIONS.map((r) => (
+                            <SelectItem key={r.key} value={r.key} className="text-xs">{r.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <SliderInput
+                    icon={<PenLine className="w-4 h-4" />}
+                    label={vision.kind === "image" ? "Images per Request" : "Pages per Request"}
+                    tooltip="Attached to each request alongside the student's text, such as photos of handwritten work. Billed with the submission."
+                    value={vision.perRequest}
+                    onChange={(v) => setVision((prev) => ({ ...prev, perRequest: v }))}
+                    min={0}
+                    max={20}
+                    step={1}
+                    suffix={vision.kind === "image" ? "images" : "pages"}
+                  />
+                  <SliderInput
+                    icon={<BookOpen className="w-4 h-4" />}
+                    label={vision.kind === "image" ? "Shared Reference Images" : "Shared Reference Pages"}
+                    tooltip="Identical for every student, such as an exemplar or diagram. Placed in the shared context so it is cached with the prefix."
+                    value={vision.shared}
+                    onChange={(v) => setVision((prev) => ({ ...prev, shared: v }))}
+                    min={0}
+                    max={50}
+                    step={1}
+                    suffix={vision.kind === "image" ? "images" : "pages"}
+                  />
+                  <p className="text-muted-foreground -mt-1 text-xs">
+                    ≈ <strong>{visionTokens.perItem.toLocaleString()}</strong> input tokens per {vision.kind === "image" ? "image" : "page"} on {selectedModel.name}
+                    {vision.kind === "pdf-page" && ` (page image plus ~${selectedModel.vision_token_formula.pdf_page_text_tokens.toLocaleString()} tokens of extracted text)`}.
+                    {(visionTokens.perRequest > 0 || visionTokens.shared > 0) && (
+                      <> Adds {visionTokens.perRequest.toLocaleString()} tokens to each submission and {visionTokens.shared.toLocaleString()} to the shared context.</>
+                    )}
+                  </p>
+                </>
+              ) : (
+                <p className="text-muted-foreground text-sm">
+                  {selectedModel.name} does not accept image or document input. Choose a vision-capable model to cost image submissions.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <span className="flex items-center gap-2">
+                  <Wrench className="w-5 h-5 text-primary" />
+                  Tool Use
+                </span>
+              </CardTitle>
+              <CardDescription className="text-sm">
+                Function calling and structured output. Definitions are cached with the prefix; each call adds a round trip.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <SliderInput
+                icon={<Wrench className="w-4 h-4" />}
+                label="Tools Defined"
+                tooltip="Tool definitions sent with every request. A JSON schema for structured output counts as one tool with no calls."
+                value={tools.toolCount}
+                onChange={(v) => setTools((prev) => ({ ...prev, toolCount: v }))}
+                min={0}
+                max={50}
+                step={1}
+                suffix="tools"
+              />
+              {tools.toolCount > 0 && (
+                <>
+                  <SliderInput
+                    icon={<FileText className="w-4 h-4" />}
+                    label="Schema Size per Tool"
+                    tooltip="Name, description and JSON input schema of one tool."
+                    value={tools.schemaTokens}
+                    onChange={(v) => setTools((prev) => ({ ...prev, schemaTokens: v }))}
+                    min={20}
+                    max={5000}
+                    step={10}
                     suffix="tokens"
                   />
-                  {isConversational && (
-                    <p className="text-muted-foreground -mt-1 text-xs">
-                      Graduated model: avg. <strong>{Math.round(effectiveInstTokens).toLocaleString()}</strong> tokens/turn
-                      (ramps from 0 to {instTokens.toLocaleString()} over {turnsUntilCap} turns,
-                      ~{tokensPerExchange.toLocaleString()} per exchange)
-                    </p>
-                  )}
                   <SliderInput
-                    icon={<FileText className="w-4 h-4" />}
-                    label={labels.outputTokens.label}
-                    tooltip={labels.outputTokens.tooltip}
-                    value={outputTokens}
-                    onChange={setOutputTokens}
-                    min={100}
-                    max={10000}
-                    step={100}
-                    suffix="tokens"
+                    icon={<Zap className="w-4 h-4" />}
+                    label="Tool Calls per Request"
+                    tooltip="Average tool_use round trips before the final answer. Each one re-sends the prompt plus the tool exchange so far."
+                    value={tools.callsPerTurn}
+                    onChange={(v) => setTools((prev) => ({ ...prev, callsPerTurn: v }))}
+                    min={0}
+                    max={10}
+                    step={1}
+                    suffix="calls"
                   />
+                  {tools.callsPerTurn > 0 && (
+                    <SliderInput
+                      icon={<Terminal className="w-4 h-4" />}
+                      label="Tool Result Size"
+                      tooltip="Tokens in each tool_result returned to the model."
+                      value={tools.resultTokens}
+                      onChange={(v) => setTools((prev) => ({ ...prev, resultTokens: v }))}
+                      min={0}
+                      max={20000}
+                      step={50}
+                      suffix="tokens"
+                    />
+                  )}
+                  <p className="text-muted-foreground -mt-1 text-xs">
+                    Definitions add <strong>{toolOverhead.definitionTokens.toLocaleString()}</strong> tokens to the prefix, including the tool-use system prompt.
+                    {toolOverhead.roundTrips > 0 && (
+                      <> Each request makes {1 + toolOverhead.roundTrips} model calls, re-sending {Math.round(toolOverhead.exchangeTokens).toLocaleString()} exchange tokens and writing {toolOverhead.callOutputTokens.toLocaleString()} extra output tokens.</>
+                    )}
+                  </p>
                 </>
               )}
             </CardContent>
           </Card>
 
+          {retrieval && (
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  <span className="flex items-center gap-2">
+                    <Library className="w-5 h-5 text-primary" />
+                    Knowledge Base Retrieval
+                  </span>
+                </CardTitle>
+                <CardDescription className="text-sm">
+                  How the corpus is chunked, embedded and searched when answering from a Knowledge Base.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                <div>
+                  <Label className="mb-2">Embedding Model</Label>
+                  <Select value={embeddingModel?.id} onValueChange={setEmbeddingModelId}>
+                    <SelectTrigger className="text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pricingData.embedding_models.map((m) => (
+                        <SelectItem key={m.id} value={m.id} className="text-xs">
+                          {m.name} — ${(m.pricing.input_1k * 1000).toFixed(2)}/1M tokens
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <SliderInput
+                  icon={<FileText className="w-4 h-4" />}
+                  label="Chunk Size"
+                  tooltip="Tokens per chunk when the corpus is split for indexing."
+                  value={retrieval.chunkTokens}
+                  onChange={(v) => setRetrieval((prev) => prev && { ...prev, chunkTokens: v })}
+                  min={100}
+                  max={8000}
+                  step={50}
+                  suffix="tokens"
+                />
+                <SliderInput
+                  icon={<BookOpen className="w-4 h-4" />}
+                  label="Top-k Chunks"
+                  tooltip="Chunks retrieved for each question and placed in the prompt."
+                  value={retrieval.topK}
+                  onChange={(v) => setRetrieval((prev) => prev && { ...prev, topK: v })}
+                  min={1}
+                  max={50}
+                  step={1}
+                  suffix="chunks"
+                />
+                <SliderInput
+                  icon={<Timer className="w-4 h-4" />}
+                  label="Re-indexes per Class"
+                  tooltip="How many times the whole corpus is re-embedded over the class, e.g. once per weekly material update."
+                  value={retrieval.reindexCount}
+                  onChange={(v) => setRetrieval((prev) => prev && { ...prev, reindexCount: v })}
+                  min={0}
+                  max={30}
+                  step={1}
+                />
+                {embeddingModel && retrieval.chunkTokens > embeddingModel.max_input_tokens && (
+                  <p className="text-amber-700 dark:text-amber-400 -mt-1 text-xs">
+                    {embeddingModel.name} accepts at most {embeddingModel.max_input_tokens.toLocaleString()} tokens per chunk; longer chunks are truncated.
+                  </p>
+                )}
+                <p className="text-muted-foreground -mt-1 text-xs">
+                  Each question sends <strong>{getRetrievedTokens(simulationInput).toLocaleString()}</strong> retrieved tokens
+                  {ctxTokens > 0 && ` (${((getRetrievedTokens(simulationInput) / ctxTokens) * 100).toFixed(1)}% of the corpus)`}
+                  {" "}across {Math.ceil(ctxTokens / retrieval.chunkTokens).toLocaleString()} indexed chunks. Vector store charges (for example OpenSearch Serverless capacity) are billed separately and not included.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {speech && (
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  <span className="flex items-center gap-2">
+                    <Mic className="w-5 h-5 text-primary" />
+                    Spoken Session
+                  </span>
+                </CardTitle>
+                <CardDescription className="text-sm">
+                  How long each student speaks with the character. The transcript sets the text strategies&apos; message and reply lengths.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                <div>
+                  <Label className="mb-2">Speech Model</Label>
+                  <Select value={speechModel?.id} onValueChange={setSpeechModelId}>
+                    <SelectTrigger className="text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pricingData.speech_models.map((m) => (
+                        <SelectItem key={m.id} value={m.id} className="text-xs">
+                          {m.name} — ${(m.pricing.speech_input_1k * 1000).toFixed(2)} / ${(m.pricing.speech_output_1k * 1000).toFixed(2)} per 1M speech tokens
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <SliderInput
+                  icon={<Timer className="w-4 h-4" />}
+                  label="Session Length"
+                  tooltip="Minutes of conversation per student, counting both sides."
+                  value={speech.sessionMinutes}
+                  onChange={(v) => setSpeech((prev) => prev && { ...prev, sessionMinutes: v })}
+                  min={1}
+                  max={60}
+                  step={1}
+                  suffix="min"
+                />
+                <SliderInput
+                  icon={<Users className="w-4 h-4" />}
+                  label="Student Talk Ratio"
+                  tooltip="Share of the session the student is speaking; the character speaks the rest."
+                  value={Math.round(speech.talkRatio * 100)}
+                  onChange={(v) => setSpeech((prev) => prev && { ...prev, talkRatio: v / 100 })}
+                  min={10}
+                  max={90}
+                  step={5}
+                  suffix="%"
+                />
+                <p className="text-muted-foreground -mt-1 text-xs">
+                  At {SPOKEN_WORDS_PER_MINUTE} words per minute, each of the {reqsPerStudent} turns is about
+                  {" "}<strong>{subTokens.toLocaleString()}</strong> tokens from the student and <strong>{outputTokens.toLocaleString()}</strong> from the character.
+                  {speechModel && getSpeechConnections(speech, speechModel) > 1 && (
+                    <> Sessions longer than {speechModel.max_session_minutes} minutes are split into {getSpeechConnections(speech, speechModel)} connections, each resending the prompt.</>
+                  )}
+                </p>
+                {voicePremium && (
+                  <p className="text-sm">
+                    Voice premium: <strong>{formatCost(Math.abs(voicePremium.amount))}</strong> {voicePremium.amount >= 0 ? "more" : "less"} than {voicePremium.vsLabel}
+                    {voicePremium.ratio != null && <> ({voicePremium.ratio.toFixed(1)}×)</>}
+                  </p>
+                )}
+                <p className="text-muted-foreground -mt-1 text-xs">
+                  Speech token counts per minute are an estimate; check them against your own session logs.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
           {isConversational && (
             <Card>
               <CardHeader>
@@ -1731,7 +2232,7 @@ export function WorkloadSimulator() {
           {displayMode === "strategy-comparison" && (
             <>
               {/* Verdict Banner */}
-              {winner && winnerSavings && (
+              {winnerSummary && (
                 <Card className="border-emerald-500/30 bg-emerald-50 dark:bg-emerald-900/10">
                   <CardContent className="pt-6">
                     <div className="flex items-start gap-4">
@@ -1740,16 +2241,16 @@ export function WorkloadSimulator() {
                       </div>
                       <div className="min-w-0">
                         <h3 className="text-lg font-medium">
-                          {winnerSavings.percentage < 0.1
+                          {winnerSummary.savings.percentage < 0.1
                             ? "All strategies have similar cost"
-                            : `${winnerLabels[winner]} is cheapest — saving ${winnerSavings.percentage.toFixed(1)}%`}
+                            : `${winnerSummary.winner.strategy.label} is cheapest — saving ${winnerSummary.savings.percentage.toFixed(1)}%`}
                         </h3>
-                        {winnerSavings.percentage >= 0.1 && (
+                        {winnerSummary.savings.percentage >= 0.1 && (
                           <p className="text-muted-foreground mt-1 text-sm">
-                            Saving {formatCost(winnerSavings.amount)} compared to {winnerSavings.vsLabel}.
+                            Saving {formatCost(winnerSummary.savings.amount)} compared to {winnerSummary.savings.vsLabel}.
                           </p>
                         )}
-                        {winner === "batch" && (
+                        {winnerSummary.winner.strategy.kind === "batch" && (
                           <>
                             <div className="flex items-center gap-2 mt-3">
                               <TrendingDown className="w-4 h-4 text-emerald-600" />
@@ -1765,7 +2266,7 @@ export function WorkloadSimulator() {
                             </div>
                           </>
                         )}
-                        {(winner === "A" || winner === "B") && (
+                        {winnerSummary.winner.strategy.kind === "cache" && (
                           <div className="flex items-center gap-2 mt-3">
                             <TrendingDown className="w-4 h-4 text-emerald-600" />
                             <span className="text-sm font-medium">
@@ -1773,6 +2274,14 @@ export function WorkloadSimulator() {
                             </span>
                           </div>
                         )}
+                        {winnerSummary.winner.strategy.kind === "retrieval" && (
+                          <div className="flex items-center gap-2 mt-3">
+                            <TrendingDown className="w-4 h-4 text-emerald-600" />
+                            <span className="text-sm font-medium">
+                              Retrieving top-k chunks beats sending the full corpus, even with caching
+                            </span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -1797,151 +2306,51 @@ export function WorkloadSimulator() {
               )}
 
               {/* Cost Summary Cards */}
-              {(() => {
-                const cardCount = 1 + (results.strategyA ? 1 : 0) + (results.strategyB ? 1 : 0) + (results.batch ? 1 : 0);
-                const gridCols = cardCount >= 4
-                  ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-4"
-                  : cardCount === 3
-                    ? "grid-cols-1 md:grid-cols-3"
-                    : cardCount === 2
-                      ? "grid-cols-1 md:grid-cols-2"
-                      : "grid-cols-1";
-                return (
-                  <div className={`grid gap-4 ${gridCols}`}>
-                    <Card className={winner === "noCaching" ? "border-emerald-500" : !supportsCaching && !batchIncluded ? "border-secondary" : ""}>
-                      <CardHeader>
-                        <div className="flex items-center justify-between">
-                          <CardTitle className="text-base">No Caching</CardTitle>
-                          {winner === "noCaching" && (
-                            <Badge className="bg-emerald-500 text-white">Winner</Badge>
-                          )}
-                        </div>
-                        <CardDescription className="text-xs">On-demand baseline</CardDescription>
-                      </CardHeader>
-                      <CardContent>
-                        <p className="text-foreground text-xl font-medium">
-                          {formatCost(results.noCaching.total)}
-                          <span className="text-muted-foreground ml-1 text-xs font-normal">per class</span>
-                        </p>
-                        <p className="text-muted-foreground text-sm">
-                          {students > 0 ? formatCost(results.noCaching.total / students) : "$0.00"}
-                          <span className="ml-1 text-xs">per student</span>
-                        </p>
-                        <div className="mt-3 space-y-1">
-                          <CostLine label="Fresh Input" value={results.noCaching.freshInput} />
-                          <CostLine label="Output" value={results.noCaching.output} />
-                          {results.noCaching.guardrails > 0 && (
-                            <CostLine label="Guardrails" value={results.noCaching.guardrails} />
-                          )}
-                        </div>
-                      </CardContent>
-                    </Card>
+              <div className={`grid gap-4 ${strategyGridCols(strategyResults.length)}`}>
+                {strategyResults.map((r) => (
+                  <StrategyCostCard
+                    key={r.strategy.key}
+                    result={r}
+                    latency={estimateLatency(r.strategy, simulationInput, r.breakdown)}
+                    students={students}
+                    isWinner={r.strategy.key === winnerKey}
+                    badgeLabel="Winner"
+                    className={strategyResults.length === 1 ? "border-secondary" : ""}
+                  />
+                ))}
+              </div>
 
-                    {results.strategyA && (
-                      <Card className={winner === "A" ? "border-emerald-500" : ""}>
-                        <CardHeader>
-                          <div className="flex items-center justify-between">
-                            <CardTitle className="text-base">Per-Assignment Cache</CardTitle>
-                            {winner === "A" && (
-                              <Badge className="bg-emerald-500 text-white">Winner</Badge>
-                            )}
-                          </div>
-                          <CardDescription className="text-xs">Caches shared context across all students</CardDescription>
-                        </CardHeader>
-                        <CardContent>
-                          <p className="text-foreground text-xl font-medium">
-                            {formatCost(results.strategyA.total)}
-                            <span className="text-muted-foreground ml-1 text-xs font-normal">per class</span>
-                          </p>
-                          <p className="text-muted-foreground text-sm">
-                            {students > 0 ? formatCost(results.strategyA.total / students) : "$0.00"}
-                            <span className="ml-1 text-xs">per student</span>
-                          </p>
-                          <div className="mt-3 space-y-1">
-                            <CostLine label="Cache Write" value={results.strategyA.cacheWrite} />
-                            <CostLine label="Cache Read" value={results.strategyA.cacheRead} />
-                            <CostLine label="Fresh Input" value={results.strategyA.freshInput} />
-                            <CostLine label="Output" value={results.strategyA.output} />
-                            {results.strategyA.guardrails > 0 && (
-                              <CostLine label="Guardrails" value={results.strategyA.guardrails} />
-                            )}
-                          </div>
-                        </CardContent>
-                      </Card>
-                    )}
+              <MonteCarloPanel input={simulationInput} strategies={sensitivityStrategies} fieldLabels={labels} />
 
-                    {results.strategyB && (
-                      <Card className={winner === "B" ? "border-emerald-500" : ""}>
-                        <CardHeader>
-                          <div className="flex items-center justify-between">
-                            <CardTitle className="text-base">Per-Submission Cache</CardTitle>
-                            {winner === "B" && (
-                              <Badge className="bg-emerald-500 text-white">Winner</Badge>
-                            )}
-                          </div>
-                          <CardDescription className="text-xs">Writes cache for each student&apos;s submission</CardDescription>
-                        </CardHeader>
-                        <CardContent>
-                          <p className="text-foreground text-xl font-medium">
-                            {formatCost(results.strategyB.total)}
-                            <span className="text-muted-foreground ml-1 text-xs font-normal">per class</span>
-                          </p>
-                          <p className="text-muted-foreground text-sm">
-                            {students > 0 ? formatCost(results.strategyB.total / students) : "$0.00"}
-                            <span className="ml-1 text-xs">per student</span>
-                          </p>
-                          <div className="mt-3 space-y-1">
-                            <CostLine label="Cache Write" value={results.strategyB.cacheWrite} />
-                            <CostLine label="Cache Read" value={results.strategyB.cacheRead} />
-                            <CostLine label="Fresh Input" value={results.strategyB.freshInput} />
-                            <CostLine label="Output" value={results.strategyB.output} />
-                            {results.strategyB.guardrails > 0 && (
-                              <CostLine label="Guardrails" value={results.strategyB.guardrails} />
-                            )}
-                          </div>
-                        </CardContent>
-                      </Card>
-                    )}
+              {paramChart}
 
-                    {results.batch && (
-                      <Card className={winner === "batch" ? "border-emerald-500" : ""}>
-                        <CardHeader>
-                          <div className="flex items-center justify-between">
-                            <CardTitle className="text-base">Batch Inference</CardTitle>
-                            {winner === "batch" && (
-                              <Badge className="bg-emerald-500 text-white">Winner</Badge>
-                            )}
-                          </div>
-                          <CardDescription className="text-xs">Async via S3, 50% off input &amp; output, no caching</CardDescription>
-                        </CardHeader>
-                        <CardContent>
-                          <p className="text-foreground text-xl font-medium">
-                            {formatCost(results.batch.total)}
-                            <span className="text-muted-foreground ml-1 text-xs font-normal">per class</span>
-                          </p>
-                          <p className="text-muted-foreground text-sm">
-                            {students > 0 ? formatCost(results.batch.total / students) : "$0.00"}
-                            <span className="ml-1 text-xs">per student</span>
-                          </p>
-                          <div className="mt-2 flex items-center gap-1.5 text-amber-600 dark:text-amber-400">
-                            <Timer className="w-3.5 h-3.5 shrink-0" />
-                            <span className="text-xs font-medium">Up to 24-hour turnaround</span>
-                          </div>
-                          <div className="mt-3 space-y-1">
-                            <CostLine label="Fresh Input" value={results.batch.freshInput} />
-                            <CostLine label="Output" value={results.batch.output} />
-                            {results.batch.guardrails > 0 && (
-                              <CostLine label="Guardrails" value={results.batch.guardrails} />
-                            )}
-                          </div>
-                        </CardContent>
-                      </Card>
-                    )}
-                  </div>
-                );
-              })()}
+              {ttlPanel}
 
-              {paramChart}
+              <ProvisionedThroughputPanel input={simulationInput} strategies={onDemandStrategies} />
+
+              <RateLimitPanel input={simulationInput} strategies={sensitivityStrategies} profile={effectiveProfile} tier={effectiveTier} />
+
+              <BudgetSolverPanel
+                input={simulationInput}
+                context={strategyContext}
+                group={isSumMode ? "summarization" : "standard"}
+                strategies={sensitivityStrategies}
+                models={pricingData.models}
+                settings={scenarioSettings}
+                fieldLabels={labels}
+              />
+
+              {currentBest && (
+                <OptimizerPanel
+                  input={simulationInput}
+                  context={strategyContext}
+                  models={pricingData.models}
+                  placement={scenarioSettings}
+                  arrivals={arrivals}
+                  current={currentBest}
+                  onApply={handleApplyConfiguration}
+                />
+              )}
 
               {/* Stacked Bar Chart */}
               <Card>
@@ -1971,9 +2380,10 @@ export function WorkloadSimulator() {
                   <CardContent className="space-y-6">
                     <PromptVisualizer
                       strategy="A"
+                      toolTokens={toolOverhead.definitionTokens}
                       systemTokens={sysTokens}
-                      contextTokens={ctxTokens}
-                      submissionTokens={subTokens}
+                      contextTokens={ctxTokens + visionTokens.shared}
+                      submissionTokens={subTokens + visionTokens.perRequest}
                       instructionTokens={instTokens}
                       labels={vizLabels}
                       submissionCacheable={submissionCacheable}
@@ -1981,13 +2391,27 @@ export function WorkloadSimulator() {
                     <div className="border-t border-border" />
                     <PromptVisualizer
                       strategy="B"
+                      toolTokens={toolOverhead.definitionTokens}
                       systemTokens={sysTokens}
-                      contextTokens={ctxTokens}
-                      submissionTokens={subTokens}
+                      contextTokens={ctxTokens + visionTokens.shared}
+                      submissionTokens={subTokens + visionTokens.perRequest}
                       instructionTokens={instTokens}
                       labels={vizLabels}
                       submissionCacheable={submissionCacheable}
                     />
+                    <div className="border-t border-border" />
+                    <PromptVisualizer
+                      strategy="multi"
+                      toolTokens={toolOverhead.definitionTokens}
+                      systemTokens={sysTokens}
+                      contextTokens={ctxTokens + visionTokens.shared}
+                      submissionTokens={subTokens + visionTokens.perRequest}
+                      instructionTokens={instTokens}
+                      labels={vizLabels}
+                      cacheLayers={cacheLayers}
+                      checkpoints={cacheCheckpoints}
+                      onCheckpointsChange={setCacheCheckpoints}
+                    />
                   </CardContent>
                 </Card>
               )}
@@ -1999,57 +2423,22 @@ export function WorkloadSimulator() {
                   <CardDescription className="text-sm">Cost per individual API request</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  {(() => {
-                    const colCount = 1 + (results.strategyA ? 1 : 0) + (results.strategyB ? 1 : 0) + (results.batch ? 1 : 0);
-                    const gridCols = colCount >= 4
-                      ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-4"
-                      : colCount === 3
-                        ? "grid-cols-1 md:grid-cols-3"
-                        : colCount === 2
-                          ? "grid-cols-1 md:grid-cols-2"
-                          : "grid-cols-1";
-                    return (
-                      <div className={`grid gap-4 ${gridCols}`}>
-                        <div className={`p-4 rounded-lg ${winner === "noCaching" ? "bg-emerald-500/10" : "bg-muted/50"}`}>
-                          <p className="text-muted-foreground text-xs font-semibold">No Caching</p>
-                          <p className="text-foreground mt-1 text-xl font-medium">
-                            {totalRequests > 0 ? formatCost(results.noCaching.total / totalRequests) : "$0.00"}
+                  <div className={`grid gap-4 ${strategyGridCols(strategyResults.length)}`}>
+                    {strategyResults.map((r) => (
+                      <div key={r.strategy.key} className={`p-4 rounded-lg ${r.strategy.key === winnerKey ? "bg-emerald-500/10" : "bg-muted/50"}`}>
+                        <p className="text-muted-foreground text-xs font-semibold">{r.strategy.label}</p>
+                        <p className="text-foreground mt-1 text-xl font-medium">
+                          {totalRequests > 0 ? formatCost(r.breakdown.total / totalRequests) : "$0.00"}
+                        </p>
+                        <p className="text-muted-foreground text-xs">per request</p>
+                        {r.strategy.kind === "batch" && (
+                          <p className="text-amber-600 dark:text-amber-400 text-[10px] font-medium mt-1">
+                            <Timer className="w-3 h-3 inline mr-0.5" />up to 24h wait
                           </p>
-                          <p className="text-muted-foreground text-xs">per request</p>
-                        </div>
-                        {results.strategyA && (
-                          <div className={`p-4 rounded-lg ${winner === "A" ? "bg-emerald-500/10" : "bg-muted/50"}`}>
-                            <p className="text-muted-foreground text-xs font-semibold">Per-Assignment Cache</p>
-                            <p className="text-foreground mt-1 text-xl font-medium">
-                              {totalRequests > 0 ? formatCost(results.strategyA.total / totalRequests) : "$0.00"}
-                            </p>
-                            <p className="text-muted-foreground text-xs">per request</p>
-                          </div>
-                        )}
-                        {results.strategyB && (
-                          <div className={`p-4 rounded-lg ${winner === "B" ? "bg-emerald-500/10" : "bg-muted/50"}`}>
-                            <p className="text-muted-foreground text-xs font-semibold">Per-Submission Cache</p>
-                            <p className="text-foreground mt-1 text-xl font-medium">
-                              {totalRequests > 0 ? formatCost(results.strategyB.total / totalRequests) : "$0.00"}
-                            </p>
-                            <p className="text-muted-foreground text-xs">per request</p>
-                          </div>
-                        )}
-                        {results.batch && (
-                          <div className={`p-4 rounded-lg ${winner === "batch" ? "bg-emerald-500/10" : "bg-muted/50"}`}>
-                            <p className="text-muted-foreground text-xs font-semibold">Batch Inference</p>
-                            <p className="text-foreground mt-1 text-xl font-medium">
-                              {totalRequests > 0 ? formatCost(results.batch.total / totalRequests) : "$0.00"}
-                            </p>
-                            <p className="text-muted-foreground text-xs">per request</p>
-                            <p className="text-amber-600 dark:text-amber-400 text-[10px] font-medium mt-1">
-                              <Timer className="w-3 h-3 inline mr-0.5" />up to 24h wait
-                            </p>
-                          </div>
                         )}
                       </div>
-                    );
-                  })()}
+                    ))}
+                  </div>
                 </CardContent>
               </Card>
             </>
@@ -2061,7 +2450,7 @@ export function WorkloadSimulator() {
           {displayMode === "caching-insights" && (
             <>
               {/* Savings Verdict */}
-              {summarizationEnabled && sumStrategies && sumWinner && sumWinnerSavings ? (
+              {sumWinnerSummary ? (
                 <Card className="border-emerald-500/30 bg-emerald-50 dark:bg-emerald-900/10">
                   <CardContent className="pt-6">
                     <div className="flex items-start gap-4">
@@ -2070,9 +2459,9 @@ export function WorkloadSimulator() {
                       </div>
                       <div className="min-w-0">
                         <h3 className="text-lg font-medium">
-                          {sumWinnerSavings.percentage < 0.1
+                          {sumWinnerSummary.savings.percentage < 0.1
                             ? "All chat history summarization strategies have similar cost"
-                            : <>{sumWinnerLabels[sumWinner]} is cheapest — saving {sumWinnerSavings.percentage.toFixed(1)}% ({formatCost(sumWinnerSavings.amount)})</>}
+                            : <>{sumWinnerSummary.winner.strategy.shortLabel} is cheapest — saving {sumWinnerSummary.savings.percentage.toFixed(1)}% ({formatCost(sumWinnerSummary.savings.amount)})</>}
                         </h3>
                         <p className="text-muted-foreground mt-1 text-sm">
                           Comparing chat history summarization strategies: no caching, cache assessment prefix only, and cache prefix with periodic chat summary writes
@@ -2136,125 +2525,20 @@ export function WorkloadSimulator() {
               )}
 
               {/* Strategy Cards — either sliding window or summarization */}
-              {summarizationEnabled && sumStrategies ? (
-                <>
-                  {(() => {
-                    const cardCount = 1 + (sumStrategies.cacheAssessment ? 1 : 0) + (sumStrategies.cacheSummary ? 1 : 0);
-                    const gridCols = cardCount >= 3
-                      ? "grid-cols-1 md:grid-cols-3"
-                      : cardCount === 2
-                        ? "grid-cols-1 md:grid-cols-2"
-                        : "grid-cols-1";
-                    return (
-                      <div className={`grid gap-4 ${gridCols}`}>
-                        <Card className={sumWinner === "sumNoCaching" ? "border-emerald-500" : ""}>
-                          <CardHeader>
-                            <div className="flex items-center justify-between">
-                              <CardTitle className="text-base">No Caching</CardTitle>
-                              {sumWinner === "sumNoCaching" && (
-                                <Badge className="bg-emerald-500 text-white">Cheapest</Badge>
-                              )}
-                            </div>
-                            <CardDescription className="text-xs">Compress chat history, all tokens as fresh input</CardDescription>
-                          </CardHeader>
-                          <CardContent>
-                            <p className="text-foreground text-xl font-medium">
-                              {formatCost(sumStrategies.noCaching.total)}
-                              <span className="text-muted-foreground ml-1 text-xs font-normal">per class</span>
-                            </p>
-                            <div className="mt-2 space-y-0.5">
-                              <p className="text-muted-foreground text-sm">
-                                {students > 0 ? formatCost(sumStrategies.noCaching.total / students) : "$0.00"}
-                                <span className="ml-1 text-xs">per student</span>
-                              </p>
-                            </div>
-                            <div className="mt-3 space-y-1">
-                              <CostLine label="Fresh Input" value={sumStrategies.noCaching.freshInput} />
-                              <CostLine label="Output" value={sumStrategies.noCaching.output} />
-                              <CostLine label="Summarization Calls" value={sumStrategies.noCaching.summarizationCalls} />
-                              {sumStrategies.noCaching.guardrails > 0 && (
-                                <CostLine label="Guardrails" value={sumStrategies.noCaching.guardrails} />
-                              )}
-                            </div>
-                          </CardContent>
-                        </Card>
-
-                        {sumStrategies.cacheAssessment && (
-                          <Card className={sumWinner === "sumCacheAssessment" ? "border-emerald-500" : ""}>
-                            <CardHeader>
-                              <div className="flex items-center justify-between">
-                                <CardTitle className="text-base">Cache Prefix</CardTitle>
-                                {sumWinner === "sumCacheAssessment" && (
-                                  <Badge className="bg-emerald-500 text-white">Cheapest</Badge>
-                                )}
-                              </div>
-                              <CardDescription className="text-xs">Cache assessment context; chat summary sent as fresh input</CardDescription>
-                            </CardHeader>
-                            <CardContent>
-                              <p className="text-foreground text-xl font-medium">
-                                {formatCost(sumStrategies.cacheAssessment.total)}
-                                <span className="text-muted-foreground ml-1 text-xs font-normal">per class</span>
-                              </p>
-                              <div className="mt-2 space-y-0.5">
-                                <p className="text-muted-foreground text-sm">
-                                  {students > 0 ? formatCost(sumStrategies.cacheAssessment.total / students) : "$0.00"}
-                                  <span className="ml-1 text-xs">per student</span>
-                                </p>
-                              </div>
-                              <div className="mt-3 space-y-1">
-                                <CostLine label="Cache Write" value={sumStrategies.cacheAssessment.cacheWrite} />
-                                <CostLine label="Cache Read" value={sumStrategies.cacheAssessment.cacheRead} />
-                                <CostLine label="Fresh Input" value={sumStrategies.cacheAssessment.freshInput} />
-                                <CostLine label="Output" value={sumStrategies.cacheAssessment.output} />
-                                <CostLine label="Summarization Calls" value={sumStrategies.cacheAssessment.summarizationCalls} />
-                                {sumStrategies.cacheAssessment.guardrails > 0 && (
-                                  <CostLine label="Guardrails" value={sumStrategies.cacheAssessment.guardrails} />
-                                )}
-                              </div>
-                            </CardContent>
-                          </Card>
-                        )}
-
-                        {sumStrategies.cacheSummary && (
-                          <Card className={sumWinner === "sumCacheSummary" ? "border-emerald-500" : ""}>
-                            <CardHeader>
-                              <div className="flex items-center justify-between">
-                                <CardTitle className="text-base">Cache Prefix + Chat Summary</CardTitle>
-                                {sumWinner === "sumCacheSummary" && (
-                                  <Badge className="bg-emerald-500 text-white">Cheapest</Badge>
-                                )}
-                              </div>
-                              <CardDescription className="text-xs">Cache assessment context with chat summary; periodic cache rewrites when summary updates</CardDescription>
-                            </CardHeader>
-                            <CardContent>
-                              <p className="text-foreground text-xl font-medium">
-                                {formatCost(sumStrategies.cacheSummary.total)}
-                                <span className="text-muted-foreground ml-1 text-xs font-normal">per class</span>
-                              </p>
-                              <div className="mt-2 space-y-0.5">
-                                <p className="text-muted-foreground text-sm">
-                                  {students > 0 ? formatCost(sumStrategies.cacheSummary.total / students) : "$0.00"}
-                                  <span className="ml-1 text-xs">per student</span>
-                                </p>
-                              </div>
-                              <div className="mt-3 space-y-1">
-                                <CostLine label="Cache Write" value={sumStrategies.cacheSummary.cacheWrite} />
-                                <CostLine label="Cache Read" value={sumStrategies.cacheSummary.cacheRead} />
-                                <CostLine label="Fresh Input" value={sumStrategies.cacheSummary.freshInput} />
-                                <CostLine label="Output" value={sumStrategies.cacheSummary.output} />
-                                <CostLine label="Summarization Calls" value={sumStrategies.cacheSummary.summarizationCalls} />
-                                {sumStrategies.cacheSummary.guardrails > 0 && (
-                                  <CostLine label="Guardrails" value={sumStrategies.cacheSummary.guardrails} />
-                                )}
-                              </div>
-                            </CardContent>
-                          </Card>
-                        )}
-                      </div>
-                    );
-                  })()}
-
-                </>
+              {isSumMode ? (
+                <div className={`grid gap-4 ${strategyGridCols(sumResults.length)}`}>
+                  {sumResults.map((r) => (
+                    <StrategyCostCard
+                      key={r.strategy.key}
+                      result={r}
+                      latency={estimateLatency(r.strategy, simulationInput, r.breakdown)}
+                      label={r.strategy.shortLabel}
+                      students={students}
+                      isWinner={r.strategy.key === sumWinnerKey}
+                      badgeLabel="Cheapest"
+                    />
+                  ))}
+                </div>
               ) : (
                 (() => {
                   const colCount = 1 + (results.strategyA ? 1 : 0);
@@ -2286,6 +2570,9 @@ export function WorkloadSimulator() {
                           <div className="mt-3 space-y-1">
                             <CostLine label="Fresh Input" value={results.noCaching.freshInput} />
                             <CostLine label="Output" value={results.noCaching.output} />
+                            {results.noCaching.reasoning > 0 && (
+                              <CostLine label="Reasoning" value={results.noCaching.reasoning} />
+                            )}
                             {results.noCaching.guardrails > 0 && (
                               <CostLine label="Guardrails" value={results.noCaching.guardrails} />
                             )}
@@ -2326,6 +2613,9 @@ export function WorkloadSimulator() {
                               <CostLine label="Cache Read" value={results.strategyA.cacheRead} />
                               <CostLine label="Fresh Input" value={results.strategyA.freshInput} />
                               <CostLine label="Output" value={results.strategyA.output} />
+                              {results.strategyA.reasoning > 0 && (
+                                <CostLine label="Reasoning" value={results.strategyA.reasoning} />
+                              )}
                               {results.strategyA.guardrails > 0 && (
                                 <CostLine label="Guardrails" value={results.strategyA.guardrails} />
                               )}
@@ -2338,8 +2628,38 @@ export function WorkloadSimulator() {
                 })()
               )}
 
+              <MonteCarloPanel input={simulationInput} strategies={sensitivityStrategies} fieldLabels={labels} />
+
               {paramChart}
 
+              {ttlPanel}
+
+              <ProvisionedThroughputPanel input={simulationInput} strategies={onDemandStrategies} />
+
+              <RateLimitPanel input={simulationInput} strategies={sensitivityStrategies} profile={effectiveProfile} tier={effectiveTier} />
+
+              <BudgetSolverPanel
+                input={simulationInput}
+                context={strategyContext}
+                group={isSumMode ? "summarization" : "standard"}
+                strategies={sensitivityStrategies}
+                models={pricingData.models}
+                settings={scenarioSettings}
+                fieldLabels={labels}
+              />
+
+              {currentBest && (
+                <OptimizerPanel
+                  input={simulationInput}
+                  context={strategyContext}
+                  models={pricingData.models}
+                  placement={scenarioSettings}
+                  arrivals={arrivals}
+                  current={currentBest}
+                  onApply={handleApplyConfiguration}
+                />
+              )}
+
               {/* Per-Turn Cost Chart */}
               {perTurnData.length > 0 && (
                 <Card>
@@ -2375,7 +2695,7 @@ export function WorkloadSimulator() {
               )}
 
               {/* Summarization Caching Analysis */}
-              {summarizationEnabled && sumStrategies?.cacheAssessment && sumStrategies?.cacheSummary && (
+              {sumCacheAssessment && sumCacheSummary && (
                 <Card>
                   <CardHeader>
                     <CardTitle>Chat Summary Caching Analysis</CardTitle>
@@ -2385,8 +2705,8 @@ export function WorkloadSimulator() {
                   </CardHeader>
                   <CardContent className="space-y-4">
                     {(() => {
-                      const prefixCost = sumStrategies.cacheAssessment!.total;
-                      const summaryCost = sumStrategies.cacheSummary!.total;
+                      const prefixCost = sumCacheAssessment.total;
+                      const summaryCost = sumCacheSummary.total;
                       const diff = prefixCost - summaryCost;
                       const pct = prefixCost > 0 ? (diff / prefixCost) * 100 : 0;
                       const summaryWins = diff > 0;
@@ -2648,9 +2968,10 @@ export function WorkloadSimulator() {
                     <PromptVisualizer
                       strategy="caching"
                       strategyLabel="Cached vs. Fresh Segments"
+                      toolTokens={toolOverhead.definitionTokens}
                       systemTokens={sysTokens}
-                      contextTokens={ctxTokens}
-                      submissionTokens={subTokens}
+                      contextTokens={ctxTokens + visionTokens.shared}
+                      submissionTokens={subTokens + visionTokens.perRequest}
                       instructionTokens={instTokens}
                       labels={vizLabels}
                       submissionCacheable={submissionCacheable}
@@ -2712,6 +3033,7 @@ function SliderInput({
   max,
   step,
   suffix,
+  action,
 }: {
   label: string;
   tooltip?: string;
@@ -2722,6 +3044,7 @@ function SliderInput({
   max: number;
   step: number;
   suffix?: string;
+  action?: React.ReactNode;
 }) {
   const [inputText, setInputText] = useState(String(value));
   const isFocused = useRef(false);
@@ -2759,6 +3082,7 @@ function SliderInput({
               </TooltipContent>
             </Tooltip>
           )}
+          {action}
         </div>
         <div className="flex items-center gap-1.5">
           <Input
@@ -2804,3 +3128,85 @@ function CostLine({ label, value }: { label: string; value: number }) {
     </div>
   );
 }
+
+function strategyGridCols(count: number): string {
+  if (count >= 4) return "grid-cols-1 sm:grid-cols-2 lg:grid-cols-4";
+  if (count === 3) return "grid-cols-1 md:grid-cols-3";
+  if (count === 2) return "grid-cols-1 md:grid-cols-2";
+  return "grid-cols-1";
+}
+
+function StrategyCostCard({
+  result,
+  latency,
+  label,
+  students,
+  isWinner,
+  badgeLabel,
+  className = "",
+}: {
+  result: StrategyResult;
+  latency?: StrategyLatency;
+  label?: string;
+  students: number;
+  isWinner: boolean;
+  badgeLabel: string;
+  className?: string;
+}) {
+  const { strategy, breakdown } = result;
+  return (
+    <Card className={isWinner ? "border-emerald-500" : className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">{label ?? strategy.label}</CardTitle>
+          {isWinner && (
+            <Badge className="bg-emerald-500 text-white">{badgeLabel}</Badge>
+          )}
+        </div>
+        <CardDescription className="text-xs">{strategy.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <p className="text-foreground text-xl font-medium">
+          {formatCost(breakdown.total)}
+          <span className="text-muted-foreground ml-1 text-xs font-normal">per class</span>
+        </p>
+        <p className="text-muted-foreground text-sm">
+          {students > 0 ? formatCost(breakdown.total / students) : "$0.00"}
+          <span className="ml-1 text-xs">per student</span>
+        </p>
+        {strategy.note && (
+          <div className="mt-2 flex items-center gap-1.5 text-amber-600 dark:text-amber-400">
+            <Timer className="w-3.5 h-3.5 shrink-0" />
+            <span className="text-xs font-medium">{strategy.note}</span>
+          </div>
+        )}
+        <div className="mt-3 space-y-1">
+          {strategy.kind === "cache" && <CostLine label="Cache Write" value={breakdown.cacheWrite} />}
+          {strategy.kind === "cache" && <CostLine label="Cache Read" value={breakdown.cacheRead} />}
+          <CostLine label="Fresh Input" value={breakdown.freshInput} />
+          <CostLine label="Output" value={breakdown.output} />
+          {breakdown.reasoning > 0 && (
+            <CostLine label="Reasoning" value={breakdown.reasoning} />
+          )}
+          {"embedding" in breakdown && (
+            <CostLine label="Embedding" value={breakdown.embedding as number} />
+          )}
+          {"speech" in breakdown && (
+            <CostLine label="Speech Audio" value={breakdown.speech as number} />
+          )}
+          {"summarizationCalls" in breakdown && (
+            <CostLine label="Summarization Calls" value={breakdown.summarizationCalls as number} />
+          )}
+          {breakdown.guardrails > 0 && (
+            <CostLine label="Guardrails" value={breakdown.guardrails} />
+          )}
+        </div>
+        {latency && (
+          <div className="mt-3 pt-3 border-t border-border">
+            <LatencyLines latency={latency} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,9 @@ import { Layout } from "./components/layout";
 import { PricingMatrix } from "./components/pricing-matrix";
 import { WorkloadSimulator } from "./components/workload-simulator";
 import { CachingPrimer } from "./components/caching-primer";
+import { TermPlanner } from "./components/term-planner";
+import { SavedScenarios } from "./components/saved-scenarios";
+import { ScenarioCompare } from "./components/scenario-compare";
 
 export const router = createHashRouter([
   {
@@ -11,6 +14,9 @@ export const router = createHashRouter([
     children: [
       { index: true, Component: PricingMatrix },
       { path: "simulator", Component: WorkloadSimulator },
+      { path: "planner", Component: TermPlanner },
+      { path: "scenarios", Component: SavedScenarios },
+      { path: "compare", Component: ScenarioCompare },
       { path: "primer", Component: CachingPrimer },
       {
         path: "*",